@@ -86,6 +86,7 @@ describe("collectDeclarations", () => {
     `;
     const records = collectDeclarations("/test/file.ts", source, {
       includeEnums: true,
+      includeClasses: true,
     });
     const interfaces = records.filter((r) => r.kind === "interface");
     expect(interfaces.length).toBe(1);
@@ -94,6 +95,45 @@ describe("collectDeclarations", () => {
     expect(interfaces[0]?.propertyCount).toBe(2);
   });
 
+  it("lists members of every kind with their modifiers", () => {
+    const source = `
+      interface Api {
+        (input: string): void;
+        new (): Api;
+        [key: string]: unknown;
+        fetch(): void;
+        readonly id?: string;
+        get size(): number;
+        set size(value: number);
+      }
+      interface Handler { handle(): void; close(): void; }
+    `;
+    const records = collectDeclarations("/test/file.ts", source, {
+      includeEnums: true,
+      includeClasses: true,
+    });
+
+    expect(records[0]?.members).toEqual([
+      { kind: "call", name: "()", optional: false, readonly: false },
+      { kind: "construct", name: "new()", optional: false, readonly: false },
+      { kind: "index", name: "[string]", optional: false, readonly: false },
+      { kind: "method", name: "fetch", optional: false, readonly: false },
+      { kind: "property", name: "id", optional: true, readonly: true },
+      { kind: "getter", name: "size", optional: false, readonly: false },
+      { kind: "setter", name: "size", optional: false, readonly: false },
+    ]);
+    expect(records[0]?.propertyNames).toEqual([
+      "()",
+      "[string]",
+      "fetch",
+      "id",
+      "new()",
+      "size",
+    ]);
+    expect(records[1]?.propertyNames).toEqual(["close", "handle"]);
+    expect(records[1]?.propertyCount).toBe(2);
+  });
+
   it("collects type alias declarations", () => {
     const source = `
       export type Status = "active" | "inactive";
@@ -101,6 +141,7 @@ describe("collectDeclarations", () => {
     `;
     const records = collectDeclarations("/test/file.ts", source, {
       includeEnums: true,
+      includeClasses: true,
     });
     const types = records.filter((r) => r.kind === "type");
     expect(types.length).toBe(2);
@@ -113,6 +154,7 @@ describe("collectDeclarations", () => {
     `;
     const records = collectDeclarations("/test/file.ts", source, {
       includeEnums: true,
+      includeClasses: true,
     });
     const enums = records.filter((r) => r.kind === "enum");
     expect(enums.length).toBe(1);
@@ -127,11 +169,165 @@ describe("collectDeclarations", () => {
     `;
     const records = collectDeclarations("/test/file.ts", source, {
       includeEnums: false,
+      includeClasses: true,
     });
     expect(records.filter((r) => r.kind === "enum").length).toBe(0);
     expect(records.filter((r) => r.kind === "interface").length).toBe(1);
   });
 
+  it("collects class declarations with their public instance members", () => {
+    const source = `
+      export class UserDto {
+        static create(): UserDto { return new UserDto("", ""); }
+        private secret = "";
+        #token = "";
+        email?: string;
+        constructor(public id: string, readonly name: string, private db: Db) {}
+        greet(): string { return this.name; }
+        protected audit(): void {}
+      }
+    `;
+    const records = collectDeclarations("/test/file.ts", source, {
+      includeEnums: true,
+      includeClasses: true,
+    });
+    const classes = records.filter((r) => r.kind === "class");
+    expect(classes.length).toBe(1);
+    expect(classes[0]?.name).toBe("UserDto");
+    expect(classes[0]?.propertyNames).toEqual(["email", "greet", "id", "name"]);
+  });
+
+  it("skips class declarations when includeClasses is false", () => {
+    const source = `
+      class UserDto { id: string = ""; }
+      interface User { id: string; }
+    `;
+    const records = collectDeclarations("/test/file.ts", source, {
+      includeEnums: true,
+      includeClasses: false,
+    });
+    expect(records.filter((r) => r.kind === "class").length).toBe(0);
+    expect(records.filter((r) => r.kind === "interface").length).toBe(1);
+  });
+
+  it("gives a DTO class the same shape as the matching interface", () => {
+    const source = `
+      interface User { id: string; readonly name: string; greet(): string; }
+      class UserDto {
+        constructor(public id: string, public readonly name: string) {}
+        greet(): string { return this.name; }
+        private cache = new Map();
+      }
+    `;
+    const records = collectDeclarations("/test/file.ts", source, {
+      includeEnums: true,
+      includeClasses: true,
+    });
+    expect(records.map((r) => r.kind)).toEqual(["interface", "class"]);
+    expect(records[0]?.normalizedShape).toBe(records[1]?.normalizedShape);
+  });
+
+  it("records the container of each declaration", () => {
+    const source = `
+      export interface Top { a: string; }
+      declare global { interface Window { b: string; } }
+      declare module "express" { interface Request { c: string; } }
+      export namespace Api.V1 { export interface User { d: string; } }
+      export function f() { interface Local { e: string; } }
+    `;
+    const records = collectDeclarations("/test/file.ts", source, {
+      includeEnums: true,
+      includeClasses: true,
+    });
+    expect(records.map((r) => [r.name, r.container])).toEqual([
+      ["Top", { kind: "file", module: null, namespaces: [] }],
+      ["Window", { kind: "global", module: null, namespaces: [] }],
+      ["Request", { kind: "module", module: "express", namespaces: [] }],
+      ["User", { kind: "file", module: null, namespaces: ["Api", "V1"] }],
+      ["Local", { kind: "local", module: null, namespaces: [] }],
+    ]);
+  });
+
+  it("qualifies names and classifies their scope", () => {
+    const source = `
+      export interface Top { a: string; }
+      declare global { interface Window { b: string; } }
+      export namespace Api.V1 { export interface User { d: string; } }
+      export function fooFn() { interface Props { e: string; } }
+      export class Store { load() { type Row = { f: string }; } }
+      export const handler = () => { interface Ctx { g: string; } };
+    `;
+    const records = collectDeclarations("/test/file.ts", source, {
+      includeEnums: true,
+      includeClasses: false,
+    });
+    expect(records.map((r) => [r.qualifiedName, r.scope])).toEqual([
+      ["Top", "module"],
+      ["Window", "ambient"],
+      ["Api.V1.User", "namespace"],
+      ["<local in fooFn>.Props", "local"],
+      ["<local in Store.load>.Row", "local"],
+      ["<local in handler>.Ctx", "local"],
+    ]);
+  });
+
+  it("classifies declaration files and augmented modules as ambient", () => {
+    const records = [
+      ...collectDeclarations(
+        "/test/env.d.ts",
+        "declare namespace NodeJS { interface ProcessEnv { A: string; } }",
+        { includeEnums: true, includeClasses: true },
+      ),
+      ...collectDeclarations(
+        "/test/augment.ts",
+        'import "express"; declare module "express" { interface Request { c: string; } }',
+        { includeEnums: true, includeClasses: true },
+      ),
+    ];
+    expect(records.map((r) => [r.qualifiedName, r.scope])).toEqual([
+      ["NodeJS.ProcessEnv", "ambient"],
+      ['"express".Request', "ambient"],
+    ]);
+  });
+
+  it("flags exported declarations", () => {
+    const source = `
+      export interface A { a: string; }
+      interface B { b: string; }
+      type C = { c: string };
+      export { C as Renamed };
+      export default interface D { d: string; }
+      export namespace Api { export interface E { e: string; } interface F { f: string; } }
+      namespace Private { export interface G { g: string; } }
+      export function f() { interface H { h: string; } }
+      declare global { interface I { i: string; } }
+    `;
+    const records = collectDeclarations("/test/file.ts", source, {
+      includeEnums: true,
+      includeClasses: true,
+    });
+    expect(records.map((r) => [r.name, r.exported])).toEqual([
+      ["A", true],
+      ["B", false],
+      ["C", true],
+      ["D", true],
+      ["E", true],
+      ["F", false],
+      ["G", false],
+      ["H", false],
+      ["I", true],
+    ]);
+  });
+
+  it("treats top-level declarations in scripts as global", () => {
+    const records = collectDeclarations(
+      "/test/globals.d.ts",
+      "interface Env { NODE_ENV: string; }",
+      { includeEnums: true, includeClasses: true },
+    );
+    expect(records[0]?.container.kind).toBe("global");
+  });
+
   it("collects re-export declarations", () => {
     const source = `
       export { Foo, Bar } from "./other";
@@ -139,6 +335,7 @@ describe("collectDeclarations", () => {
     `;
     const records = collectDeclarations("/test/file.ts", source, {
       includeEnums: true,
+      includeClasses: true,
     });
     const reexports = records.filter((r) => r.kind === "reexport");
     expect(reexports.length).toBe(3);
@@ -153,6 +350,7 @@ describe("collectDeclarations", () => {
     `;
     const records = collectDeclarations("/test/file.ts", source, {
       includeEnums: true,
+      includeClasses: true,
     });
     const reexports = records.filter((r) => r.kind === "reexport");
     expect(reexports.length).toBe(0);
@@ -165,6 +363,7 @@ describe("collectDeclarations", () => {
     `;
     const records = collectDeclarations("/test/component.tsx", source, {
       includeEnums: true,
+      includeClasses: true,
     });
     expect(records.filter((r) => r.kind === "interface").length).toBe(1);
     expect(records.filter((r) => r.kind === "type").length).toBe(1);
@@ -180,6 +379,7 @@ interface Bar {
 }`;
     const records = collectDeclarations("/test/file.ts", source, {
       includeEnums: true,
+      includeClasses: true,
     });
     const foo = records.find((r) => r.name === "Foo");
     const bar = records.find((r) => r.name === "Bar");
@@ -194,6 +394,7 @@ interface Bar {
     `;
     const records = collectDeclarations("/test/file.ts", source, {
       includeEnums: true,
+      includeClasses: true,
     });
     expect(records.length).toBe(0);
   });
@@ -201,6 +402,7 @@ interface Bar {
   it("handles empty source text", () => {
     const records = collectDeclarations("/test/empty.ts", "", {
       includeEnums: true,
+      includeClasses: true,
     });
     expect(records.length).toBe(0);
   });
@@ -215,8 +417,38 @@ interface Bar {
     `;
     const records = collectDeclarations("/test/file.ts", source, {
       includeEnums: true,
+      includeClasses: true,
     });
     expect(records[0]?.propertyNames).toEqual(["debug", "output", "verbose"]);
     expect(records[0]?.propertyCount).toBe(3);
   });
+
+  it("builds order-insensitive shape keys by default", () => {
+    const source = `
+      interface A { a: string; b: number; }
+      type B = { b: number, a: string };
+    `;
+    const records = collectDeclarations("/test/file.ts", source, {
+      includeEnums: true,
+      includeClasses: true,
+    });
+    expect(records[0]?.normalizedShape).toBe(records[1]?.normalizedShape);
+    expect(records[0]?.shape?.kind).toBe("object");
+  });
+
+  it("keeps the text-based shape with the legacy strategy", () => {
+    const source = `
+      interface A { a: string; b: number; }
+      type B = { b: number; a: string; };
+    `;
+    const records = collectDeclarations("/test/file.ts", source, {
+      includeEnums: true,
+      includeClasses: true,
+      shapeStrategy: "legacy",
+    });
+    expect(records[0]?.normalizedShape).toBe(
+      "type __NAME__ = { a: string; b: number; }",
+    );
+    expect(records[0]?.normalizedShape).not.toBe(records[1]?.normalizedShape);
+  });
 });
@@ -9,16 +9,26 @@ import { parseArgs } from "../args.js";
 describe("parseArgs", () => {
   it("returns defaults for empty argv", () => {
     const opts = parseArgs([]);
-    expect(opts.root).toBe("src");
+    expect(opts.roots).toEqual(["src"]);
     expect(opts.mode).toBe("both");
     expect(opts.minCount).toBe(2);
     expect(opts.format).toBe("text");
     expect(opts.outputFile).toBeNull();
     expect(opts.failOnDuplicates).toBe(false);
-    expect(opts.tsconfig).toBeNull();
+    expect(opts.tsconfigs).toEqual([]);
+    expect(opts.workspaces).toBe(false);
     expect(opts.exclude).toEqual([]);
+    expect(opts.include).toEqual([]);
     expect(opts.includeEnums).toBe(true);
+    expect(opts.includeClasses).toBe(true);
     expect(opts.skipReExports).toBe(true);
+    expect(opts.shapeStrategy).toBe("ast");
+    expect(opts.similarity).toBe(0.8);
+    expect(opts.subsets).toBe(false);
+    expect(opts.valueSets).toBe(false);
+    expect(opts.semantic).toBe(false);
+    expect(opts.reportMerges).toBe(false);
+    expect(opts.barrelConflicts).toBe(false);
     expect(opts.help).toBe(false);
   });
 
@@ -48,28 +58,151 @@ describe("parseArgs", () => {
     expect(parseArgs(["--fail-on-duplicates"]).failOnDuplicates).toBe(true);
   });
 
+  it("parses --include-js flag", () => {
+    expect(parseArgs([]).includeJs).toBe(false);
+    expect(parseArgs(["--include-js"]).includeJs).toBe(true);
+  });
+
   it("parses --no-enums flag", () => {
     expect(parseArgs(["--no-enums"]).includeEnums).toBe(false);
   });
 
+  it("parses --no-classes flag", () => {
+    expect(parseArgs(["--no-classes"]).includeClasses).toBe(false);
+  });
+
+  it("parses --no-locals flag", () => {
+    expect(parseArgs(["--no-locals"]).includeLocals).toBe(false);
+  });
+
+  it("parses --qualified-names flag", () => {
+    expect(parseArgs(["--qualified-names"]).qualifiedNames).toBe(true);
+  });
+
+  it("parses --normalize-names and repeatable --name-rules", () => {
+    expect(parseArgs([]).nameRules).toEqual([]);
+    expect(parseArgs(["--normalize-names"]).nameRules).toEqual(["default"]);
+    expect(
+      parseArgs(["--name-rules", "case,words", "--name-rules", "suffix:Dto"])
+        .nameRules,
+    ).toEqual(["case", "words", "suffix:Dto"]);
+  });
+
+  it("throws on unknown name rules", () => {
+    expect(() => parseArgs(["--name-rules", "snake"])).toThrow(
+      /Invalid name rule: snake/,
+    );
+  });
+
+  it("parses --list-name-rules flag", () => {
+    expect(parseArgs(["--list-name-rules"]).listNameRules).toBe(true);
+  });
+
+  it("parses --public-only flag", () => {
+    expect(parseArgs(["--public-only"]).publicOnly).toBe(true);
+  });
+
+  it("parses repeatable --entry values", () => {
+    expect(
+      parseArgs([
+        "--entry",
+        "src/index.ts,src/cli.ts",
+        "--entry",
+        "src/extra.ts",
+      ]).entries,
+    ).toEqual(["src/index.ts", "src/cli.ts", "src/extra.ts"]);
+  });
+
   it("parses --include-reexports flag", () => {
     expect(parseArgs(["--include-reexports"]).skipReExports).toBe(false);
   });
 
+  it("parses --subsets flag", () => {
+    expect(parseArgs(["--subsets"]).subsets).toBe(true);
+  });
+
+  it("parses --value-sets flag", () => {
+    expect(parseArgs(["--value-sets"]).valueSets).toBe(true);
+  });
+
+  it("parses --report-merges flag", () => {
+    expect(parseArgs(["--report-merges"]).reportMerges).toBe(true);
+  });
+
+  it("parses --barrel-conflicts flag", () => {
+    expect(parseArgs(["--barrel-conflicts"]).barrelConflicts).toBe(true);
+  });
+
+  it("parses --semantic together with --tsconfig", () => {
+    expect(
+      parseArgs(["--semantic", "--tsconfig", "tsconfig.json"]).semantic,
+    ).toBe(true);
+  });
+
+  it("throws when --semantic is used without --tsconfig", () => {
+    expect(() => parseArgs(["--semantic"])).toThrow(/requires --tsconfig/);
+  });
+
+  it("scans workspaces from the working directory by default", () => {
+    const opts = parseArgs(["--workspaces"]);
+    expect(opts.workspaces).toBe(true);
+    expect(opts.roots).toEqual(["."]);
+    expect(parseArgs(["--workspaces", "--root", "repo"]).roots).toEqual([
+      "repo",
+    ]);
+  });
+
+  it("throws when --workspaces is used with --tsconfig", () => {
+    expect(() =>
+      parseArgs(["--workspaces", "--tsconfig", "tsconfig.json"]),
+    ).toThrow(/--workspaces can't be combined with --tsconfig/);
+  });
+
+  it("throws when --workspaces is given several roots", () => {
+    expect(() =>
+      parseArgs(["--workspaces", "--root", "a", "--root", "b"]),
+    ).toThrow(
+      /--workspaces takes a single --root/,
+    );
+  });
+
   // ── String flags (--flag value) ──────────────────────────────────────
 
   it("parses --root with space separator", () => {
-    expect(parseArgs(["--root", "lib"]).root).toBe("lib");
+    expect(parseArgs(["--root", "lib"]).roots).toEqual(["lib"]);
   });
 
   it("parses --root with = separator", () => {
-    expect(parseArgs(["--root=lib"]).root).toBe("lib");
+    expect(parseArgs(["--root=lib"]).roots).toEqual(["lib"]);
   });
 
   it("parses --tsconfig", () => {
-    expect(parseArgs(["--tsconfig", "tsconfig.app.json"]).tsconfig).toBe(
-      "tsconfig.app.json",
-    );
+    const opts = parseArgs(["--tsconfig", "tsconfig.app.json"]);
+    expect(opts.tsconfigs).toEqual(["tsconfig.app.json"]);
+    expect(opts.roots).toEqual([]);
+  });
+
+  it("accumulates several --root and --tsconfig values", () => {
+    const opts = parseArgs([
+      "--root",
+      "apps/web/src",
+      "--tsconfig",
+      "legacy/tsconfig.json",
+      "--root=tools",
+    ]);
+    expect(opts.roots).toEqual(["apps/web/src", "tools"]);
+    expect(opts.tsconfigs).toEqual(["legacy/tsconfig.json"]);
+  });
+
+  it("keeps commas in --root and --tsconfig paths", () => {
+    const opts = parseArgs([
+      "--root",
+      "src/a,b",
+      "--tsconfig",
+      "configs/x,y/tsconfig.json",
+    ]);
+    expect(opts.roots).toEqual(["src/a,b"]);
+    expect(opts.tsconfigs).toEqual(["configs/x,y/tsconfig.json"]);
   });
 
   it("parses --output", () => {
@@ -96,12 +229,39 @@ describe("parseArgs", () => {
     expect(parseArgs(["--mode", "both"]).mode).toBe("both");
   });
 
+  it("parses --mode similar", () => {
+    expect(parseArgs(["--mode", "similar"]).mode).toBe("similar");
+  });
+
   it("throws on invalid --mode value", () => {
     expect(() => parseArgs(["--mode", "invalid"])).toThrow(
       /Invalid value for --mode/,
     );
   });
 
+  it("parses --shape-strategy legacy", () => {
+    expect(parseArgs(["--shape-strategy", "legacy"]).shapeStrategy).toBe(
+      "legacy",
+    );
+  });
+
+  it("throws on invalid --shape-strategy value", () => {
+    expect(() => parseArgs(["--shape-strategy=fuzzy"])).toThrow(
+      /Invalid value for --shape-strategy/,
+    );
+  });
+
+  it("parses --sort impact", () => {
+    expect(parseArgs([]).sort).toBe("size");
+    expect(parseArgs(["--sort", "impact"]).sort).toBe("impact");
+  });
+
+  it("throws on invalid --sort value", () => {
+    expect(() => parseArgs(["--sort=alpha"])).toThrow(
+      /Invalid value for --sort/,
+    );
+  });
+
   it("parses --format json", () => {
     expect(parseArgs(["--format", "json"]).format).toBe("json");
   });
@@ -130,6 +290,16 @@ describe("parseArgs", () => {
     expect(() => parseArgs(["--min", "abc"])).toThrow(/integer >= 2/);
   });
 
+  it("parses --similarity", () => {
+    expect(parseArgs(["--similarity", "0.75"]).similarity).toBe(0.75);
+  });
+
+  it("throws on --similarity outside (0, 1]", () => {
+    expect(() => parseArgs(["--similarity", "0"])).toThrow(/\(0, 1\]/);
+    expect(() => parseArgs(["--similarity", "1.5"])).toThrow(/\(0, 1\]/);
+    expect(() => parseArgs(["--similarity", "abc"])).toThrow(/\(0, 1\]/);
+  });
+
   // ── Repeatable / special flags ───────────────────────────────────────
 
   it("parses --exclude with comma-separated values", () => {
@@ -147,6 +317,17 @@ describe("parseArgs", () => {
     expect(opts.exclude).toEqual(["generated", "vendor"]);
   });
 
+  it("accumulates --include globs", () => {
+    const opts = parseArgs([
+      "--include",
+      "src/**/*.ts,lib/*.ts",
+      "--include=types/**",
+      "--include-js",
+    ]);
+    expect(opts.include).toEqual(["src/**/*.ts", "lib/*.ts", "types/**"]);
+    expect(opts.includeJs).toBe(true);
+  });
+
   // ── Combined flags ───────────────────────────────────────────────────
 
   it("parses multiple flags together", () => {
@@ -164,7 +345,7 @@ describe("parseArgs", () => {
       "test,spec",
     ]);
 
-    expect(opts.root).toBe("lib");
+    expect(opts.roots).toEqual(["lib"]);
     expect(opts.mode).toBe("name");
     expect(opts.format).toBe("json");
     expect(opts.minCount).toBe(3);
@@ -0,0 +1,177 @@
+import { spawnSync } from "node:child_process";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+const REPO_ROOT = fileURLToPath(new URL("../..", import.meta.url));
+const CLI = path.join(REPO_ROOT, "src", "cli.ts");
+const TSX = path.join(REPO_ROOT, "node_modules", ".bin", "tsx");
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+let projectDir = "";
+
+async function writeFiles(files: Record<string, string>): Promise<void> {
+  for (const [file, text] of Object.entries(files)) {
+    const fullPath = path.join(projectDir, file);
+    await fs.mkdir(path.dirname(fullPath), { recursive: true });
+    await fs.writeFile(fullPath, text);
+  }
+}
+
+/** Run the CLI in the fixture project. */
+function runCli(args: string[]) {
+  return spawnSync(TSX, [CLI, ...args], {
+    cwd: projectDir,
+    encoding: "utf8",
+    timeout: 60_000,
+  });
+}
+
+function exitStatus(args: string[]): number | null {
+  return runCli(args).status;
+}
+
+beforeAll(async () => {
+  projectDir = await fs.mkdtemp(path.join(os.tmpdir(), "typehunt-cli-"));
+});
+
+afterAll(async () => {
+  await fs.rm(projectDir, { recursive: true, force: true });
+});
+
+// ---------------------------------------------------------------------------
+// --fail-on-duplicates
+// ---------------------------------------------------------------------------
+
+describe("--fail-on-duplicates", () => {
+  beforeAll(async () => {
+    await writeFiles({
+      "src/status.ts": 'export enum Status { Active = "active", Off = "off" }',
+      "src/state.ts": 'export type State = "active" | "off";',
+    });
+  });
+
+  it("keeps value-set groups out of the name mode exit status", () => {
+    expect(exitStatus(["--mode", "name", "--fail-on-duplicates"])).toBe(0);
+  });
+
+  it("counts value-set groups with --value-sets", () => {
+    expect(
+      exitStatus(["--mode", "name", "--value-sets", "--fail-on-duplicates"]),
+    ).toBe(1);
+  });
+});
+
+describe("--fail-on-duplicates with barrels", () => {
+  beforeAll(async () => {
+    await writeFiles({
+      "lib/index.ts": 'export * from "./orders";\nexport * from "./users";',
+      "lib/orders.ts": "export interface Ref { orderId: string }",
+      "lib/users.ts": "export interface Ref { userId: string }",
+    });
+  });
+
+  it("keeps barrel conflicts out of the exit status", () => {
+    expect(
+      exitStatus(["--root", "lib", "--mode", "shape", "--fail-on-duplicates"]),
+    ).toBe(0);
+  });
+
+  it("counts barrel conflicts with --barrel-conflicts", () => {
+    expect(
+      exitStatus([
+        "--root",
+        "lib",
+        "--mode",
+        "shape",
+        "--barrel-conflicts",
+        "--fail-on-duplicates",
+      ]),
+    ).toBe(1);
+  });
+});
+
+describe("as const objects", () => {
+  beforeAll(async () => {
+    await writeFiles({
+      "consts/status.ts": [
+        'export const Status = { Active: "active" } as const;',
+        'export type State = "active";',
+      ].join("\n"),
+    });
+  });
+
+  it("leaves them out of the declaration count", () => {
+    const { stdout } = runCli(["--root", "consts", "--value-sets", "--json"]);
+    expect(JSON.parse(stdout).declarationsScanned).toBe(1);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// --subsets
+// ---------------------------------------------------------------------------
+
+describe("--subsets", () => {
+  beforeAll(async () => {
+    await writeFiles({
+      "models/user.ts": [
+        "export interface User { id: string; name: string; email: string }",
+        'export type PickUser = Pick<User, "id" | "name">;',
+        "export interface UserSummary { id: string; email: string }",
+      ].join("\n"),
+    });
+  });
+
+  it("leaves utility types derived from the superset out", () => {
+    const { stdout } = runCli(["--root", "models", "--subsets", "--json"]);
+    const relations = JSON.parse(stdout).subsetRelations as Array<{
+      subset: { name: string };
+      superset: { name: string };
+    }>;
+    expect(
+      relations.map((r) => `${r.subset.name} ⊂ ${r.superset.name}`),
+    ).toEqual(["UserSummary ⊂ User"]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Public API entry points
+// ---------------------------------------------------------------------------
+
+describe("malformed package.json", () => {
+  beforeAll(async () => {
+    await writeFiles({
+      "broken/package.json": '{ "types": "dist/index.d.ts", }',
+      "broken/src/index.ts": "export interface User { id: string }",
+      "broken/src/user.ts": "interface User { id: string }",
+    });
+  });
+
+  it("warns and treats every declaration as public", () => {
+    const { status, stdout, stderr } = runCli([
+      "--root",
+      "broken/src",
+      "--json",
+    ]);
+    expect(status).toBe(0);
+    expect(stderr).toMatch(/Cannot parse .*package\.json; treating every/);
+    expect(JSON.parse(stdout).duplicateNameGroups[0]?.visibility).toBe(
+      "public",
+    );
+  });
+
+  it("fails under --public-only", () => {
+    const { status, stderr } = runCli([
+      "--root",
+      "broken/src",
+      "--public-only",
+    ]);
+    expect(status).toBe(1);
+    expect(stderr).toMatch(/Cannot parse .*package\.json/);
+  });
+});
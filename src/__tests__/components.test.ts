@@ -0,0 +1,123 @@
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+
+import { collectDeclarations } from "../analyzer.js";
+import { extractComponentScript, isComponentFile } from "../components.js";
+import { mergeDeclarations } from "../merging.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function declarationsIn(file: string, text: string) {
+  return collectDeclarations(file, extractComponentScript(file, text), {
+    includeEnums: true,
+    includeClasses: true,
+  }).map((r) => `${r.name}:${r.line}`);
+}
+
+// ---------------------------------------------------------------------------
+// extractComponentScript
+// ---------------------------------------------------------------------------
+
+describe("extractComponentScript", () => {
+  it("keeps TypeScript script blocks at their original positions", () => {
+    const vue = [
+      "<template>",
+      "  <p>{{ label }}</p>",
+      "</template>",
+      '<script lang="ts">',
+      "export interface ButtonProps { label: string }",
+      "</script>",
+      "<script setup lang='ts'>",
+      "interface Props { label: string }",
+      "</script>",
+      "<script>",
+      "export default {}",
+      "</script>",
+    ].join("\n");
+    const script = extractComponentScript("/test/Button.vue", vue);
+
+    expect(script.length).toBe(vue.length);
+    expect(script.split("\n")[4]).toBe(
+      "export interface ButtonProps { label: string }",
+    );
+    expect(script).not.toContain("template");
+    expect(script).not.toContain("export default");
+    expect(declarationsIn("/test/Button.vue", vue)).toEqual([
+      "ButtonProps:5",
+      "Props:8",
+    ]);
+  });
+
+  it("reads Svelte module and instance scripts", () => {
+    const svelte = `<script context="module" lang="ts">
+  export interface Props { title: string }
+</script>
+<script lang="typescript">
+  interface Model { id: string }
+</script>
+<h1>{title}</h1>`;
+
+    expect(declarationsIn("/test/Card.svelte", svelte)).toEqual([
+      "Props:2",
+      "Model:5",
+    ]);
+  });
+
+  it("reads Astro frontmatter and processed scripts", () => {
+    const astro = `---
+interface Props { title: string }
+---
+<h1>{Astro.props.title}</h1>
+<script>
+  interface Model { id: string }
+</script>
+<script is:inline>
+  interface Inline { id: string }
+</script>`;
+
+    expect(declarationsIn("/test/Page.astro", astro)).toEqual([
+      "Props:2",
+      "Model:6",
+    ]);
+  });
+});
+
+describe("component scripts", () => {
+  it("scopes declarations to their component, not the global scope", () => {
+    const files = {
+      "/test/Comp.vue": [
+        "<template><p /></template>",
+        '<script setup lang="ts">',
+        "interface Props { label: string }",
+        "</script>",
+      ].join("\n"),
+      "/test/C.astro": ["---", "interface Props { title: string }", "---"].join(
+        "\n",
+      ),
+    };
+    const records = Object.entries(files).flatMap(([file, text]) =>
+      collectDeclarations(file, extractComponentScript(file, text), {
+        includeEnums: true,
+        includeClasses: true,
+      }),
+    );
+    const { declarations, merges } = mergeDeclarations(records);
+
+    expect(records.map((r) => r.container.kind)).toEqual(["file", "file"]);
+    expect(merges).toEqual([]);
+    expect(
+      declarations.map((d) => `${d.name}:${path.basename(d.file)}`),
+    ).toEqual(["Props:Comp.vue", "Props:C.astro"]);
+  });
+});
+
+describe("isComponentFile", () => {
+  it("recognises Vue, Svelte and Astro files", () => {
+    expect(isComponentFile("src/Button.vue")).toBe(true);
+    expect(isComponentFile("src/Card.svelte")).toBe(true);
+    expect(isComponentFile("src/pages/index.astro")).toBe(true);
+    expect(isComponentFile("src/types.ts")).toBe(false);
+  });
+});
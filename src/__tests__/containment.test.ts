@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+
+import { collectDeclarations } from "../analyzer.js";
+import { findSubsetRelations } from "../containment.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function relationsFor(source: string) {
+  const records = collectDeclarations("/test/file.ts", source, {
+    includeEnums: true,
+    includeClasses: true,
+  });
+  return findSubsetRelations(records);
+}
+
+// ---------------------------------------------------------------------------
+// findSubsetRelations
+// ---------------------------------------------------------------------------
+
+describe("findSubsetRelations", () => {
+  it("finds a strict subset and suggests extends for interface supersets", () => {
+    const relations = relationsFor(`
+      interface UserSummary { id: string; name: string; }
+      interface User { id: string; name: string; email: string; }
+    `);
+
+    expect(relations.length).toBe(1);
+    expect(relations[0]?.subset.name).toBe("UserSummary");
+    expect(relations[0]?.superset.name).toBe("User");
+    expect(relations[0]?.sharedMembers).toEqual(["id", "name"]);
+    expect(relations[0]?.extraMembers).toEqual(["email"]);
+    expect(relations[0]?.suggestion?.kind).toBe("extends");
+    expect(relations[0]?.suggestion?.text).toContain(
+      "interface User extends UserSummary",
+    );
+  });
+
+  it("suggests Omit when fewer members are dropped than kept", () => {
+    const relations = relationsFor(`
+      type Small = { a: string; b: string; c: string; };
+      type Big = { a: string; b: string; c: string; d: number; };
+    `);
+    expect(relations[0]?.suggestion).toEqual({
+      kind: "omit",
+      text: 'type Small = Omit<Big, "d">',
+    });
+  });
+
+  it("suggests Pick when fewer members are kept than dropped", () => {
+    const relations = relationsFor(`
+      type Small = { a: string; b: string; };
+      type Big = { a: string; b: string; c: number; d: number; };
+    `);
+    expect(relations[0]?.suggestion).toEqual({
+      kind: "pick",
+      text: 'type Small = Pick<Big, "a" | "b">',
+    });
+  });
+
+  it("suggests implements for class supersets", () => {
+    const relations = relationsFor(`
+      type Small = { a: string; b: string; };
+      class Big { a: string = ""; b: string = ""; c: number = 0; }
+    `);
+    expect(relations[0]?.suggestion).toEqual({
+      kind: "implements",
+      text: "class Big implements Small { /* c */ }",
+    });
+  });
+
+  it("suggests no type alias for class subsets", () => {
+    const relations = relationsFor(`
+      class UserDto { id: string = ""; name: string = ""; }
+      type User = { id: string; name: string; extra: number; };
+    `);
+    expect(relations.map((r) => r.subset.name)).toEqual(["UserDto"]);
+    expect(relations[0]?.suggestion).toBeNull();
+  });
+
+  it("requires matching member types and modifiers", () => {
+    expect(
+      relationsFor(`
+        type Small = { a: string; b: number; };
+        type Big = { a: string; b: string; c: number; };
+      `),
+    ).toEqual([]);
+    expect(
+      relationsFor(`
+        type Small = { a: string; b?: string; };
+        type Big = { a: string; b: string; c: number; };
+      `),
+    ).toEqual([]);
+  });
+
+  it("ignores identical shapes", () => {
+    expect(
+      relationsFor(`
+        type A = { a: string; b: string; };
+        type B = { b: string; a: string; };
+      `),
+    ).toEqual([]);
+  });
+
+  it("only reports the closest superset in a chain", () => {
+    const relations = relationsFor(`
+      type A = { a: string; b: string; };
+      type B = { a: string; b: string; c: string; };
+      type C = { a: string; b: string; c: string; d: string; };
+    `);
+    expect(relations.map((r) => `${r.subset.name}<${r.superset.name}`)).toEqual(
+      ["A<B", "B<C"],
+    );
+  });
+
+  it("skips generics and declarations with too few members", () => {
+    expect(
+      relationsFor(`
+        type One = { a: string; };
+        type Box<T> = { a: string; b: T; };
+        type Big = { a: string; b: string; c: string; };
+      `),
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+
+import { collectDeclarations } from "../analyzer.js";
+import { findShapeDivergences } from "../divergence.js";
+import { groupShapesTransitively } from "../transitive.js";
+import { filterDuplicateGroups, groupBy } from "../utils.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function divergencesFor(files: Record<string, string>) {
+  const records = Object.entries(files).flatMap(([file, source]) =>
+    collectDeclarations(file, source, {
+      includeEnums: true,
+      includeClasses: true,
+    }),
+  );
+  return findShapeDivergences(
+    filterDuplicateGroups(
+      groupBy(records, (d) => d.name),
+      2,
+    ),
+    groupShapesTransitively(records).groups,
+  );
+}
+
+// ---------------------------------------------------------------------------
+// findShapeDivergences
+// ---------------------------------------------------------------------------
+
+describe("findShapeDivergences", () => {
+  it("diffs each variant against the most common one", () => {
+    const user =
+      "interface User { id: string; name: string; readonly email: string; age?: number; }";
+    const divergences = divergencesFor({
+      "/test/a.ts": user,
+      "/test/b.ts": user,
+      "/test/c.ts":
+        "interface User { id: number; name?: string; email: string; avatar: string; }",
+    });
+
+    expect(divergences.length).toBe(1);
+    const [baseline, drifted] = divergences[0]?.variants ?? [];
+    expect(baseline?.declarations.length).toBe(2);
+    expect(baseline?.changes).toEqual([]);
+    expect(drifted?.changes).toEqual([
+      { kind: "removed", member: "age", before: "number", after: null },
+      { kind: "added", member: "avatar", before: null, after: "string" },
+      {
+        kind: "readonly",
+        member: "email",
+        before: "readonly",
+        after: "mutable",
+      },
+      { kind: "type", member: "id", before: "string", after: "number" },
+      {
+        kind: "optional",
+        member: "name",
+        before: "required",
+        after: "optional",
+      },
+    ]);
+  });
+
+  it("lists extended types and leaves non-object shapes uncompared", () => {
+    const divergences = divergencesFor({
+      "/test/a.ts": "interface Props { id: string; }",
+      "/test/b.ts": "interface Props extends Base { id: string; }",
+      "/test/c.ts": "type Props = string;",
+    });
+
+    const [, extended, alias] = divergences[0]?.variants ?? [];
+    expect(extended?.changes).toEqual([
+      { kind: "added", member: "& Base", before: null, after: "Base" },
+    ]);
+    expect(alias?.changes).toBeNull();
+  });
+
+  it("skips true copies and enums", () => {
+    expect(
+      divergencesFor({
+        "/test/a.ts": "interface A { id: string; }",
+        "/test/b.ts": "type A = { id: string };",
+        "/test/c.ts": "enum E { X }",
+        "/test/d.ts": "enum E { Y }",
+      }),
+    ).toEqual([]);
+  });
+});
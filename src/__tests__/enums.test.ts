@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+
+import { collectDeclarations } from "../analyzer.js";
+import { findEnumConflicts } from "../enums.js";
+import { filterDuplicateGroups, groupBy } from "../utils.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function conflictsFor(files: Record<string, string>) {
+  const records = Object.entries(files).flatMap(([file, source]) =>
+    collectDeclarations(file, source, {
+      includeEnums: true,
+      includeClasses: true,
+    }),
+  );
+  return findEnumConflicts(
+    filterDuplicateGroups(
+      groupBy(records, (d) => d.name),
+      2,
+    ),
+  );
+}
+
+// ---------------------------------------------------------------------------
+// findEnumConflicts
+// ---------------------------------------------------------------------------
+
+describe("findEnumConflicts", () => {
+  it("reports missing, added and changed members", () => {
+    const conflicts = conflictsFor({
+      "/test/a.ts":
+        'enum Role { Admin = "admin", User = "user", Guest = "guest" }',
+      "/test/b.ts":
+        'enum Role { Admin = "ADMIN", User = "user", Owner = "owner" }',
+    });
+
+    expect(conflicts.length).toBe(1);
+    expect(conflicts[0]?.reference.file).toContain("a.ts");
+    expect(conflicts[0]?.entries[0]?.missingMembers).toEqual(["Guest"]);
+    expect(conflicts[0]?.entries[0]?.addedMembers).toEqual(["Owner"]);
+    expect(conflicts[0]?.entries[0]?.changedValues).toEqual([
+      { member: "Admin", value: '"ADMIN"', expected: '"admin"' },
+    ]);
+  });
+
+  it("catches implicit values shifted by an inserted member", () => {
+    const conflicts = conflictsFor({
+      "/test/a.ts": "enum Level { Low, Mid, High }",
+      "/test/b.ts": "enum Level { Low, Lowest, Mid, High }",
+    });
+
+    expect(conflicts[0]?.entries[0]?.addedMembers).toEqual(["Lowest"]);
+    expect(conflicts[0]?.entries[0]?.changedValues).toEqual([
+      { member: "High", value: "3", expected: "2" },
+      { member: "Mid", value: "2", expected: "1" },
+    ]);
+  });
+
+  it("treats explicit and implicit values alike", () => {
+    const conflicts = conflictsFor({
+      "/test/a.ts": "enum Level { Low, Mid, High }",
+      "/test/b.ts": "enum Level { Low = 0, Mid = 1, High = 1 + 1 }",
+      "/test/c.ts": "interface Level { value: number; }",
+    });
+    expect(conflicts).toEqual([]);
+  });
+
+  it("lists only the enums that differ from the reference", () => {
+    const conflicts = conflictsFor({
+      "/test/a.ts": 'enum S { A = "a" }',
+      "/test/b.ts": 'enum S { A = "a" }',
+      "/test/c.ts": 'enum S { A = "b" }',
+    });
+
+    expect(conflicts[0]?.entries.map((e) => e.declaration.file)).toEqual([
+      expect.stringContaining("c.ts"),
+    ]);
+  });
+});
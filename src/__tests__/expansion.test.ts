@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+
+import { collectDeclarations } from "../analyzer.js";
+import { expandUtilityTypes } from "../expansion.js";
+import { filterDuplicateGroups, groupBy } from "../utils.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function expandedFor(source: string) {
+  return expandUtilityTypes(
+    collectDeclarations("/test/file.ts", source, {
+      includeEnums: true,
+      includeClasses: true,
+    }),
+  );
+}
+
+function groupNames(source: string): string[][] {
+  const groups = filterDuplicateGroups(
+    groupBy(expandedFor(source), (d) => d.normalizedShape),
+    2,
+  );
+  return groups.map(([, items]) => items.map((d) => d.name).sort());
+}
+
+// ---------------------------------------------------------------------------
+// expandUtilityTypes
+// ---------------------------------------------------------------------------
+
+describe("expandUtilityTypes", () => {
+  it("matches utility types with their hand-written expansions", () => {
+    const source = `
+      interface User { id: string; name: string; email?: string; }
+      type UserRef = Pick<User, "id" | "name">;
+      interface UserSummary { name: string; id: string; }
+      type Patch = Partial<Omit<User, "email">>;
+      type ManualPatch = { id?: string; name?: string };
+      type Frozen = Readonly<Required<Pick<User, "email">>>;
+      type FrozenEmail = { readonly email: string };
+      type Flags = Record<"a" | "b", boolean>;
+      type FlagSet = { a: boolean; b: boolean };
+      type Lookup = Record<string, User>;
+      type UserMap = { [key: string]: User };
+    `;
+
+    expect(groupNames(source)).toEqual([
+      ["Lookup", "UserMap"],
+      ["FlagSet", "Flags"],
+      ["UserRef", "UserSummary"],
+      ["ManualPatch", "Patch"],
+      ["Frozen", "FrozenEmail"],
+    ]);
+  });
+
+  it("records the expansions and the resulting members", () => {
+    const [, ref, nested] = expandedFor(`
+      interface User { id: string; name: string; }
+      type UserRef = Pick<User, "id">;
+      type Wrapper = { user: Partial<User>; tags: string[] };
+    `);
+
+    expect(ref?.expansions).toEqual(['Pick<User,"id">']);
+    expect(ref?.propertyNames).toEqual(["id"]);
+    expect(nested?.expansions).toEqual(["Partial<User>"]);
+    expect(nested?.normalizedShape).toBe(
+      "{tags:string[];user:{id?:string;name?:string}}",
+    );
+  });
+
+  it("leaves utility types it can't resolve as they are", () => {
+    const records = expandedFor(`
+      interface User { id: string; }
+      interface User { id: number; }
+      type Ambiguous = Partial<User>;
+      type External = Pick<Account, "id">;
+      type Missing = Pick<{ id: string }, "name">;
+      interface Api { fetch(): void; }
+      type Methods = Partial<Api>;
+      type Generic<T> = Partial<T>;
+    `);
+
+    expect(records.filter((d) => d.expansions).map((d) => d.name)).toEqual([]);
+  });
+
+  it("does not expand utility names the scanned code declares", () => {
+    const [, , patch] = expandedFor(`
+      type Partial<T> = { value: T };
+      interface User { id: string; }
+      type Patch = Partial<User>;
+    `);
+
+    expect(patch?.expansions).toBeUndefined();
+    expect(patch?.normalizedShape).toBe("Partial<User>");
+  });
+});
@@ -5,7 +5,19 @@ import {
   renderMarkdown,
   renderTextReport,
 } from "../formatter.js";
-import type { DeclarationRecord, Mode, ReportMeta } from "../types.js";
+import type {
+  BarrelConflict,
+  DeclarationMerge,
+  DeclarationRecord,
+  EnumConflict,
+  Mode,
+  ReportMeta,
+  SchemaFinding,
+  ShapeDivergence,
+  SimilarGroup,
+  SubsetRelation,
+  ValueSetGroup,
+} from "../types.js";
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -16,12 +28,20 @@ function makeDeclaration(
 ): DeclarationRecord {
   return {
     name: "Foo",
+    qualifiedName: overrides.name ?? "Foo",
+    scope: "module",
+    exported: true,
     kind: "interface",
     file: "src/types.ts",
     line: 1,
+    container: { kind: "file", module: null, namespaces: [] },
     snippet: "interface Foo { bar: string; }",
     normalizedShape: "type __NAME__ = { bar: string; }",
+    shape: null,
     isReExport: false,
+    members: [
+      { kind: "property", name: "bar", optional: false, readonly: false },
+    ],
     propertyCount: 1,
     propertyNames: ["bar"],
     ...overrides,
@@ -33,12 +53,151 @@ function makeMeta(overrides: Partial<ReportMeta> = {}): ReportMeta {
     filesScanned: 10,
     declarationsScanned: 25,
     mode: "both" as Mode,
-    fileSource: "directory walk (src)",
+    fileSources: [{ label: "directory walk (src)", files: 10 }],
     duplicateCount: 1,
     ...overrides,
   };
 }
 
+function makeSimilarGroup(): SimilarGroup {
+  return {
+    score: 0.75,
+    sharedMembers: ["email", "id", "name"],
+    entries: [
+      {
+        declaration: makeDeclaration({ name: "User", file: "a.ts" }),
+        extraMembers: ["avatar"],
+        missingMembers: [],
+      },
+      {
+        declaration: makeDeclaration({ name: "Profile", file: "b.ts" }),
+        extraMembers: [],
+        missingMembers: ["avatar"],
+      },
+    ],
+  };
+}
+
+function makeSubsetRelation(): SubsetRelation {
+  return {
+    subset: makeDeclaration({ name: "UserSummary", file: "a.ts", line: 3 }),
+    superset: makeDeclaration({ name: "User", file: "b.ts", line: 7 }),
+    sharedMembers: ["id", "name"],
+    extraMembers: ["email"],
+    suggestion: {
+      kind: "extends",
+      text: "interface User extends UserSummary { /* email */ }",
+    },
+  };
+}
+
+function makeSchemaFinding(): SchemaFinding {
+  return {
+    kind: "drift",
+    schema: makeDeclaration({
+      name: "UserSchema",
+      kind: "zod",
+      file: "a.ts",
+      line: 4,
+    }),
+    declaration: makeDeclaration({ name: "User", file: "b.ts", line: 2 }),
+    onlyInSchema: ["avatar"],
+    onlyInType: ["email"],
+    changedMembers: ["age"],
+  };
+}
+
+function makeMerge(): DeclarationMerge {
+  const container = {
+    kind: "module" as const,
+    module: "express",
+    namespaces: [],
+  };
+  return {
+    name: "Request",
+    container,
+    declarations: [
+      makeDeclaration({ name: "Request", file: "a.ts", line: 2, container }),
+      makeDeclaration({ name: "Request", file: "b.ts", line: 5, container }),
+    ],
+  };
+}
+
+function makeBarrelConflict(): BarrelConflict {
+  return {
+    file: "src/index.ts",
+    name: "Status",
+    sources: [
+      { specifier: "./orders", file: "src/orders.ts", name: "Status" },
+      { specifier: "./users", file: "src/users.ts", name: "UserStatus" },
+    ],
+  };
+}
+
+function makeValueSetGroup(): ValueSetGroup {
+  return {
+    values: ['"active"', '"inactive"'],
+    forms: ["enum", "const"],
+    declarations: [
+      makeDeclaration({ name: "Status", kind: "enum", file: "a.ts", line: 1 }),
+      makeDeclaration({ name: "STATUS", kind: "const", file: "b.ts", line: 3 }),
+    ],
+  };
+}
+
+function makeEnumConflict(): EnumConflict {
+  return {
+    name: "Role",
+    reference: makeDeclaration({ name: "Role", kind: "enum", file: "a.ts" }),
+    entries: [
+      {
+        declaration: makeDeclaration({
+          name: "Role",
+          kind: "enum",
+          file: "b.ts",
+          line: 4,
+        }),
+        missingMembers: ["Guest"],
+        addedMembers: ["Owner"],
+        changedValues: [
+          { member: "Admin", value: '"ADMIN"', expected: '"admin"' },
+        ],
+      },
+    ],
+  };
+}
+
+function makeDivergence(): ShapeDivergence {
+  return {
+    name: "User",
+    variants: [
+      {
+        shape: "{id:string}",
+        declarations: [
+          makeDeclaration({ name: "User", file: "a.ts" }),
+          makeDeclaration({ name: "User", file: "b.ts" }),
+        ],
+        changes: [],
+      },
+      {
+        shape: "{avatar:string;id:number}",
+        declarations: [makeDeclaration({ name: "User", file: "c.ts" })],
+        changes: [
+          { kind: "added", member: "avatar", before: null, after: "string" },
+          { kind: "type", member: "id", before: "string", after: "number" },
+        ],
+      },
+      {
+        shape: "string",
+        declarations: [
+          makeDeclaration({ name: "User", kind: "type", file: "d.ts" }),
+        ],
+        changes: null,
+      },
+    ],
+  };
+}
+
 // ---------------------------------------------------------------------------
 // buildJsonPayload
 // ---------------------------------------------------------------------------
@@ -65,6 +224,60 @@ describe("buildJsonPayload", () => {
     expect(payload.duplicateShapeGroups).toEqual([]);
   });
 
+  it("lists the members of each declaration", () => {
+    const d = makeDeclaration({
+      members: [
+        { kind: "method", name: "save", optional: true, readonly: false },
+        { kind: "index", name: "[string]", optional: false, readonly: true },
+      ],
+    });
+
+    const payload = buildJsonPayload(
+      [["Foo", [d, d]]],
+      [],
+      { ...makeMeta({ mode: "name" }), root: "src", errors: [] },
+      "name",
+    );
+
+    expect(payload.duplicateNameGroups[0]?.declarations[0]?.members).toEqual([
+      { kind: "method", name: "save", optional: true, readonly: false },
+      { kind: "index", name: "[string]", optional: false, readonly: true },
+    ]);
+  });
+
+  it("tags groups and declarations with their workspace packages", () => {
+    const d1 = makeDeclaration({ file: "a.ts", package: "web" });
+    const d2 = makeDeclaration({ file: "b.ts", package: "api" });
+
+    const payload = buildJsonPayload(
+      [["Foo", [d1, d2]]],
+      [],
+      { ...makeMeta({ mode: "name" }), root: ".", errors: [] },
+      "name",
+    );
+
+    const group = payload.duplicateNameGroups[0];
+    expect(group?.packageScope).toBe("cross-package");
+    expect(group?.packages).toEqual(["api", "web"]);
+    expect(group?.declarations[0]?.package).toBe("web");
+  });
+
+  it("lists the tsconfig project each declaration came from", () => {
+    const d1 = makeDeclaration({ file: "a/x.ts", project: "a/tsconfig.json" });
+    const d2 = makeDeclaration({ file: "b/x.ts", project: "b/tsconfig.json" });
+
+    const payload = buildJsonPayload(
+      [["Foo", [d1, d2]]],
+      [],
+      { ...makeMeta({ mode: "name" }), root: "tsconfig.json", errors: [] },
+      "name",
+    );
+
+    expect(
+      payload.duplicateNameGroups[0]?.declarations.map((d) => d.project),
+    ).toEqual(["a/tsconfig.json", "b/tsconfig.json"]);
+  });
+
   it("includes shape groups when mode is 'shape'", () => {
     const d1 = makeDeclaration({ name: "Foo", file: "a.ts" });
     const d2 = makeDeclaration({ name: "Bar", file: "b.ts" });
@@ -120,6 +333,9 @@ describe("buildJsonPayload", () => {
     expect(payload.filesScanned).toBe(42);
     expect(payload.declarationsScanned).toBe(100);
     expect(payload.root).toBe("lib");
+    expect(payload.fileSources).toEqual([
+      { label: "directory walk (src)", files: 10 },
+    ]);
     expect(payload.mode).toBe("both");
   });
 
@@ -146,6 +362,232 @@ describe("buildJsonPayload", () => {
     expect(payload.errors).toBeUndefined();
   });
 
+  it("includes similar groups only when mode is 'similar'", () => {
+    const sections = { similarGroups: [makeSimilarGroup()] };
+    const similar = buildJsonPayload(
+      [],
+      [],
+      { ...makeMeta({ mode: "similar" }), root: "src", errors: [] },
+      "similar",
+      sections,
+    );
+    const both = buildJsonPayload(
+      [],
+      [],
+      { ...makeMeta(), root: "src", errors: [] },
+      "both",
+      sections,
+    );
+
+    expect(similar.similarGroups.length).toBe(1);
+    expect(similar.similarGroups[0]?.score).toBe(0.75);
+    expect(similar.similarGroups[0]?.declarations[0]?.extraMembers).toEqual([
+      "avatar",
+    ]);
+    expect(both.similarGroups).toEqual([]);
+  });
+
+  it("includes subset relations only when computed", () => {
+    const meta = { ...makeMeta(), root: "src", errors: [] };
+    const withSubsets = buildJsonPayload([], [], meta, "both", {
+      subsetRelations: [makeSubsetRelation()],
+    });
+    const without = buildJsonPayload([], [], meta, "both");
+
+    expect(withSubsets.subsetRelations?.[0]?.subset.name).toBe("UserSummary");
+    expect(withSubsets.subsetRelations?.[0]?.suggestion?.kind).toBe("extends");
+    expect(without.subsetRelations).toBeUndefined();
+  });
+
+  it("includes schema findings only when computed", () => {
+    const meta = { ...makeMeta(), root: "src", errors: [] };
+    const withFindings = buildJsonPayload([], [], meta, "both", {
+      schemaFindings: [makeSchemaFinding()],
+    });
+    const without = buildJsonPayload([], [], meta, "both");
+
+    expect(withFindings.schemaFindings?.[0]?.kind).toBe("drift");
+    expect(withFindings.schemaFindings?.[0]?.schema.kind).toBe("zod");
+    expect(withFindings.schemaFindings?.[0]?.changedMembers).toEqual(["age"]);
+    expect(without.schemaFindings).toBeUndefined();
+  });
+
+  it("includes declaration merges only when requested", () => {
+    const meta = { ...makeMeta(), root: "src", errors: [] };
+    const withMerges = buildJsonPayload([], [], meta, "both", {
+      declarationMerges: [makeMerge()],
+    });
+    const without = buildJsonPayload([], [], meta, "both");
+
+    expect(withMerges.declarationMerges?.[0]?.name).toBe("Request");
+    expect(withMerges.declarationMerges?.[0]?.count).toBe(2);
+    expect(withMerges.declarationMerges?.[0]?.container.module).toBe("express");
+    expect(without.declarationMerges).toBeUndefined();
+  });
+
+  it("includes barrel conflicts and re-export sites", () => {
+    const meta = { ...makeMeta({ mode: "name" }), root: "src", errors: [] };
+    const d = makeDeclaration({
+      reExports: [{ file: "src/index.ts", line: 1, name: "Foo" }],
+    });
+    const payload = buildJsonPayload([["Foo", [d, d]]], [], meta, "name", {
+      barrelConflicts: [makeBarrelConflict()],
+    });
+
+    expect(payload.barrelConflicts?.[0]?.name).toBe("Status");
+    expect(payload.duplicateNameGroups[0]?.declarations[0]?.reExports).toEqual([
+      { file: "src/index.ts", line: 1, name: "Foo" },
+    ]);
+    expect(
+      buildJsonPayload([], [], meta, "name").barrelConflicts,
+    ).toBeUndefined();
+  });
+
+  it("labels value-set groups with the forms involved", () => {
+    const meta = { ...makeMeta({ mode: "name" }), root: "src", errors: [] };
+    const payload = buildJsonPayload([], [], meta, "name", {
+      valueSetGroups: [makeValueSetGroup()],
+    });
+
+    expect(payload.valueSetGroups?.[0]?.label).toBe("enum vs as const object");
+    expect(payload.valueSetGroups?.[0]?.count).toBe(2);
+    expect(payload.valueSetGroups?.[0]?.declarations[1]?.kind).toBe("const");
+    expect(
+      buildJsonPayload([], [], meta, "name").valueSetGroups,
+    ).toBeUndefined();
+  });
+
+  it("includes enum conflicts with their differences", () => {
+    const meta = { ...makeMeta({ mode: "name" }), root: "src", errors: [] };
+    const payload = buildJsonPayload([], [], meta, "name", {
+      enumConflicts: [makeEnumConflict()],
+    });
+
+    expect(payload.enumConflicts?.[0]?.reference.file).toBe("a.ts");
+    expect(payload.enumConflicts?.[0]?.entries[0]?.file).toBe("b.ts");
+    expect(payload.enumConflicts?.[0]?.entries[0]?.missingMembers).toEqual([
+      "Guest",
+    ]);
+    expect(payload.enumConflicts?.[0]?.entries[0]?.changedValues).toEqual([
+      { member: "Admin", value: '"ADMIN"', expected: '"admin"' },
+    ]);
+  });
+
+  it("includes shape variants of divergent names", () => {
+    const meta = { ...makeMeta({ mode: "name" }), root: "src", errors: [] };
+    const payload = buildJsonPayload([], [], meta, "name", {
+      divergences: [makeDivergence()],
+    });
+    const variants = payload.divergences?.[0]?.variants;
+
+    expect(variants?.map((v) => [v.baseline, v.count])).toEqual([
+      [true, 2],
+      [false, 1],
+      [false, 1],
+    ]);
+    expect(variants?.[1]?.changes?.[1]).toEqual({
+      kind: "type",
+      member: "id",
+      before: "string",
+      after: "number",
+    });
+    expect(variants?.[2]?.changes).toBeNull();
+  });
+
+  it("lists spellings only for groups that mix them", () => {
+    const meta = { ...makeMeta({ mode: "name" }), root: "src", errors: [] };
+    const payload = buildJsonPayload(
+      [
+        [
+          "user",
+          [
+            makeDeclaration({ name: "UserDto" }),
+            makeDeclaration({ name: "user_dto" }),
+          ],
+        ],
+        ["Foo", [makeDeclaration(), makeDeclaration()]],
+      ],
+      [],
+      meta,
+      "name",
+    );
+    expect(payload.duplicateNameGroups[0]?.spellings).toEqual([
+      "UserDto",
+      "user_dto",
+    ]);
+    expect(payload.duplicateNameGroups[1]?.spellings).toBeUndefined();
+  });
+
+  it("includes usage counts per declaration and per group", () => {
+    const meta = { ...makeMeta({ mode: "shape" }), root: "src", errors: [] };
+    const payload = buildJsonPayload(
+      [],
+      [
+        ["{a:string}", [makeDeclaration({ usageCount: 4 }), makeDeclaration()]],
+        ["{b:string}", [makeDeclaration(), makeDeclaration()]],
+      ],
+      meta,
+      "shape",
+    );
+
+    expect(payload.duplicateShapeGroups[0]?.usageCount).toBe(4);
+    expect(payload.duplicateShapeGroups[0]?.declarations[0]?.usageCount).toBe(
+      4,
+    );
+    expect(payload.duplicateShapeGroups[1]?.usageCount).toBeUndefined();
+  });
+
+  it("includes semantic groups separately from shape groups", () => {
+    const d1 = makeDeclaration({ name: "A", file: "a.ts" });
+    const d2 = makeDeclaration({ name: "B", file: "b.ts" });
+    const payload = buildJsonPayload(
+      [],
+      [],
+      { ...makeMeta(), root: "src", errors: [] },
+      "both",
+      { semanticGroups: [["{ user }", [d1, d2]]] },
+    );
+
+    expect(payload.duplicateShapeGroups).toEqual([]);
+    expect(payload.duplicateSemanticGroups?.[0]?.members).toBe("{ user }");
+    expect(payload.duplicateSemanticGroups?.[0]?.count).toBe(2);
+  });
+
+  it("tags groups with their visibility when entry points are known", () => {
+    const d1 = makeDeclaration({ visibility: "public" });
+    const d2 = makeDeclaration({ visibility: "internal" });
+    const payload = buildJsonPayload(
+      [
+        ["Foo", [d1, d2]],
+        ["Bar", [makeDeclaration(), makeDeclaration()]],
+      ],
+      [],
+      { ...makeMeta({ mode: "name" }), root: "src", errors: [] },
+      "name",
+    );
+
+    expect(payload.duplicateNameGroups[0]?.visibility).toBe("public");
+    expect(payload.duplicateNameGroups[0]?.declarations[1]?.visibility).toBe(
+      "internal",
+    );
+    expect(payload.duplicateNameGroups[1]?.visibility).toBeUndefined();
+  });
+
+  it("includes nested matches on transitively grouped shapes", () => {
+    const d1 = makeDeclaration({ name: "Person", file: "a.ts" });
+    const d2 = makeDeclaration({ name: "Customer", file: "b.ts" });
+    const nested = [{ shape: "{city:string}", names: ["Addr", "Address"] }];
+    const payload = buildJsonPayload(
+      [],
+      [["{home:#Addr}", [d1, d2]]],
+      { ...makeMeta(), root: "src", errors: [] },
+      "shape",
+      { nestedShapeMatches: new Map([["{home:#Addr}", nested]]) },
+    );
+
+    expect(payload.duplicateShapeGroups[0]?.nested).toEqual(nested);
+  });
+
   it("maps declarations with correct fields", () => {
     const d = makeDeclaration({
       name: "Test",
@@ -167,7 +609,14 @@ describe("buildJsonPayload", () => {
     expect(decl?.line).toBe(42);
     expect(decl?.kind).toBe("type");
     expect(decl?.name).toBe("Test");
+    expect(decl?.qualifiedName).toBe("Test");
+    expect(decl?.scope).toBe("module");
     expect(decl?.isReExport).toBe(false);
+    expect(decl?.container).toEqual({
+      kind: "file",
+      module: null,
+      namespaces: [],
+    });
   });
 });
 
@@ -220,6 +669,22 @@ describe("renderMarkdown", () => {
     expect(md).toContain("`b.ts`");
   });
 
+  it("shows qualified names in the name duplicate section", () => {
+    const d1 = makeDeclaration({
+      qualifiedName: "Api.Foo",
+      scope: "namespace",
+    });
+    const d2 = makeDeclaration({ file: "b.ts" });
+    const md = renderMarkdown(
+      [["Foo", [d1, d2]]],
+      [],
+      makeMeta({ mode: "name" }),
+    );
+
+    expect(md).toContain("| Kind | Qualified name | File | Line |");
+    expect(md).toContain("| `interface` | `Api.Foo` |");
+  });
+
   it("renders shape duplicate section with preview", () => {
     const d1 = makeDeclaration({ name: "Foo", file: "a.ts" });
     const d2 = makeDeclaration({ name: "Bar", file: "b.ts" });
@@ -262,6 +727,174 @@ describe("renderMarkdown", () => {
     expect(md).toContain("## Duplicate Type Shapes");
   });
 
+  it("renders similar section with member differences", () => {
+    const md = renderMarkdown([], [], makeMeta({ mode: "similar" }), {
+      similarGroups: [makeSimilarGroup()],
+    });
+    expect(md).toContain("## Similar Types");
+    expect(md).toContain("Similar #1");
+    expect(md).toContain("(score 0.75)");
+    expect(md).toContain("`+avatar`");
+    expect(md).toContain("`-avatar`");
+    expect(md).not.toContain("## Duplicate Type Names");
+  });
+
+  it("renders subset section with suggestions", () => {
+    const md = renderMarkdown([], [], makeMeta(), {
+      subsetRelations: [makeSubsetRelation()],
+    });
+    expect(md).toContain("| Subset relations | 1 |");
+    expect(md).toContain("## Subset Types");
+    expect(md).toContain("`UserSummary` (`a.ts:3`)");
+    expect(md).toContain("2 of 3");
+    expect(md).toContain("interface User extends UserSummary");
+  });
+
+  it("renders schema findings with drift details", () => {
+    const md = renderMarkdown([], [], makeMeta(), {
+      schemaFindings: [makeSchemaFinding()],
+    });
+    expect(md).toContain("| Schema findings | 1 |");
+    expect(md).toContain("## Schema Findings");
+    expect(md).toContain("| drift | `UserSchema` (zod, `a.ts:4`)");
+    expect(md).toContain("`+avatar (schema), -email (type), ~age`");
+  });
+
+  it("renders declaration merges with their container", () => {
+    const md = renderMarkdown([], [], makeMeta(), {
+      declarationMerges: [makeMerge()],
+    });
+    expect(md).toContain("| Declaration merges | 1 |");
+    expect(md).toContain("## Declaration Merges");
+    expect(md).toContain(
+      '| `Request` | declare module "express" | `a.ts:2`, `b.ts:5` |',
+    );
+  });
+
+  it("renders barrel conflicts with their sources", () => {
+    const md = renderMarkdown([], [], makeMeta(), {
+      barrelConflicts: [makeBarrelConflict()],
+    });
+    expect(md).toContain("| Barrel conflicts | 1 |");
+    expect(md).toContain("## Barrel Conflicts");
+    expect(md).toContain(
+      "| `src/index.ts` | `Status` | `./orders → src/orders.ts`, `./users → src/users.ts as UserStatus` |",
+    );
+  });
+
+  it("renders the package matrix and tags groups with their packages", () => {
+    const api = makeDeclaration({ file: "packages/api/a.ts", package: "api" });
+    const web = makeDeclaration({ file: "packages/web/a.ts", package: "web" });
+    const md = renderMarkdown([["Foo", [api, web]]], [], makeMeta(), {
+      packageMatrix: {
+        packages: [
+          { name: "api", dir: "packages/api", tsconfig: null },
+          { name: "web", dir: "packages/web", tsconfig: null },
+        ],
+        counts: [
+          [2, 1],
+          [1, 0],
+        ],
+      },
+    });
+    expect(md).toContain("| Workspace packages | 2 |");
+    expect(md).toContain("| Cross-package groups | 1 |");
+    expect(md).toContain("## Package Matrix");
+    expect(md).toContain("| Package | `api` | `web` |");
+    expect(md).toContain("| `api` (`packages/api`) | 2 | 1 |");
+    expect(md).toContain("| `web` (`packages/web`) | 1 | — |");
+    expect(md).toContain("· cross-package: `api`, `web`");
+  });
+
+  it("renders value-set groups with their label and values", () => {
+    const md = renderMarkdown([], [], makeMeta(), {
+      valueSetGroups: [makeValueSetGroup()],
+    });
+    expect(md).toContain("| Value-set groups | 1 |");
+    expect(md).toContain(
+      "### Values #1 — `Status`, `STATUS` (enum vs as const object)",
+    );
+    expect(md).toContain('Values: `"active"`, `"inactive"`');
+  });
+
+  it("renders enum conflicts as a table", () => {
+    const md = renderMarkdown([], [], makeMeta(), {
+      enumConflicts: [makeEnumConflict()],
+    });
+    expect(md).toContain("| Enum value conflicts | 1 |");
+    expect(md).toContain("## Enum Value Conflicts");
+    expect(md).toContain(
+      '| `Role` | `a.ts:1` | `b.ts:4` | `-Guest, +Owner, Admin = "ADMIN" (reference "admin")` |',
+    );
+  });
+
+  it("renders divergent names with a variant table", () => {
+    const md = renderMarkdown([], [], makeMeta(), {
+      divergences: [makeDivergence()],
+    });
+    expect(md).toContain("| Divergent names | 1 |");
+    expect(md).toContain("### `User` (3 shape variants)");
+    expect(md).toContain("| 1 (baseline) | `a.ts:1`, `b.ts:1` | — |");
+    expect(md).toContain(
+      "| 2 | `c.ts:1` | `+avatar: string`, `id: string → number` |",
+    );
+    expect(md).toContain(
+      "| 3 | `d.ts:1` | shape differs (no members to compare) |",
+    );
+  });
+
+  it("adds a usage column when usages were counted", () => {
+    const d1 = makeDeclaration({ file: "a.ts", line: 1, usageCount: 12 });
+    const d2 = makeDeclaration({ file: "b.ts", line: 2, usageCount: 0 });
+    const md = renderMarkdown(
+      [["Foo", [d1, d2]]],
+      [],
+      makeMeta({ mode: "name" }),
+    );
+
+    expect(md).toContain("### `Foo` (2 occurrences, 12 usages)");
+    expect(md).toContain("| Kind | Qualified name | File | Line | Usages |");
+    expect(md).toContain("| `interface` | `Foo` | `a.ts` | 1 | 12 |");
+  });
+
+  it("renders semantic section when groups are provided", () => {
+    const d1 = makeDeclaration({ name: "A", file: "a.ts" });
+    const d2 = makeDeclaration({ name: "B", file: "b.ts" });
+    const md = renderMarkdown([], [], makeMeta(), {
+      semanticGroups: [["{ user }", [d1, d2]]],
+    });
+    expect(md).toContain("| Semantic groups | 1 |");
+    expect(md).toContain("## Semantically Equivalent Types");
+    expect(md).toContain("### Semantic #1 — `A`, `B` (2 occurrences)");
+    expect(md).toContain("Members: `{ user }`");
+  });
+
+  it("renders nested matches under shape groups", () => {
+    const address = makeDeclaration({ name: "Address", file: "a.ts" });
+    const addr = makeDeclaration({ name: "Addr", file: "b.ts" });
+    const person = makeDeclaration({ name: "Person", file: "a.ts" });
+    const customer = makeDeclaration({ name: "Customer", file: "b.ts" });
+    const md = renderMarkdown(
+      [],
+      [
+        ["{city:string}", [address, addr]],
+        ["{home:#Addr}", [person, customer]],
+      ],
+      makeMeta({ mode: "shape" }),
+      {
+        nestedShapeMatches: new Map([
+          [
+            "{home:#Addr}",
+            [{ shape: "{city:string}", names: ["Addr", "Address"] }],
+          ],
+        ]),
+      },
+    );
+    expect(md).toContain(
+      "Matched via nested duplicates: Addr ≡ Address (Shape #1)",
+    );
+  });
+
   it("shows both sections when mode is 'both'", () => {
     const md = renderMarkdown([], [], makeMeta({ mode: "both" }));
     expect(md).toContain("## Duplicate Type Names");
@@ -291,8 +924,236 @@ describe("renderTextReport", () => {
     expect(text).toContain("── Duplicate type shapes");
   });
 
+  it("appends qualified names that differ from the group name", () => {
+    const d1 = makeDeclaration({
+      file: "a.ts",
+      line: 3,
+      qualifiedName: "<local in load>.Foo",
+      scope: "local",
+    });
+    const d2 = makeDeclaration({ file: "b.ts", line: 5 });
+    const text = renderTextReport(
+      [["Foo", [d1, d2]]],
+      [],
+      makeMeta({ mode: "name" }),
+    );
+
+    expect(text).toContain("a.ts:3  (<local in load>.Foo)");
+    expect(text).toMatch(/b\.ts:5$/m);
+  });
+
+  it("splits groups into public and internal", () => {
+    const d1 = makeDeclaration({ file: "a.ts", visibility: "public" });
+    const d2 = makeDeclaration({ file: "b.ts", visibility: "internal" });
+    const d3 = makeDeclaration({ name: "Bar", visibility: "internal" });
+    const text = renderTextReport(
+      [
+        ["Foo", [d1, d2]],
+        ["Bar", [d3, d3]],
+      ],
+      [],
+      makeMeta({ mode: "name" }),
+    );
+
+    expect(text).toContain("Public API groups:      1");
+    expect(text).toContain("Internal groups:        1");
+    expect(text).toContain("Foo (2 occurrences) [public]");
+    expect(text).toContain("Bar (2 occurrences) [internal]");
+  });
+
+  it("splits groups into cross-package and within-package", () => {
+    const d1 = makeDeclaration({ file: "a.ts", package: "api" });
+    const d2 = makeDeclaration({ file: "b.ts", package: "web" });
+    const d3 = makeDeclaration({ name: "Bar", package: "api" });
+    const text = renderTextReport(
+      [
+        ["Foo", [d1, d2]],
+        ["Bar", [d3, d3]],
+      ],
+      [],
+      makeMeta({ mode: "name" }),
+    );
+
+    expect(text).toContain("Cross-package groups:   1");
+    expect(text).toContain("Within-package groups:  1");
+    expect(text).toContain("Foo (2 occurrences) [cross-package: api, web]");
+    expect(text).toContain("Bar (2 occurrences) [within api]");
+  });
+
+  it("lists every input source with the files it added", () => {
+    const text = renderTextReport(
+      [],
+      [],
+      makeMeta({
+        fileSources: [
+          { label: "tsconfig (legacy/tsconfig.json)", files: 7 },
+          { label: "directory walk (apps/web/src)", files: 1 },
+        ],
+      }),
+    );
+
+    expect(text).toContain(
+      "Source:                 tsconfig (legacy/tsconfig.json) · 7 files",
+    );
+    expect(text).toContain(
+      "Source:                 directory walk (apps/web/src) · 1 file",
+    );
+  });
+
   it("renders no-duplicate lines for empty groups", () => {
     const text = renderTextReport([], [], makeMeta({ mode: "both" }));
     expect(text).toContain("✓ No duplicates found");
   });
+
+  it("renders similar section in similar mode", () => {
+    const text = renderTextReport([], [], makeMeta({ mode: "similar" }), {
+      similarGroups: [makeSimilarGroup()],
+    });
+    expect(text).toContain("Similar type groups:    1");
+    expect(text).toContain("── Similar types");
+    expect(text).toContain("score 0.75");
+    expect(text).toContain("+avatar");
+    expect(text).toContain("shared:  email, id, name");
+  });
+
+  it("renders schema section when findings are provided", () => {
+    const text = renderTextReport([], [], makeMeta(), {
+      schemaFindings: [makeSchemaFinding()],
+    });
+    expect(text).toContain("Schema findings:        1");
+    expect(text).toContain("UserSchema drifted from User");
+    expect(text).toContain("schema     zod        a.ts:4");
+    expect(text).toContain("differs:   +avatar (schema), -email (type), ~age");
+  });
+
+  it("renders merge section when merges are provided", () => {
+    const text = renderTextReport([], [], makeMeta(), {
+      declarationMerges: [makeMerge()],
+    });
+    expect(text).toContain("Declaration merges:     1");
+    expect(text).toContain(
+      'Request — declare module "express" (2 declarations)',
+    );
+  });
+
+  it("renders usage counts next to groups and declarations", () => {
+    const d1 = makeDeclaration({ file: "a.ts", line: 1, usageCount: 3 });
+    const d2 = makeDeclaration({ file: "b.ts", line: 2, usageCount: 1 });
+    const text = renderTextReport(
+      [["Foo", [d1, d2]]],
+      [],
+      makeMeta({ mode: "name" }),
+    );
+
+    expect(text).toContain("Foo (2 occurrences, 4 usages)");
+    expect(text).toContain("a.ts:1  · 3 usages");
+  });
+
+  it("shows the original spellings of normalised name groups", () => {
+    const text = renderTextReport(
+      [
+        [
+          "user",
+          [
+            makeDeclaration({ name: "UserDto", file: "a.ts" }),
+            makeDeclaration({ name: "IUser", file: "b.ts" }),
+          ],
+        ],
+      ],
+      [],
+      makeMeta({ mode: "name" }),
+    );
+    expect(text).toContain("user — UserDto, IUser (2 occurrences)");
+    expect(text).toContain("a.ts:1  (UserDto)");
+  });
+
+  it("renders barrel conflict section when conflicts are provided", () => {
+    const text = renderTextReport([], [], makeMeta(), {
+      barrelConflicts: [makeBarrelConflict()],
+    });
+    expect(text).toContain("Barrel conflicts:       1");
+    expect(text).toContain("Status — src/index.ts (2 export * sources)");
+    expect(text).toContain("export *   ./orders → src/orders.ts");
+  });
+
+  it("renders value-set section when groups are provided", () => {
+    const text = renderTextReport([], [], makeMeta(), {
+      valueSetGroups: [makeValueSetGroup()],
+    });
+    expect(text).toContain("Value-set groups:       1");
+    expect(text).toContain(
+      "values#1 — enum vs as const object: Status, STATUS (2 occurrences)",
+    );
+    expect(text).toContain('values:  "active", "inactive"');
+  });
+
+  it("renders enum conflicts after the name report", () => {
+    const text = renderTextReport([], [], makeMeta(), {
+      enumConflicts: [makeEnumConflict()],
+    });
+    expect(text).toContain("Enum value conflicts:   1");
+    expect(text).toContain("Role — reference a.ts:1");
+    expect(text).toContain('b.ts:4  -Guest, +Owner, Admin = "ADMIN"');
+    expect(text.indexOf("── Enum value conflicts")).toBeGreaterThan(
+      text.indexOf("── Duplicate type names"),
+    );
+  });
+
+  it("renders divergent declarations with their changes", () => {
+    const text = renderTextReport([], [], makeMeta(), {
+      divergences: [makeDivergence()],
+    });
+    expect(text).toContain("Divergent names:        1");
+    expect(text).toContain("User (3 shape variants)");
+    expect(text).toContain("variant 1 (baseline) — 2 declarations");
+    expect(text).toContain("changes:  +avatar: string, id: string → number");
+  });
+
+  it("renders subset section when relations are provided", () => {
+    const text = renderTextReport([], [], makeMeta(), {
+      subsetRelations: [makeSubsetRelation()],
+    });
+    expect(text).toContain("── Subset types");
+    expect(text).toContain("UserSummary ⊂ User (2 of 3 members)");
+    expect(text).toContain("suggest:   interface User extends UserSummary");
+  });
+
+  it("renders nested matches under shape groups", () => {
+    const address = makeDeclaration({ name: "Address", file: "a.ts" });
+    const addr = makeDeclaration({ name: "Addr", file: "b.ts" });
+    const person = makeDeclaration({ name: "Person", file: "a.ts" });
+    const customer = makeDeclaration({ name: "Customer", file: "b.ts" });
+    const text = renderTextReport(
+      [],
+      [
+        ["{city:string}", [address, addr]],
+        ["{home:#Addr}", [person, customer]],
+      ],
+      makeMeta({ mode: "shape" }),
+      {
+        nestedShapeMatches: new Map([
+          [
+            "{home:#Addr}",
+            [{ shape: "{city:string}", names: ["Addr", "Address"] }],
+          ],
+        ]),
+      },
+    );
+    expect(text).toContain("via:     Addr ≡ Address (shape#1)");
+  });
+
+  it("renders the utility types expanded for shape groups", () => {
+    const ref = makeDeclaration({
+      name: "UserRef",
+      qualifiedName: "UserRef",
+      expansions: ['Pick<User,"id"|"name">'],
+    });
+    const summary = makeDeclaration({ name: "UserSummary", file: "b.ts" });
+    const text = renderTextReport(
+      [],
+      [["{id:string;name:string}", [ref, summary]]],
+      makeMeta({ mode: "shape" }),
+    );
+    expect(text).toContain('expands: UserRef = Pick<User,"id"|"name">');
+  });
 });
@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+
+import { collectDeclarations } from "../analyzer.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function recordsFor(file: string, source: string) {
+  return collectDeclarations(file, source, {
+    includeEnums: true,
+    includeClasses: true,
+  });
+}
+
+function shapeOf(file: string, source: string, name: string) {
+  return recordsFor(file, source).find((r) => r.name === name)?.normalizedShape;
+}
+
+// ---------------------------------------------------------------------------
+// JSDoc typedefs & callbacks
+// ---------------------------------------------------------------------------
+
+describe("JSDoc declarations", () => {
+  it("collects @typedef blocks with the shape of the matching type", () => {
+    const js = `
+      /**
+       * A user.
+       * @typedef {Object} User
+       * @property {string} id - the id
+       * @property {number} [age]
+       * @property {string=} nickname
+       * @property {Object} owner
+       * @property {string} owner.name
+       */
+
+      /** @typedef {{ id: string, tags: Array.<string> }} Tagged */
+      /** @typedef {?string} MaybeName */
+      export function noop() {}
+    `;
+    const records = recordsFor("/test/user.js", js);
+
+    expect(records.map((r) => [r.name, r.kind, r.line])).toEqual([
+      ["User", "typedef", 4],
+      ["Tagged", "typedef", 12],
+      ["MaybeName", "typedef", 13],
+    ]);
+    expect(records[0]?.snippet).toBe(
+      "@typedef {Object} User @property {string} id - the id @property {number} [age] @property {string=} nickname @property {Object} owner @property {string} owner.name",
+    );
+    expect(records[0]?.exported).toBe(true);
+    expect(records[0]?.normalizedShape).toBe(
+      shapeOf(
+        "/test/user.ts",
+        "interface User { id: string; age?: number; nickname?: string; owner: { name: string } }",
+        "User",
+      ),
+    );
+    expect(records[1]?.normalizedShape).toBe("{id:string;tags:string[]}");
+    expect(records[2]?.normalizedShape).toBe("null|string");
+  });
+
+  it("collects @callback tags as function types", () => {
+    const js = `
+      /**
+       * @callback Handler
+       * @param {string} input
+       * @param {number} [count]
+       * @param {...*} rest
+       * @returns {Promise<void>}
+       */
+    `;
+
+    expect(shapeOf("/test/events.mjs", js, "Handler")).toBe(
+      shapeOf(
+        "/test/events.ts",
+        "type Handler = (input: string, count?: number, ...rest: any[]) => Promise<void>;",
+        "Handler",
+      ),
+    );
+    expect(recordsFor("/test/events.mjs", js)[0]?.kind).toBe("callback");
+  });
+
+  it("collects typedefs on nested statements and class members", () => {
+    const js = `
+      export function load() {
+        /** @typedef {{ id: string }} Row */
+        const rows = [];
+        return rows;
+      }
+      export class Store {
+        /** @typedef {{ key: string }} Entry */
+        get() {}
+      }
+    `;
+    const typedefs = recordsFor("/test/store.js", js).filter(
+      (r) => r.kind === "typedef",
+    );
+    expect(typedefs.map((r) => r.name)).toEqual(["Row", "Entry"]);
+  });
+
+  it("ignores JSDoc typedefs in TypeScript files", () => {
+    const source = `
+      /** @typedef {{ id: string }} User */
+      export const x = 1;
+    `;
+    expect(recordsFor("/test/user.ts", source)).toEqual([]);
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+
+import { collectDeclarations } from "../analyzer.js";
+import { mergeDeclarations, mergeScopeKey } from "../merging.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function collect(files: Record<string, string>) {
+  return Object.entries(files).flatMap(([file, source]) =>
+    collectDeclarations(file, source, {
+      includeEnums: true,
+      includeClasses: true,
+    }),
+  );
+}
+
+// ---------------------------------------------------------------------------
+// mergeDeclarations
+// ---------------------------------------------------------------------------
+
+describe("mergeDeclarations", () => {
+  it("merges global augmentations across files", () => {
+    const records = collect({
+      "/test/a.ts": `
+        export {};
+        declare global { interface Window { analytics: Analytics; } }
+      `,
+      "/test/b.ts": `
+        export {};
+        declare global { interface Window { dataLayer: unknown[]; } }
+      `,
+    });
+    const { declarations, merges } = mergeDeclarations(records);
+
+    expect(declarations.length).toBe(1);
+    expect(declarations[0]?.propertyNames).toEqual(["analytics", "dataLayer"]);
+    expect(declarations[0]?.normalizedShape).toBe(
+      "{analytics:Analytics;dataLayer:unknown[]}",
+    );
+    expect(merges.length).toBe(1);
+    expect(merges[0]?.name).toBe("Window");
+    expect(merges[0]?.container.kind).toBe("global");
+    expect(merges[0]?.declarations.length).toBe(2);
+  });
+
+  it("merges augmentations of the same module and namespace", () => {
+    const records = collect({
+      "/test/a.ts": `
+        import "express";
+        declare module "express" { interface Request { user?: User; } }
+      `,
+      "/test/b.ts": `
+        import "express";
+        declare module "express" { interface Request { session: Session; } }
+      `,
+      "/test/c.ts": `
+        export {};
+        declare global { namespace Express { interface Request { id: string; } } }
+      `,
+      "/test/d.ts": `
+        export {};
+        declare global { namespace Express { interface Request { ip: string; } } }
+      `,
+    });
+    const { declarations, merges } = mergeDeclarations(records);
+
+    expect(declarations.length).toBe(2);
+    expect(merges.map((m) => m.container)).toEqual(
+      expect.arrayContaining([
+        { kind: "module", module: "express", namespaces: [] },
+        { kind: "global", module: null, namespaces: ["Express"] },
+      ]),
+    );
+  });
+
+  it("merges a class with a same-named interface in one file", () => {
+    const records = collect({
+      "/test/a.ts": `
+        export interface Point { z: number; }
+        export class Point { x = 0; y = 0; }
+      `,
+    });
+    const { declarations } = mergeDeclarations(records);
+
+    expect(declarations.length).toBe(1);
+    expect(declarations[0]?.kind).toBe("class");
+    expect(declarations[0]?.propertyNames).toEqual(["x", "y", "z"]);
+  });
+
+  it("keeps same-named declarations in different modules apart", () => {
+    const records = collect({
+      "/test/a.ts": "export interface User { id: string; }",
+      "/test/b.ts": "export interface User { id: string; }",
+      "/test/c.ts": `
+        export type Id = string;
+        export function f() { interface Local { a: string; } }
+        export function g() { interface Local { a: string; } }
+      `,
+    });
+    const { declarations, merges } = mergeDeclarations(records);
+
+    expect(declarations.length).toBe(records.length);
+    expect(merges).toEqual([]);
+  });
+
+  it("never merges type aliases", () => {
+    const records = collect({
+      "/test/a.d.ts": "type Id = string;",
+      "/test/b.d.ts": "type Id = number;",
+    });
+    expect(records.every((r) => r.container.kind === "global")).toBe(true);
+    expect(mergeDeclarations(records).merges).toEqual([]);
+  });
+
+  it("resolves relative augmentations against the declaring file", () => {
+    const [a, b] = collect({
+      "/test/src/a.ts": `
+        export {};
+        declare module "./user" { interface User { a: string; } }
+      `,
+      "/test/src/nested/b.ts": `
+        export {};
+        declare module "../user" { interface User { b: string; } }
+      `,
+    });
+    expect(a && mergeScopeKey(a)).toBe(b && mergeScopeKey(b));
+  });
+});
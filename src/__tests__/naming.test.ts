@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+
+import { collectDeclarations } from "../analyzer.js";
+import { normalizeName, parseNameRules } from "../naming.js";
+
+// ---------------------------------------------------------------------------
+// normalizeName
+// ---------------------------------------------------------------------------
+
+describe("normalizeName", () => {
+  const defaults = parseNameRules(["default"]);
+
+  it("maps common naming conventions to one key", () => {
+    const names = ["UserDto", "UserDTO", "IUser", "user_dto", "TUser", "user"];
+    expect(new Set(names.map((n) => normalizeName(n, defaults)))).toEqual(
+      new Set(["user"]),
+    );
+  });
+
+  it("only strips affixes that are words of their own", () => {
+    expect(normalizeName("IDCard", defaults)).toBe("idcard");
+    expect(normalizeName("Item", defaults)).toBe("item");
+    expect(normalizeName("Prototype", defaults)).toBe("prototype");
+    expect(normalizeName("Props", defaults)).toBe("props");
+  });
+
+  it("normalises each segment of a qualified name", () => {
+    expect(normalizeName("Api.IUserDto", defaults)).toBe("api.user");
+    expect(normalizeName("<local in fooFn>.Props", defaults)).toBe(
+      "<local in fooFn>.props",
+    );
+  });
+
+  it("keeps method scopes and module names as one segment", () => {
+    const [record] = collectDeclarations(
+      "/test/store.ts",
+      "class Store { fetchUser() { interface IStateDto { id: string } } }",
+      { includeEnums: true, includeClasses: false },
+    );
+    expect(record?.qualifiedName).toBe("<local in Store.fetchUser>.IStateDto");
+    expect(normalizeName(record?.qualifiedName ?? "", defaults)).toBe(
+      "<local in Store.fetchUser>.state",
+    );
+    expect(normalizeName('"lodash.merge".IOptions', defaults)).toBe(
+      '"lodash.merge".options',
+    );
+  });
+
+  it("applies only the selected rules", () => {
+    const rules = parseNameRules(["words"]);
+    expect(normalizeName("user_name", rules)).toBe("UserName");
+    expect(normalizeName("userName", rules)).toBe("UserName");
+    expect(normalizeName("IUser", rules)).toBe("IUser");
+    expect(normalizeName("UserDto", [])).toBe("UserDto");
+  });
+
+  it("accepts custom prefixes and suffixes", () => {
+    const rules = parseNameRules([
+      "default",
+      "suffix:Schema",
+      "prefix:Abstract",
+    ]);
+    expect(normalizeName("UserSchema", rules)).toBe("user");
+    expect(normalizeName("AbstractUser", rules)).toBe("user");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// parseNameRules
+// ---------------------------------------------------------------------------
+
+describe("parseNameRules", () => {
+  it("expands default and drops repeated rules", () => {
+    const specs = parseNameRules(["case", "default", "prefix:I"]).map(
+      (r) => r.spec,
+    );
+    expect(specs.filter((s) => s === "case").length).toBe(1);
+    expect(specs.filter((s) => s === "prefix:I").length).toBe(1);
+    expect(specs.at(-1)).toBe("case");
+  });
+
+  it("rejects unknown rules", () => {
+    expect(() => parseNameRules(["camel"])).toThrow(/Invalid name rule: camel/);
+    expect(() => parseNameRules(["suffix:"])).toThrow(/Invalid name rule/);
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, expect, it } from "vitest";
+
+import { collectDeclarations } from "../analyzer.js";
+import {
+  collapseReExports,
+  findBarrelConflicts,
+  resolveExportOrigin,
+} from "../reexports.js";
+import { collectModuleExports, resolveModuleSpecifier } from "../surface.js";
+import type { ModuleExports, ModuleResolution } from "../types.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function modulesFor(files: Record<string, string>) {
+  const modules = new Map<string, ModuleExports>();
+  for (const [file, source] of Object.entries(files)) {
+    const exports = collectModuleExports(file, source);
+    modules.set(exports.file, exports);
+  }
+  return modules;
+}
+
+function declarationsFor(files: Record<string, string>) {
+  return Object.entries(files).flatMap(([file, source]) =>
+    collectDeclarations(file, source, {
+      includeEnums: true,
+      includeClasses: true,
+    }),
+  );
+}
+
+const aliases: ModuleResolution = {
+  baseUrl: "src",
+  pathsBase: "src",
+  paths: { "@models/*": ["models/*"], "@config": ["config/index.ts"] },
+};
+
+// ---------------------------------------------------------------------------
+// Module resolution
+// ---------------------------------------------------------------------------
+
+describe("resolveModuleSpecifier with tsconfig paths", () => {
+  const modules = modulesFor({
+    "src/models/user.ts": "",
+    "src/config/index.ts": "",
+    "src/utils/date.ts": "",
+  });
+
+  it("resolves paths patterns, exact paths and baseUrl", () => {
+    expect(
+      resolveModuleSpecifier("src/a.ts", "@models/user", modules, aliases),
+    ).toBe("src/models/user.ts");
+    expect(
+      resolveModuleSpecifier("src/a.ts", "@config", modules, aliases),
+    ).toBe("src/config/index.ts");
+    expect(
+      resolveModuleSpecifier("src/a.ts", "utils/date", modules, aliases),
+    ).toBe("src/utils/date.ts");
+    expect(
+      resolveModuleSpecifier("src/a.ts", "react", modules, aliases),
+    ).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// resolveExportOrigin
+// ---------------------------------------------------------------------------
+
+describe("resolveExportOrigin", () => {
+  it("follows chains of named, renamed and star re-exports", () => {
+    const modules = modulesFor({
+      "src/index.ts": 'export { Account } from "@models/index";',
+      "src/models/index.ts": 'export * from "./user";',
+      "src/models/user.ts": `
+        import { User } from "./user.types";
+        export { User as Account };
+      `,
+      "src/models/user.types.ts": "export interface User { id: string; }",
+    });
+
+    expect(
+      resolveExportOrigin("src/index.ts", "Account", modules, aliases),
+    ).toEqual({ file: "src/models/user.types.ts", name: "User" });
+  });
+
+  it("gives up on ambiguous star exports and cycles", () => {
+    const modules = modulesFor({
+      "src/index.ts": 'export * from "./a"; export * from "./b";',
+      "src/a.ts": 'export interface Id { a: string; } export * from "./b";',
+      "src/b.ts": 'export interface Id { b: string; } export * from "./a";',
+    });
+
+    expect(resolveExportOrigin("src/index.ts", "Id", modules)).toBeNull();
+    expect(resolveExportOrigin("src/a.ts", "Missing", modules)).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// collapseReExports
+// ---------------------------------------------------------------------------
+
+describe("collapseReExports", () => {
+  it("folds re-exports of the same origin into the declaration", () => {
+    const files = {
+      "src/index.ts": 'export { User } from "./models";',
+      "src/public.ts": 'export { User as Member } from "./models/user";',
+      "src/models/index.ts": 'export { User } from "./user";',
+      "src/models/user.ts": "export interface User { id: string; }",
+      "src/external.ts": 'export { Request } from "express";',
+    };
+    const declarations = collapseReExports(
+      declarationsFor(files),
+      modulesFor(files),
+    );
+
+    expect(declarations.map((d) => [d.file, d.name, d.kind])).toEqual([
+      ["src/models/user.ts", "User", "interface"],
+      ["src/external.ts", "Request", "reexport"],
+    ]);
+    expect(declarations[0]?.reExports).toEqual([
+      { file: "src/index.ts", line: 1, name: "User" },
+      { file: "src/public.ts", line: 1, name: "Member" },
+      { file: "src/models/index.ts", line: 1, name: "User" },
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// findBarrelConflicts
+// ---------------------------------------------------------------------------
+
+describe("findBarrelConflicts", () => {
+  it("reports names two star exports take from different declarations", () => {
+    const conflicts = findBarrelConflicts(
+      modulesFor({
+        "src/index.ts": `
+          export * from "./orders";
+          export * from "./users";
+          export * from "./shared";
+        `,
+        "src/orders.ts": `
+          export type Status = "open" | "closed";
+          export { Id } from "./shared";
+        `,
+        "src/users.ts": 'export type Status = "active" | "banned";',
+        "src/shared.ts": "export type Id = string;",
+      }),
+    );
+
+    expect(conflicts).toEqual([
+      {
+        file: "src/index.ts",
+        name: "Status",
+        sources: [
+          { specifier: "./orders", file: "src/orders.ts", name: "Status" },
+          { specifier: "./users", file: "src/users.ts", name: "Status" },
+        ],
+      },
+    ]);
+  });
+
+  it("ignores names the barrel exports itself", () => {
+    const conflicts = findBarrelConflicts(
+      modulesFor({
+        "src/index.ts": `
+          export * from "./a";
+          export * from "./b";
+          export type { Status } from "./a";
+        `,
+        "src/a.ts": "export type Status = 1;",
+        "src/b.ts": "export type Status = 2;",
+      }),
+    );
+    expect(conflicts).toEqual([]);
+  });
+});
@@ -0,0 +1,218 @@
+import { describe, expect, it } from "vitest";
+
+import { collectDeclarations } from "../analyzer.js";
+import { findShapeDivergences } from "../divergence.js";
+import {
+  findSchemaFindings,
+  schemaTypeName,
+  withoutSchemas,
+} from "../schema.js";
+import { groupShapesTransitively } from "../transitive.js";
+import { filterDuplicateGroups, groupBy } from "../utils.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function recordsFor(source: string) {
+  return collectDeclarations("/test/file.ts", source, {
+    includeEnums: true,
+    includeClasses: true,
+  });
+}
+
+function shapeOf(source: string, name: string): string | undefined {
+  return recordsFor(source).find((r) => r.name === name)?.normalizedShape;
+}
+
+function findingsFor(source: string) {
+  const records = recordsFor(source);
+  return findSchemaFindings(records, groupShapesTransitively(records).groups);
+}
+
+// ---------------------------------------------------------------------------
+// Schema extraction
+// ---------------------------------------------------------------------------
+
+describe("schema declarations", () => {
+  it("derives the static shape of a zod object", () => {
+    const source = `
+      import { z } from "zod";
+      export const UserSchema = z.object({
+        id: z.string().uuid(),
+        tags: z.array(z.string()),
+        role: z.enum(["admin", "user"]),
+        age: z.number().int().nullable(),
+        bio: z.string().optional(),
+      });
+      export interface User {
+        id: string;
+        tags: string[];
+        role: "user" | "admin";
+        age: number | null;
+        bio?: string;
+      }
+    `;
+    const records = recordsFor(source);
+
+    expect(records.map((r) => r.kind)).toEqual(["zod", "interface"]);
+    expect(records[0]?.propertyNames).toEqual([
+      "age",
+      "bio",
+      "id",
+      "role",
+      "tags",
+    ]);
+    expect(records[0]?.normalizedShape).toBe(records[1]?.normalizedShape);
+  });
+
+  it("handles valibot builders and pipes", () => {
+    const source = `
+      import * as v from "valibot";
+      const PostSchema = v.object({
+        title: v.pipe(v.string(), v.minLength(1)),
+        body: v.optional(v.string()),
+        status: v.picklist(["draft", "published"]),
+      });
+    `;
+    expect(shapeOf(source, "PostSchema")).toBe(
+      '{body?:string;status:"draft"|"published";title:string}',
+    );
+  });
+
+  it("treats yup fields as optional until required", () => {
+    const source = `
+      import * as yup from "yup";
+      const ProfileSchema = yup.object().shape({
+        name: yup.string().required(),
+        bio: yup.string(),
+        tags: yup.array().of(yup.string().required()).required(),
+      });
+    `;
+    expect(shapeOf(source, "ProfileSchema")).toBe(
+      "{bio?:string;name:string;tags:string[]}",
+    );
+  });
+
+  it("extends schema constants declared earlier in the file", () => {
+    const source = `
+      import { z } from "zod";
+      const BaseSchema = z.object({ id: z.string() });
+      const UserSchema = BaseSchema.extend({ name: z.string() });
+    `;
+    expect(shapeOf(source, "UserSchema")).toBe("BaseSchema&{name:string}");
+  });
+
+  it("applies pick and omit masks to object schemas", () => {
+    const source = `
+      import { z } from "zod";
+      const A = z.object({ a: z.string(), b: z.number() }).pick({ a: true });
+      const B = z.object({ a: z.string(), b: z.number() }).omit({ a: true });
+    `;
+    expect(shapeOf(source, "A")).toBe("{a:string}");
+    expect(shapeOf(source, "B")).toBe("{b:number}");
+  });
+
+  it("ignores builder calls without a schema library import", () => {
+    const source = `
+      const z = { object: (x: unknown) => x, string: () => "" };
+      const UserSchema = z.object({ id: z.string() });
+    `;
+    expect(recordsFor(source)).toEqual([]);
+  });
+
+  it("ignores schemas assigned with let", () => {
+    const source = `
+      import { z } from "zod";
+      let UserSchema = z.object({ id: z.string() });
+    `;
+    expect(recordsFor(source)).toEqual([]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// findSchemaFindings
+// ---------------------------------------------------------------------------
+
+describe("findSchemaFindings", () => {
+  it("maps schema names to the type they mirror", () => {
+    expect(schemaTypeName("UserSchema")).toBe("User");
+    expect(schemaTypeName("userSchema")).toBe("User");
+    expect(schemaTypeName("User")).toBe("User");
+  });
+
+  it("reports schemas that duplicate a static declaration", () => {
+    const findings = findingsFor(`
+      import { z } from "zod";
+      const AddressSchema = z.object({ street: z.string(), city: z.string() });
+      interface Location { city: string; street: string; }
+    `);
+
+    expect(findings.length).toBe(1);
+    expect(findings[0]?.kind).toBe("duplicate");
+    expect(findings[0]?.schema.name).toBe("AddressSchema");
+    expect(findings[0]?.declaration.name).toBe("Location");
+  });
+
+  it("matches nested schema references through their paired types", () => {
+    const findings = findingsFor(`
+      import { z } from "zod";
+      const AddressSchema = z.object({ city: z.string() });
+      interface Address { city: string; }
+      const UserSchema = z.object({ home: AddressSchema });
+      interface User { home: Address; }
+    `);
+
+    expect(
+      findings.map((f) => [f.kind, f.schema.name, f.declaration.name]),
+    ).toEqual([
+      ["duplicate", "AddressSchema", "Address"],
+      ["duplicate", "UserSchema", "User"],
+    ]);
+  });
+
+  it("reports drift between a schema and the type named after it", () => {
+    const findings = findingsFor(`
+      import { z } from "zod";
+      const UserSchema = z.object({
+        id: z.string(),
+        age: z.number(),
+        avatar: z.string(),
+      });
+      interface User { id: string; age: string; email: string; }
+    `);
+
+    expect(findings.length).toBe(1);
+    expect(findings[0]?.kind).toBe("drift");
+    expect(findings[0]?.onlyInSchema).toEqual(["avatar"]);
+    expect(findings[0]?.onlyInType).toEqual(["email"]);
+    expect(findings[0]?.changedMembers).toEqual(["age"]);
+  });
+
+  it("keeps a schema and its z.infer type out of name groups", () => {
+    const records = recordsFor(`
+      import { z } from "zod";
+      export const User = z.object({ id: z.string() });
+      export type User = z.infer<typeof User>;
+    `);
+    const shapeGroups = groupShapesTransitively(records).groups;
+    const nameGroups = filterDuplicateGroups(
+      groupBy(withoutSchemas(records), (d) => d.name),
+      2,
+    );
+
+    expect(records.map((d) => d.kind).sort()).toEqual(["type", "zod"]);
+    expect(nameGroups).toEqual([]);
+    expect(findShapeDivergences(nameGroups, shapeGroups)).toEqual([]);
+    expect(findSchemaFindings(records, shapeGroups)).toEqual([]);
+  });
+
+  it("does not report drift for unrelated members", () => {
+    const findings = findingsFor(`
+      import { z } from "zod";
+      const UserSchema = z.object({ id: z.string() });
+      interface User { name: string; }
+    `);
+    expect(findings).toEqual([]);
+  });
+});
@@ -0,0 +1,133 @@
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import ts from "typescript";
+import { describe, expect, it } from "vitest";
+
+import { collectDeclarations } from "../analyzer.js";
+import { createSemanticProgram, findSemanticGroups } from "../semantic.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Build a program over in-memory files, falling back to disk for libs. */
+function analyze(files: Record<string, string>, minCount = 2) {
+  const options: ts.CompilerOptions = { strict: true, noEmit: true, types: [] };
+  const host = ts.createCompilerHost(options);
+  const getSourceFile = host.getSourceFile;
+  const fileExists = host.fileExists;
+  const readFile = host.readFile;
+
+  host.getSourceFile = (fileName, languageVersion, ...rest) => {
+    const text = files[fileName];
+    return text === undefined
+      ? getSourceFile(fileName, languageVersion, ...rest)
+      : ts.createSourceFile(fileName, text, languageVersion, true);
+  };
+  host.fileExists = (fileName) => fileName in files || fileExists(fileName);
+  host.readFile = (fileName) => files[fileName] ?? readFile(fileName);
+
+  const program = ts.createProgram(Object.keys(files), options, host);
+  const declarations = Object.entries(files).flatMap(([file, text]) =>
+    collectDeclarations(file, text, {
+      includeEnums: true,
+      includeClasses: true,
+    }),
+  );
+  return findSemanticGroups(program, declarations, minCount);
+}
+
+function names(groups: ReturnType<typeof analyze>): string[][] {
+  return groups.map(([, items]) => items.map((i) => i.name).sort());
+}
+
+// ---------------------------------------------------------------------------
+// findSemanticGroups
+// ---------------------------------------------------------------------------
+
+describe("findSemanticGroups", () => {
+  it("groups types referencing structurally identical types", () => {
+    const groups = analyze({
+      "/virtual/a.ts": `
+        interface User { id: string; name: string; }
+        type A = { user: User };
+      `,
+      "/virtual/b.ts": `
+        interface UserModel { id: string; name: string; }
+        type B = { user: UserModel };
+      `,
+    });
+
+    expect(names(groups)).toContainEqual(["A", "B"]);
+    expect(groups.find(([key]) => key === "{ user }")).toBeDefined();
+  });
+
+  it("matches Partial<X> with a hand-written all-optional copy", () => {
+    const groups = analyze({
+      "/virtual/a.ts": `
+        interface Settings { theme: string; size: number; }
+        type SettingsPatch = Partial<Settings>;
+        interface ManualPatch { theme?: string; size?: number; }
+      `,
+    });
+
+    expect(names(groups)).toEqual([["ManualPatch", "SettingsPatch"]]);
+  });
+
+  it("does not group types that are only assignable one way", () => {
+    const groups = analyze({
+      "/virtual/a.ts": `
+        type A = { id: string | number };
+        type B = { id: string };
+      `,
+    });
+    expect(groups).toEqual([]);
+  });
+
+  it("omits groups that are already syntactic shape duplicates", () => {
+    const groups = analyze({
+      "/virtual/a.ts": `
+        type A = { id: string };
+        type B = { id: string };
+      `,
+    });
+    expect(groups).toEqual([]);
+  });
+
+  it("applies minCount", () => {
+    const groups = analyze(
+      {
+        "/virtual/a.ts": `
+          interface User { id: string; }
+          interface UserModel { id: string; }
+          type A = { user: User };
+          type B = { user: UserModel };
+        `,
+      },
+      3,
+    );
+    expect(groups).toEqual([]);
+  });
+});
+
+describe("createSemanticProgram", () => {
+  it("only passes TypeScript files to the compiler", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "typehunt-semantic-"));
+    try {
+      const tsconfig = path.join(dir, "tsconfig.json");
+      await fs.writeFile(tsconfig, '{ "compilerOptions": { "strict": true } }');
+      const files = ["a.ts", "b.tsx", "c.d.ts", "Comp.vue", "d.js"].map(
+        (file) => path.join(dir, file),
+      );
+      const program = createSemanticProgram(files, tsconfig);
+      expect(program.getRootFileNames().map((f) => path.basename(f))).toEqual([
+        "a.ts",
+        "b.tsx",
+        "c.d.ts",
+      ]);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,168 @@
+import ts from "typescript";
+import { describe, expect, it } from "vitest";
+
+import { buildDeclarationShape, serializeShape } from "../shape.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Parse a single declaration and return its canonical shape key. */
+function keyOf(source: string): string {
+  const sourceFile = ts.createSourceFile(
+    "/test/file.ts",
+    source,
+    ts.ScriptTarget.Latest,
+    true,
+    ts.ScriptKind.TS,
+  );
+  const node = sourceFile.statements[0];
+  if (
+    !node ||
+    !(
+      ts.isInterfaceDeclaration(node) ||
+      ts.isTypeAliasDeclaration(node) ||
+      ts.isEnumDeclaration(node) ||
+      ts.isClassDeclaration(node)
+    )
+  ) {
+    throw new Error("expected a declaration");
+  }
+  return serializeShape(buildDeclarationShape(node, sourceFile));
+}
+
+// ---------------------------------------------------------------------------
+// serializeShape / buildDeclarationShape
+// ---------------------------------------------------------------------------
+
+describe("canonical shape keys", () => {
+  it("ignores member order", () => {
+    expect(keyOf("type A = { a: string; b: number }")).toBe(
+      keyOf("type B = { b: number; a: string }"),
+    );
+  });
+
+  it("ignores member separators", () => {
+    expect(keyOf("type A = { a: string, b: number, }")).toBe(
+      keyOf("type B = { a: string; b: number; }"),
+    );
+  });
+
+  it("ignores union and intersection constituent order", () => {
+    expect(keyOf('type A = "x" | "y" | null')).toBe(
+      keyOf('type B = null | "y" | "x"'),
+    );
+    expect(keyOf("type A = Foo & Bar")).toBe(keyOf("type B = Bar & Foo"));
+  });
+
+  it("normalizes parentheses and quote styles", () => {
+    expect(keyOf("type A = ((string | number))[]")).toBe(
+      keyOf("type B = Array<number | string>"),
+    );
+    expect(keyOf("type A = { 'a': 'x' }")).toBe(keyOf('type B = { a: "x" }'));
+  });
+
+  it("treats interface extends and type intersections as equivalent", () => {
+    expect(keyOf("interface A extends Base { a: string }")).toBe(
+      keyOf("type B = Base & { a: string }"),
+    );
+    expect(keyOf("interface A extends Base {}")).toBe(
+      keyOf("type B = Base & {}"),
+    );
+  });
+
+  it("merges object literals inside intersections", () => {
+    expect(keyOf("type A = { a: string } & { b: number }")).toBe(
+      keyOf("interface B { b: number; a: string }"),
+    );
+  });
+
+  it("replaces self-references with a placeholder", () => {
+    const key = keyOf("interface Tree { children: Tree[] }");
+    expect(key).toBe("{children:__NAME__[]}");
+  });
+
+  it("distinguishes optional and readonly modifiers", () => {
+    const base = keyOf("type A = { a: string }");
+    expect(keyOf("type A = { a?: string }")).not.toBe(base);
+    expect(keyOf("type A = { readonly a: string }")).not.toBe(base);
+  });
+
+  it("includes method, call and index signatures", () => {
+    expect(keyOf("interface A { get(id: string): User }")).toBe(
+      "{get(string):User}",
+    );
+    expect(keyOf("interface A { (x: number): void }")).toBe("{(number):void}");
+    expect(keyOf("interface A { [key: string]: number }")).toBe(
+      "{[string]:number}",
+    );
+  });
+
+  it("keeps positional order for enums with implicit values", () => {
+    expect(keyOf("enum A { X, Y }")).not.toBe(keyOf("enum B { Y, X }"));
+    expect(keyOf('enum A { X = "x", Y = "y" }')).toBe(
+      keyOf('enum B { Y = "y", X = "x" }'),
+    );
+  });
+
+  it("renames type parameters by position", () => {
+    expect(keyOf("type Box<T> = { value: T }")).toBe(
+      keyOf("type Wrapper<U> = { value: U }"),
+    );
+    expect(keyOf("type Box<T> = { value: T }")).toBe("<$0>{value:$0}");
+  });
+
+  it("renames type parameters in constraints and defaults", () => {
+    expect(
+      keyOf("interface Result<T, E extends Error = Error> { ok: T; err: E }"),
+    ).toBe(
+      keyOf("interface Outcome<V, F extends Error = Error> { err: F; ok: V }"),
+    );
+    expect(keyOf("type P<T, K extends keyof T> = Pick<T, K>")).toBe(
+      "<$0,$1 extends keyof $0>Pick<$0,$1>",
+    );
+  });
+
+  it("keeps type parameter positions significant", () => {
+    expect(keyOf("type A<T, U> = { a: T; b: U }")).not.toBe(
+      keyOf("type B<T, U> = { a: U; b: T }"),
+    );
+  });
+
+  it("renames nested generic signature and mapped type parameters", () => {
+    expect(keyOf("type A = { map<X>(fn: (x: X) => X): X }")).toBe(
+      keyOf("type B = { map<Y>(fn: (y: Y) => Y): Y }"),
+    );
+    expect(keyOf("type A<T> = { [K in keyof T]?: T[K] }")).toBe(
+      keyOf("type B<U> = { [P in keyof U]?: U[P] }"),
+    );
+  });
+
+  it("uses only the public instance surface of classes", () => {
+    expect(
+      keyOf(`class A extends Base implements Shape {
+        static count = 0;
+        private id = "";
+        protected log(): void {}
+        name: string = "";
+        get label(): string { return this.name; }
+      }`),
+    ).toBe(
+      keyOf("interface B extends Base { name: string; get label(): string }"),
+    );
+  });
+
+  it("keeps overload signatures and drops the class implementation", () => {
+    expect(
+      keyOf(`class A {
+        parse(input: string): number;
+        parse(input: number): number;
+        parse(input: unknown): number { return 0; }
+      }`),
+    ).toBe(
+      keyOf(
+        "interface B { parse(input: string): number; parse(input: number): number }",
+      ),
+    );
+  });
+});
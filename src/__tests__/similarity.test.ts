@@ -0,0 +1,173 @@
+import { describe, expect, it } from "vitest";
+
+import { findSimilarGroups, jaccard } from "../similarity.js";
+import type { DeclarationRecord } from "../types.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function makeDeclaration(
+  name: string,
+  propertyNames: string[],
+  line = 1,
+): DeclarationRecord {
+  return {
+    name,
+    kind: "interface",
+    file: `src/${name}.ts`,
+    line,
+    qualifiedName: name,
+    scope: "module",
+    exported: true,
+    container: { kind: "file", module: null, namespaces: [] },
+    snippet: `interface ${name} {}`,
+    normalizedShape: name,
+    shape: null,
+    isReExport: false,
+    members: propertyNames.map((n) => ({
+      kind: "property",
+      name: n,
+      optional: false,
+      readonly: false,
+    })),
+    propertyCount: propertyNames.length,
+    propertyNames,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// jaccard
+// ---------------------------------------------------------------------------
+
+describe("jaccard", () => {
+  it("returns the shared / total ratio", () => {
+    expect(jaccard(new Set(["a", "b", "c"]), new Set(["b", "c", "d"]))).toBe(
+      0.5,
+    );
+  });
+
+  it("returns 1 for identical sets", () => {
+    expect(jaccard(new Set(["a"]), new Set(["a"]))).toBe(1);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// findSimilarGroups
+// ---------------------------------------------------------------------------
+
+describe("findSimilarGroups", () => {
+  const tenMembers = "abcdefghij".split("");
+
+  it("clusters declarations sharing 9 of 10 members", () => {
+    const user = makeDeclaration("User", tenMembers);
+    const profile = makeDeclaration("Profile", [
+      ...tenMembers.slice(0, 9),
+      "k",
+    ]);
+    const unrelated = makeDeclaration("Other", ["x", "y", "z"]);
+
+    const groups = findSimilarGroups([user, profile, unrelated], 0.8, 2);
+
+    expect(groups.length).toBe(1);
+    expect(groups[0]?.entries.map((e) => e.declaration.name)).toEqual([
+      "Profile",
+      "User",
+    ]);
+    expect(groups[0]?.sharedMembers).toEqual(tenMembers.slice(0, 9));
+    expect(groups[0]?.score).toBeCloseTo(9 / 11);
+  });
+
+  it("reports the members that differ per declaration", () => {
+    const groups = findSimilarGroups(
+      [
+        makeDeclaration("A", ["id", "name", "email", "avatar"]),
+        makeDeclaration("B", ["id", "name", "email", "bio"]),
+      ],
+      0.5,
+      2,
+    );
+
+    const [a, b] = groups[0]?.entries ?? [];
+    expect(a?.extraMembers).toEqual(["avatar"]);
+    expect(a?.missingMembers).toEqual(["bio"]);
+    expect(b?.extraMembers).toEqual(["bio"]);
+    expect(b?.missingMembers).toEqual(["avatar"]);
+  });
+
+  it("respects the similarity threshold", () => {
+    const declarations = [
+      makeDeclaration("A", ["a", "b", "c", "d"]),
+      makeDeclaration("B", ["a", "b", "c", "e"]),
+    ];
+    expect(findSimilarGroups(declarations, 0.6, 2).length).toBe(1);
+    expect(findSimilarGroups(declarations, 0.7, 2).length).toBe(0);
+  });
+
+  it("links clusters transitively", () => {
+    const groups = findSimilarGroups(
+      [
+        makeDeclaration("A", ["a", "b", "c", "d", "e"]),
+        makeDeclaration("B", ["a", "b", "c", "d", "f"]),
+        makeDeclaration("C", ["a", "b", "c", "f", "g"]),
+      ],
+      0.6,
+      2,
+    );
+    expect(groups.length).toBe(1);
+    expect(groups[0]?.entries.length).toBe(3);
+  });
+
+  it("ignores declarations with too few members", () => {
+    const groups = findSimilarGroups(
+      [makeDeclaration("A", ["id"]), makeDeclaration("B", ["id"])],
+      0.8,
+      2,
+    );
+    expect(groups).toEqual([]);
+  });
+
+  it("applies minCount to clusters", () => {
+    const declarations = [
+      makeDeclaration("A", tenMembers),
+      makeDeclaration("B", tenMembers),
+    ];
+    expect(findSimilarGroups(declarations, 0.8, 3)).toEqual([]);
+  });
+
+  it("finds the same clusters as an all-pairs comparison", () => {
+    const pool = "abcdefghijklmnop".split("");
+    const declarations: DeclarationRecord[] = [];
+    let seed = 7;
+    const random = () => {
+      seed = (seed * 16807) % 2147483647;
+      return seed / 2147483647;
+    };
+    for (let i = 0; i < 120; i++) {
+      const members = pool.filter(() => random() < 0.35);
+      declarations.push(makeDeclaration(`T${i}`, members, i));
+    }
+
+    const threshold = 0.7;
+    const groups = findSimilarGroups(declarations, threshold, 2);
+    const clustered = new Set(
+      groups.flatMap((g) => g.entries.map((e) => e.declaration.name)),
+    );
+
+    for (const a of declarations) {
+      for (const b of declarations) {
+        if (a === b || a.propertyCount < 2 || b.propertyCount < 2) continue;
+        if (
+          jaccard(new Set(a.propertyNames), new Set(b.propertyNames)) >=
+          threshold
+        ) {
+          expect(clustered.has(a.name)).toBe(true);
+          const group = groups.find((g) =>
+            g.entries.some((e) => e.declaration === a),
+          );
+          expect(group?.entries.some((e) => e.declaration === b)).toBe(true);
+        }
+      }
+    }
+  });
+});
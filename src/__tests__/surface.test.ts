@@ -0,0 +1,224 @@
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+import { collectDeclarations } from "../analyzer.js";
+import {
+  collectModuleExports,
+  findPublicNames,
+  markVisibility,
+  readPackageEntries,
+  resolveEntryFile,
+  resolveModuleSpecifier,
+} from "../surface.js";
+import type { ModuleExports } from "../types.js";
+import { toPosix } from "../utils.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function modulesFor(files: Record<string, string>) {
+  const modules = new Map<string, ModuleExports>();
+  for (const [file, source] of Object.entries(files)) {
+    const exports = collectModuleExports(file, source);
+    modules.set(exports.file, exports);
+  }
+  return modules;
+}
+
+function publicDeclarations(files: Record<string, string>, entry: string) {
+  const modules = modulesFor(files);
+  const declarations = Object.entries(files).flatMap(([file, source]) =>
+    collectDeclarations(file, source, {
+      includeEnums: true,
+      includeClasses: true,
+    }),
+  );
+  const entryFile = resolveEntryFile(entry, modules);
+  return markVisibility(
+    declarations,
+    findPublicNames(entryFile ? [entryFile] : [], modules),
+  )
+    .filter((d) => d.visibility === "public")
+    .map((d) => `${d.file}:${d.qualifiedName}`)
+    .sort();
+}
+
+// ---------------------------------------------------------------------------
+// collectModuleExports
+// ---------------------------------------------------------------------------
+
+describe("collectModuleExports", () => {
+  it("records local, re-exported and star exports", () => {
+    const exports = collectModuleExports(
+      "src/index.ts",
+      `
+        import { Base } from "./base";
+        export interface User { id: string; }
+        interface Hidden { x: number; }
+        export { Hidden as Visible, Base };
+        export type { Order as PurchaseOrder } from "./order";
+        export * from "./utils";
+        export * as api from "./api";
+        export default User;
+      `,
+    );
+
+    expect([...exports.local]).toEqual([
+      ["User", "User"],
+      ["Visible", "Hidden"],
+      ["default", "User"],
+    ]);
+    expect([...exports.named]).toEqual([
+      ["Base", { specifier: "./base", name: "Base" }],
+      ["PurchaseOrder", { specifier: "./order", name: "Order" }],
+      ["api", { specifier: "./api", name: "*" }],
+    ]);
+    expect(exports.star).toEqual(["./utils"]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Resolution
+// ---------------------------------------------------------------------------
+
+describe("resolveModuleSpecifier", () => {
+  const modules = modulesFor({
+    "src/user.ts": "",
+    "src/models/index.ts": "",
+  });
+
+  it("resolves extension-less, .js and folder specifiers", () => {
+    expect(resolveModuleSpecifier("src/index.ts", "./user", modules)).toBe(
+      "src/user.ts",
+    );
+    expect(resolveModuleSpecifier("src/index.ts", "./user.js", modules)).toBe(
+      "src/user.ts",
+    );
+    expect(resolveModuleSpecifier("src/index.ts", "./models", modules)).toBe(
+      "src/models/index.ts",
+    );
+    expect(resolveModuleSpecifier("src/index.ts", "zod", modules)).toBeNull();
+  });
+
+  it("maps built entry points back to their sources", () => {
+    expect(resolveEntryFile("dist/user.d.ts", modules)).toBe("src/user.ts");
+    expect(resolveEntryFile("lib/models/index.js", modules)).toBe(
+      "src/models/index.ts",
+    );
+    expect(resolveEntryFile("dist/missing.js", modules)).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// readPackageEntries
+// ---------------------------------------------------------------------------
+
+describe("readPackageEntries", () => {
+  let packageDir = "";
+  const relative = (...segments: string[]) =>
+    toPosix(path.relative(process.cwd(), path.join(packageDir, ...segments)));
+
+  beforeAll(async () => {
+    packageDir = await fs.mkdtemp(path.join(os.tmpdir(), "typehunt-"));
+    await fs.mkdir(path.join(packageDir, "src"));
+    await fs.writeFile(
+      path.join(packageDir, "package.json"),
+      JSON.stringify({
+        types: "dist/index.d.ts",
+        exports: {
+          ".": { types: "./dist/index.d.ts", import: "./dist/index.js" },
+        },
+      }),
+    );
+  });
+
+  afterAll(async () => {
+    await fs.rm(packageDir, { recursive: true, force: true });
+  });
+
+  it("finds the package.json above the default src root", async () => {
+    const entries = await readPackageEntries(path.join(packageDir, "src"));
+    expect(entries).toEqual([
+      relative("dist/index.d.ts"),
+      relative("dist/index.js"),
+    ]);
+
+    const modules = modulesFor({ [relative("src/index.ts")]: "" });
+    expect(entries.map((entry) => resolveEntryFile(entry, modules))).toEqual([
+      relative("src/index.ts"),
+      relative("src/index.ts"),
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Public surface
+// ---------------------------------------------------------------------------
+
+describe("findPublicNames", () => {
+  it("follows named and star re-exports from the entry point", () => {
+    const names = publicDeclarations(
+      {
+        "src/index.ts": `
+          export { User } from "./user";
+          export * from "./order";
+          export interface Config { debug: boolean; }
+        `,
+        "src/user.ts": `
+          export interface User { id: string; }
+          export interface UserRow { id: string; }
+        `,
+        "src/order.ts": `
+          export interface Order { id: string; }
+          interface OrderRow { id: string; }
+        `,
+      },
+      "dist/index.d.ts",
+    );
+
+    // The barrel's re-export record is public too.
+    expect(names).toEqual([
+      "src/index.ts:Config",
+      "src/index.ts:User",
+      "src/order.ts:Order",
+      "src/user.ts:User",
+    ]);
+  });
+
+  it("follows re-exported imports, renames and namespace members", () => {
+    const names = publicDeclarations(
+      {
+        "src/index.ts": `
+          import { Internal as Settings } from "./settings";
+          export { Settings };
+          export * as models from "./models";
+        `,
+        "src/settings.ts": "export interface Internal { a: string; }",
+        "src/models.ts": `
+          export namespace Api { export interface User { id: string; } }
+          export namespace Private { interface Hidden { id: string; } }
+        `,
+      },
+      "src/index.ts",
+    );
+
+    expect(names).toEqual([
+      "src/models.ts:Api.User",
+      "src/settings.ts:Internal",
+    ]);
+  });
+
+  it("survives re-export cycles", () => {
+    const names = publicDeclarations(
+      {
+        "src/a.ts": 'export * from "./b"; export interface A { a: string; }',
+        "src/b.ts": 'export * from "./a"; export interface B { b: string; }',
+      },
+      "src/a.ts",
+    );
+    expect(names).toEqual(["src/a.ts:A", "src/b.ts:B"]);
+  });
+});
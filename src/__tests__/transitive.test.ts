@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+
+import { collectDeclarations } from "../analyzer.js";
+import { groupShapesTransitively } from "../transitive.js";
+import { filterDuplicateGroups } from "../utils.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function groupsFor(source: string) {
+  const records = collectDeclarations("/test/file.ts", source, {
+    includeEnums: true,
+    includeClasses: true,
+  });
+  const { groups, nested } = groupShapesTransitively(records);
+  return { groups: filterDuplicateGroups(groups, 2), nested };
+}
+
+function namesOf(groups: Array<[string, Array<{ name: string }>]>) {
+  return groups.map(([, items]) => items.map((d) => d.name).sort());
+}
+
+// ---------------------------------------------------------------------------
+// groupShapesTransitively
+// ---------------------------------------------------------------------------
+
+describe("groupShapesTransitively", () => {
+  it("groups shapes whose references point at duplicate shapes", () => {
+    const { groups, nested } = groupsFor(`
+      interface Address { street: string; city: string; }
+      interface Addr { street: string; city: string; }
+      interface Person { name: string; home: Address; }
+      interface Customer { name: string; home: Addr; }
+    `);
+
+    expect(namesOf(groups)).toEqual(
+      expect.arrayContaining([
+        ["Addr", "Address"],
+        ["Customer", "Person"],
+      ]),
+    );
+
+    const personKey = groups.find(([, items]) =>
+      items.some((d) => d.name === "Person"),
+    )?.[0];
+    expect(nested.get(personKey ?? "")).toEqual([
+      { shape: "{city:string;street:string}", names: ["Addr", "Address"] },
+    ]);
+  });
+
+  it("follows matches up multi-level type trees", () => {
+    const { groups } = groupsFor(`
+      type Geo = { lat: number; lng: number };
+      type Coords = { lat: number; lng: number };
+      type Address = { street: string; geo: Geo };
+      type Location = { street: string; geo: Coords };
+      interface Person { home: Address; }
+      interface Customer { home: Location; }
+    `);
+
+    expect(namesOf(groups)).toEqual(
+      expect.arrayContaining([
+        ["Coords", "Geo"],
+        ["Address", "Location"],
+        ["Customer", "Person"],
+      ]),
+    );
+  });
+
+  it("leaves ambiguous names unresolved", () => {
+    const records = [
+      ...collectDeclarations(
+        "/test/a.ts",
+        "type Id = string; type A = { id: Id };",
+        { includeEnums: true, includeClasses: true },
+      ),
+      ...collectDeclarations(
+        "/test/b.ts",
+        "type Id = number; type Key = string; type B = { id: Key };",
+        { includeEnums: true, includeClasses: true },
+      ),
+    ];
+    const groups = filterDuplicateGroups(
+      groupShapesTransitively(records).groups,
+      2,
+    );
+
+    expect(namesOf(groups)).not.toContainEqual(["A", "B"]);
+  });
+
+  it("keeps plain shape keys for groups that match syntactically", () => {
+    const { groups, nested } = groupsFor(`
+      type A = { id: string };
+      type B = { id: string };
+    `);
+
+    expect(groups.map(([key]) => key)).toEqual(["{id:string}"]);
+    expect(nested.size).toBe(0);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+
+import { collectDeclarations } from "../analyzer.js";
+import { collapseReExports } from "../reexports.js";
+import { collectModuleExports } from "../surface.js";
+import type { ModuleExports } from "../types.js";
+import { countUsages, sortGroupsByImpact } from "../usage.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function usagesFor(files: Record<string, string>) {
+  const modules = new Map<string, ModuleExports>();
+  for (const [file, source] of Object.entries(files)) {
+    const exports = collectModuleExports(file, source);
+    modules.set(exports.file, exports);
+  }
+  const declarations = Object.entries(files).flatMap(([file, source]) =>
+    collectDeclarations(file, source, {
+      includeEnums: true,
+      includeClasses: true,
+    }),
+  );
+  return countUsages(collapseReExports(declarations, modules), modules);
+}
+
+function countsOf(declarations: ReturnType<typeof usagesFor>) {
+  return Object.fromEntries(
+    declarations.map((d) => [`${d.file}:${d.qualifiedName}`, d.usageCount]),
+  );
+}
+
+// ---------------------------------------------------------------------------
+// countUsages
+// ---------------------------------------------------------------------------
+
+describe("countUsages", () => {
+  it("counts importing files through barrels", () => {
+    const counts = countsOf(
+      usagesFor({
+        "src/models/user.ts": "export interface User { id: string; }",
+        "src/models/index.ts": 'export * from "./user";',
+        "src/a.ts": 'import type { User } from "./models";',
+        "src/b.ts": 'import { User as Member } from "./models/user";',
+        "src/c.ts": `
+          import type { User } from "./models";
+          import { User as Again } from "./models/user.js";
+        `,
+      }),
+    );
+    expect(counts["src/models/user.ts:User"]).toBe(3);
+  });
+
+  it("counts namespace imports and import types by referenced name", () => {
+    const counts = countsOf(
+      usagesFor({
+        "src/types.ts": `
+          export interface Order { id: string; }
+          export interface Invoice { id: string; }
+          export type Unused = string;
+        `,
+        "src/a.ts": `
+          import * as types from "./types";
+          let order: types.Order;
+        `,
+        "src/b.ts": 'let invoice: import("./types").Invoice;',
+      }),
+    );
+    expect(counts).toMatchObject({
+      "src/types.ts:Order": 1,
+      "src/types.ts:Invoice": 1,
+      "src/types.ts:Unused": 0,
+    });
+  });
+
+  it("counts namespace members by their namespace and skips globals", () => {
+    const declarations = usagesFor({
+      "src/api.ts": `
+        export namespace Api { export interface User { id: string; } }
+        declare global { interface Window { app: unknown; } }
+      `,
+      "src/a.ts": 'import { Api } from "./api"; let u: Api.User;',
+    });
+    expect(declarations.map((d) => [d.qualifiedName, d.usageCount])).toEqual([
+      ["Api.User", 1],
+      ["Window", undefined],
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// sortGroupsByImpact
+// ---------------------------------------------------------------------------
+
+describe("sortGroupsByImpact", () => {
+  it("puts the most used groups first and keeps ties in order", () => {
+    const declarations = usagesFor({
+      "src/a.ts": "export type A = string; export type B = string;",
+      "src/c.ts": "export type C = string;",
+      "src/use1.ts": 'import { C } from "./c"; import { B } from "./a";',
+      "src/use2.ts": 'import { C } from "./c";',
+    });
+    const byName = (name: string) =>
+      declarations.filter((d) => d.name === name);
+    const groups: Array<[string, typeof declarations]> = [
+      ["A", byName("A")],
+      ["B", byName("B")],
+      ["C", byName("C")],
+      ["A2", byName("A")],
+    ];
+
+    expect(sortGroupsByImpact(groups).map(([key]) => key)).toEqual([
+      "C",
+      "B",
+      "A",
+      "A2",
+    ]);
+  });
+});
@@ -77,6 +77,48 @@ describe("matchesExclude", () => {
       false,
     );
   });
+
+  it("matches whole path segments, not substrings", () => {
+    expect(matchesExclude("src/latest/x.ts", ["test"])).toBe(false);
+    expect(matchesExclude("src/test/x.ts", ["test"])).toBe(true);
+  });
+
+  it("matches globs with ** anywhere", () => {
+    const patterns = ["**/*.generated.ts"];
+    expect(matchesExclude("api.generated.ts", patterns)).toBe(true);
+    expect(matchesExclude("src/a/b/api.generated.ts", patterns)).toBe(true);
+    expect(matchesExclude("src/api.ts", patterns)).toBe(false);
+  });
+
+  it("keeps * and ? within one segment", () => {
+    expect(matchesExclude("src/a.ts", ["src/*.ts"])).toBe(true);
+    expect(matchesExclude("src/a/b.ts", ["src/*.ts"])).toBe(false);
+    expect(matchesExclude("src/v1/x.ts", ["src/v?"])).toBe(true);
+    expect(matchesExclude("src/v10/x.ts", ["src/v?"])).toBe(false);
+  });
+
+  it("expands braces", () => {
+    const patterns = ["src/{legacy,vendor}/**"];
+    expect(matchesExclude("src/legacy/a.ts", patterns)).toBe(true);
+    expect(matchesExclude("src/vendor/b/c.ts", patterns)).toBe(true);
+    expect(matchesExclude("src/app/a.ts", patterns)).toBe(false);
+  });
+
+  it("lets a later negated pattern re-include a path", () => {
+    const patterns = ["src/gen", "!src/gen/keep.ts"];
+    expect(matchesExclude("src/gen/a.ts", patterns)).toBe(true);
+    expect(matchesExclude("src/gen/keep.ts", patterns)).toBe(false);
+  });
+
+  it("matches only folders with a trailing slash", () => {
+    expect(matchesExclude("src/build/a.ts", ["build/"])).toBe(true);
+    expect(matchesExclude("src/build", ["build/"])).toBe(false);
+  });
+
+  it("matches substrings behind the substring: prefix", () => {
+    expect(matchesExclude("src/latest/x.ts", ["substring:test"])).toBe(true);
+    expect(matchesExclude("src/app/x.ts", ["substring:test"])).toBe(false);
+  });
 });
 
 // ---------------------------------------------------------------------------
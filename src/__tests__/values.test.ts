@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+
+import { collectDeclarations } from "../analyzer.js";
+import { findValueSetGroups, valueSet } from "../values.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function recordsFor(source: string) {
+  return collectDeclarations("/test/file.ts", source, {
+    includeEnums: true,
+    includeClasses: true,
+    includeConstObjects: true,
+  });
+}
+
+function valuesOf(source: string, name: string): string[] | null {
+  const record = recordsFor(source).find((r) => r.name === name);
+  return record ? valueSet(record) : null;
+}
+
+// ---------------------------------------------------------------------------
+// Value sets
+// ---------------------------------------------------------------------------
+
+describe("valueSet", () => {
+  it("evaluates enum initializers and implicit numeric values", () => {
+    expect(valuesOf("enum E { A, B = 5, C }", "E")).toEqual(["0", "5", "6"]);
+    expect(
+      valuesOf("enum F { A = 1 << 0, B = 1 << 1, C = A | F.B }", "F"),
+    ).toEqual(["1", "2", "3"]);
+    expect(valuesOf('enum S { A = "a", B = `b`, C = "c" + "d" }', "S")).toEqual(
+      ['"a"', '"b"', '"cd"'],
+    );
+    expect(valuesOf("enum R { A = Math.random(), B }", "R")).toBeNull();
+  });
+
+  it("reads literal unions", () => {
+    expect(valuesOf('type T = "b" | "a" | "b";', "T")).toEqual(['"a"', '"b"']);
+    expect(valuesOf("type T = 1 | -2;", "T")).toEqual(["-2", "1"]);
+    expect(valuesOf('type T = "a" | string;', "T")).toBeNull();
+  });
+
+  it("collects as const objects with their literal values", () => {
+    const source = `
+      export const Status = { Active: "active", Off: "off" } as const;
+      const Limits = { max: 10, min: -1 } as const satisfies Record<string, number>;
+      const Mixed = { a: "a", b: compute() } as const;
+      const Plain = { a: "a" };
+      let Loose = { a: "a" } as const;
+    `;
+    const records = recordsFor(source);
+
+    expect(records.map((r) => [r.name, r.kind])).toEqual([
+      ["Status", "const"],
+      ["Limits", "const"],
+      ["Mixed", "const"],
+    ]);
+    expect(records[0]?.exported).toBe(true);
+    expect(records[0]?.normalizedShape).toBe(
+      '{readonly Active:"active";readonly Off:"off"}',
+    );
+    expect(valuesOf(source, "Limits")).toEqual(["-1", "10"]);
+    expect(valuesOf(source, "Mixed")).toBeNull();
+  });
+
+  it("only collects module-level as const objects, when asked to", () => {
+    const source = `
+      export const Status = { Active: "active" } as const;
+      function load() {
+        const StatusObj = { Active: "active" } as const;
+      }
+    `;
+    expect(recordsFor(source).map((r) => r.name)).toEqual(["Status"]);
+    expect(
+      collectDeclarations("/test/file.ts", source, {
+        includeEnums: true,
+        includeClasses: true,
+      }),
+    ).toEqual([]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// findValueSetGroups
+// ---------------------------------------------------------------------------
+
+describe("findValueSetGroups", () => {
+  it("groups the same values across enum, union and as const", () => {
+    const groups = findValueSetGroups(
+      recordsFor(`
+        enum Status { Active = "active", Inactive = "inactive" }
+        type StatusName = "inactive" | "active";
+        const STATUS = { A: "active", I: "inactive" } as const;
+        enum Level { Low, High }
+        type LevelValue = 0 | 1;
+      `),
+    );
+
+    expect(groups.map((g) => [g.forms, g.values])).toEqual([
+      [
+        ["enum", "union", "const"],
+        ['"active"', '"inactive"'],
+      ],
+      [
+        ["enum", "union"],
+        ["0", "1"],
+      ],
+    ]);
+    expect(groups[0]?.declarations.map((d) => d.name)).toEqual([
+      "Status",
+      "StatusName",
+      "STATUS",
+    ]);
+  });
+
+  it("leaves same-form duplicates and single values to other reports", () => {
+    const groups = findValueSetGroups(
+      recordsFor(`
+        type A = "x" | "y";
+        type B = "y" | "x";
+        enum One { X = "x" }
+        type OneValue = "x";
+      `),
+    );
+    expect(groups).toEqual([]);
+  });
+});
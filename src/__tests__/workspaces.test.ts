@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+
+import type { DeclarationRecord, WorkspacePackage } from "../types.js";
+import {
+  buildPackageMatrix,
+  orderByPackageScope,
+  packageScope,
+  parsePnpmWorkspace,
+} from "../workspaces.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function makeDeclaration(name: string, pkg?: string): DeclarationRecord {
+  return {
+    name,
+    kind: "interface",
+    file: `packages/${pkg ?? "root"}/${name}.ts`,
+    line: 1,
+    qualifiedName: name,
+    scope: "module",
+    exported: true,
+    package: pkg,
+    container: { kind: "file", module: null, namespaces: [] },
+    snippet: `interface ${name} {}`,
+    normalizedShape: name,
+    shape: null,
+    isReExport: false,
+    members: [],
+    propertyCount: 0,
+    propertyNames: [],
+  };
+}
+
+function makePackage(name: string): WorkspacePackage {
+  return { name, dir: `packages/${name}`, tsconfig: null };
+}
+
+// ---------------------------------------------------------------------------
+// parsePnpmWorkspace
+// ---------------------------------------------------------------------------
+
+describe("parsePnpmWorkspace", () => {
+  it("reads the packages block list and skips other keys", () => {
+    const yaml = [
+      "# workspace",
+      "packages:",
+      '  - "packages/*"',
+      "  - 'apps/*' # apps",
+      "  - '!**/test/**'",
+      "catalog:",
+      "  - react: ^18",
+    ].join("\n");
+
+    expect(parsePnpmWorkspace(yaml)).toEqual([
+      "packages/*",
+      "apps/*",
+      "!**/test/**",
+    ]);
+  });
+
+  it("reads a flow list", () => {
+    expect(parsePnpmWorkspace("packages: [packages/*, 'tools/*']")).toEqual([
+      "packages/*",
+      "tools/*",
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// packageScope / orderByPackageScope
+// ---------------------------------------------------------------------------
+
+describe("packageScope", () => {
+  it("tells cross-package groups from within-package ones", () => {
+    expect(
+      packageScope([makeDeclaration("A", "api"), makeDeclaration("A", "web")]),
+    ).toBe("cross-package");
+    expect(
+      packageScope([makeDeclaration("A", "api"), makeDeclaration("B", "api")]),
+    ).toBe("within-package");
+    expect(packageScope([makeDeclaration("A"), makeDeclaration("A")])).toBe(
+      undefined,
+    );
+  });
+
+  it("lists cross-package groups first, keeping their order", () => {
+    const groups: Array<[string, DeclarationRecord[]]> = [
+      ["A", [makeDeclaration("A", "api"), makeDeclaration("A", "api")]],
+      ["B", [makeDeclaration("B", "api"), makeDeclaration("B", "web")]],
+      ["C", [makeDeclaration("C", "web"), makeDeclaration("C", "web")]],
+      ["D", [makeDeclaration("D", "ui"), makeDeclaration("D", "web")]],
+    ];
+
+    expect(orderByPackageScope(groups).map(([name]) => name)).toEqual([
+      "B",
+      "D",
+      "A",
+      "C",
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// buildPackageMatrix
+// ---------------------------------------------------------------------------
+
+describe("buildPackageMatrix", () => {
+  it("counts groups per pair of packages and within each package", () => {
+    const packages = ["api", "ui", "web"].map(makePackage);
+    const matrix = buildPackageMatrix(
+      [
+        [makeDeclaration("A", "api"), makeDeclaration("A", "web")],
+        [
+          makeDeclaration("B", "api"),
+          makeDeclaration("B", "ui"),
+          makeDeclaration("B", "web"),
+        ],
+        [makeDeclaration("C", "ui"), makeDeclaration("C", "ui")],
+      ],
+      packages,
+    );
+
+    expect(matrix.packages).toBe(packages);
+    expect(matrix.counts).toEqual([
+      [0, 1, 2],
+      [1, 1, 1],
+      [2, 1, 0],
+    ]);
+  });
+});
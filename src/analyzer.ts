@@ -1,13 +1,33 @@
 import path from "node:path";
 import ts from "typescript";
 
-import type { DeclarationKind, DeclarationRecord } from "./types.js";
+import { isComponentFile } from "./components.js";
+import {
+  buildJsDocShape,
+  collectJsDocDeclarations,
+  jsDocSnippet,
+} from "./jsdoc.js";
+import { scriptKindFor } from "./scanner.js";
+import { buildSchemaShape, collectSchemaImports } from "./schema.js";
+import { buildDeclarationShape, serializeShape } from "./shape.js";
+import type {
+  CollectOptions,
+  DeclarationContainer,
+  DeclarationKind,
+  DeclarationMember,
+  DeclarationRecord,
+  DeclarationScope,
+  SchemaKind,
+  ShapeMember,
+  ShapeNode,
+} from "./types.js";
 import {
   escapeRegExp,
   formatSnippet,
   normalizeWhitespace,
   toPosix,
 } from "./utils.js";
+import { buildConstObjectShape } from "./values.js";
 
 // ---------------------------------------------------------------------------
 // AST helpers
@@ -20,7 +40,217 @@ function getLine(sourceFile: ts.SourceFile, node: ts.Node): number {
 }
 
 /**
- * Create a normalised shape string for duplicate comparison.
+ * Find the container a declaration belongs to by walking up through
+ * `namespace` / `declare module` / `declare global` blocks. Declarations
+ * at the top level of a script (no imports or exports) are global, except
+ * in component scripts, which are always scoped to their component.
+ */
+function getContainer(
+  node: ts.Node,
+  sourceFile: ts.SourceFile,
+): DeclarationContainer {
+  const namespaces: string[] = [];
+
+  for (
+    let current = node.parent;
+    current && !ts.isSourceFile(current);
+    current = current.parent
+  ) {
+    if (ts.isModuleDeclaration(current)) {
+      if (current.flags & ts.NodeFlags.GlobalAugmentation) {
+        return { kind: "global", module: null, namespaces };
+      }
+      if (ts.isStringLiteral(current.name)) {
+        return { kind: "module", module: current.name.text, namespaces };
+      }
+      namespaces.unshift(current.name.text);
+    } else if (ts.isBlock(current) || ts.isFunctionLike(current)) {
+      return { kind: "local", module: null, namespaces };
+    }
+  }
+
+  return {
+    kind:
+      ts.isExternalModule(sourceFile) || isComponentFile(sourceFile.fileName)
+        ? "file"
+        : "global",
+    module: null,
+    namespaces,
+  };
+}
+
+/** Name of a function-like node, e.g. `fooFn`, `UserService.load`. */
+function functionName(fn: ts.SignatureDeclaration): string | null {
+  let name: string | null = null;
+  if (ts.isConstructorDeclaration(fn)) {
+    name = "constructor";
+  } else if (fn.name && !ts.isComputedPropertyName(fn.name)) {
+    name = fn.name.text;
+  } else if (
+    (ts.isVariableDeclaration(fn.parent) ||
+      ts.isPropertyAssignment(fn.parent) ||
+      ts.isPropertyDeclaration(fn.parent)) &&
+    ts.isIdentifier(fn.parent.name)
+  ) {
+    name = fn.parent.name.text;
+  }
+
+  if (name && ts.isClassLike(fn.parent) && fn.parent.name) {
+    return `${fn.parent.name.text}.${name}`;
+  }
+  return name;
+}
+
+/** Whether a node is in a `declare` context or a declaration file. */
+function isAmbient(node: ts.Node): boolean {
+  if (node.getSourceFile().isDeclarationFile) return true;
+  for (
+    let current: ts.Node | undefined = node;
+    current;
+    current = current.parent
+  ) {
+    if (
+      ts.canHaveModifiers(current) &&
+      (ts.getModifiers(current) ?? []).some(
+        (m) => m.kind === ts.SyntaxKind.DeclareKeyword,
+      )
+    ) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Classify a declaration's scope and qualify its name by its container:
+ * `Api.User`, `"express".Request`, `<local in fooFn>.Props`.
+ */
+function qualify(
+  node: ts.Node,
+  name: string,
+  container: DeclarationContainer,
+): { qualifiedName: string; scope: DeclarationScope } {
+  if (container.kind === "local") {
+    let owner = "block";
+    for (
+      let current = node.parent;
+      current && !ts.isSourceFile(current);
+      current = current.parent
+    ) {
+      if (ts.isFunctionLike(current)) {
+        owner = functionName(current) ?? "anonymous";
+        break;
+      }
+    }
+    return { qualifiedName: `<local in ${owner}>.${name}`, scope: "local" };
+  }
+
+  const path = [...container.namespaces, name];
+  if (container.kind === "module") path.unshift(`"${container.module}"`);
+
+  let scope: DeclarationScope = "module";
+  if (isAmbient(node)) {
+    scope = "ambient";
+  } else if (container.namespaces.length > 0) {
+    scope = "namespace";
+  }
+  return { qualifiedName: path.join("."), scope };
+}
+
+function hasExportModifier(node: ts.Node): boolean {
+  return (
+    ts.canHaveModifiers(node) &&
+    (ts.getModifiers(node) ?? []).some(
+      (m) => m.kind === ts.SyntaxKind.ExportKeyword,
+    )
+  );
+}
+
+/**
+ * Names exported by `export { Foo }` / `export default Foo` statements
+ * without a module specifier.
+ */
+function collectLocalExports(sourceFile: ts.SourceFile): Set<string> {
+  const names = new Set<string>();
+  for (const statement of sourceFile.statements) {
+    if (
+      ts.isExportDeclaration(statement) &&
+      !statement.moduleSpecifier &&
+      statement.exportClause &&
+      ts.isNamedExports(statement.exportClause)
+    ) {
+      for (const el of statement.exportClause.elements) {
+        names.add((el.propertyName ?? el.name).text);
+      }
+    } else if (
+      ts.isExportAssignment(statement) &&
+      ts.isIdentifier(statement.expression)
+    ) {
+      names.add(statement.expression.text);
+    }
+  }
+  return names;
+}
+
+/**
+ * Whether a declaration is visible outside its module: the declaration and
+ * every enclosing namespace must be exported. Ambient modules and global
+ * declarations are visible by definition.
+ */
+function isExported(
+  node: ts.Node,
+  container: DeclarationContainer,
+  localExports: ReadonlySet<string>,
+): boolean {
+  if (container.kind === "local") return false;
+  if (container.kind !== "file") return true;
+
+  let current: ts.Node = ts.isVariableDeclaration(node)
+    ? node.parent.parent
+    : node;
+  for (;;) {
+    const parent = current.parent;
+    if (ts.isSourceFile(parent)) {
+      const name = ts.getNameOfDeclaration(
+        (ts.isVariableStatement(current) ? node : current) as ts.Declaration,
+      );
+      return (
+        hasExportModifier(current) ||
+        (!!name && ts.isIdentifier(name) && localExports.has(name.text))
+      );
+    }
+    if (ts.isModuleDeclaration(parent)) {
+      // `namespace A.B {}`: B is implicitly exported from A.
+      current = parent;
+    } else if (ts.isModuleBlock(parent) && hasExportModifier(current)) {
+      current = parent.parent;
+    } else {
+      return false;
+    }
+  }
+}
+
+/**
+ * Find where a declaration lives: its container, scope, qualified name and
+ * whether its module exports it.
+ */
+function locate(
+  node: ts.Node,
+  sourceFile: ts.SourceFile,
+  name: string,
+  localExports: ReadonlySet<string>,
+) {
+  const container = getContainer(node, sourceFile);
+  return {
+    container,
+    ...qualify(node, name, container),
+    exported: isExported(node, container, localExports),
+  };
+}
+
+/**
+ * Create a normalised shape string for duplicate comparison (legacy,
+ * text-based strategy — see `shape.ts` for the AST-based default).
  * - Strips comments & whitespace
  * - Replaces the declaration name with `__NAME__` (globally)
  * - Normalises `interface` vs `type` keyword differences
@@ -48,40 +278,54 @@ export function normalizeShape(rawSnippet: string, name: string): string {
 }
 
 // ---------------------------------------------------------------------------
-// Property extraction
+// Member extraction
 // ---------------------------------------------------------------------------
 
-function extractPropertyNames(
-  node: ts.Node,
-  sourceFile: ts.SourceFile,
-): string[] {
-  const names: string[] = [];
+/** Name a member is listed under: `()`, `new()`, `[string]` or its own. */
+function memberDisplayName(member: ShapeMember): string {
+  switch (member.kind) {
+    case "call":
+      return "()";
+    case "construct":
+      return "new()";
+    default:
+      return member.name;
+  }
+}
 
-  if (ts.isInterfaceDeclaration(node)) {
-    for (const member of node.members) {
-      if (ts.isPropertySignature(member) && member.name) {
-        names.push(member.name.getText(sourceFile));
-      }
-    }
-  } else if (
-    ts.isTypeAliasDeclaration(node) &&
-    node.type &&
-    ts.isTypeLiteralNode(node.type)
-  ) {
-    for (const member of node.type.members) {
-      if (ts.isPropertySignature(member) && member.name) {
-        names.push(member.name.getText(sourceFile));
-      }
-    }
-  } else if (ts.isEnumDeclaration(node)) {
-    for (const member of node.members) {
-      if (member.name) {
-        names.push(member.name.getText(sourceFile));
-      }
-    }
+/**
+ * Members a declaration declares itself: every member of an object shape,
+ * or of the object parts of an intersection (`interface X extends Base`
+ * lists its own body only). Enum members count as readonly properties.
+ */
+export function extractMembers(shape: ShapeNode | null): DeclarationMember[] {
+  if (!shape) return [];
+  if (shape.kind === "generic") return extractMembers(shape.type);
+  if (shape.kind === "enum") {
+    return shape.members.map((m) => ({
+      kind: "property",
+      name: m.name,
+      optional: false,
+      readonly: true,
+    }));
   }
 
-  return names.sort();
+  const parts = shape.kind === "intersection" ? shape.types : [shape];
+  return parts.flatMap((part) =>
+    part.kind === "object"
+      ? part.members.map((m) => ({
+          kind: m.kind,
+          name: memberDisplayName(m),
+          optional: m.optional,
+          readonly: m.readonly,
+        }))
+      : [],
+  );
+}
+
+/** Distinct member names, sorted, for `propertyNames`. */
+export function memberNames(members: DeclarationMember[]): string[] {
+  return [...new Set(members.map((m) => m.name))].sort();
 }
 
 // ---------------------------------------------------------------------------
@@ -124,9 +368,13 @@ function collectReExportRecords(
         kind: "reexport",
         file: relativeFile,
         line: getLine(sourceFile, statement),
+        ...locate(statement, sourceFile, exportedName, new Set()),
+        exported: true,
         snippet: formatSnippet(stmtSnippet),
         normalizedShape: normalizeShape(stmtSnippet, exportedName),
+        shape: null,
         isReExport: true,
+        members: [],
         propertyCount: 0,
         propertyNames: [],
       });
@@ -140,14 +388,42 @@ function collectReExportRecords(
 // Declaration collection (single file)
 // ---------------------------------------------------------------------------
 
+/** Source text of `const X = ...`, or just the declarator in a list. */
+function variableSnippet(
+  node: ts.VariableDeclaration,
+  sourceFile: ts.SourceFile,
+  sourceText: string,
+): string {
+  const statement = node.parent.parent;
+  const snippetNode =
+    ts.isVariableStatement(statement) &&
+    statement.declarationList.declarations.length === 1
+      ? statement
+      : node;
+  return sourceText.slice(snippetNode.getStart(sourceFile), snippetNode.end);
+}
+
+function isShapedDeclaration(
+  node: ts.Node,
+): node is
+  | ts.InterfaceDeclaration
+  | ts.TypeAliasDeclaration
+  | ts.EnumDeclaration
+  | (ts.ClassDeclaration & { name: ts.Identifier }) {
+  return (
+    ts.isInterfaceDeclaration(node) ||
+    ts.isTypeAliasDeclaration(node) ||
+    ts.isEnumDeclaration(node) ||
+    (ts.isClassDeclaration(node) && !!node.name)
+  );
+}
+
 export function collectDeclarations(
   file: string,
   sourceText: string,
-  options: { includeEnums: boolean },
+  options: CollectOptions,
 ): DeclarationRecord[] {
-  const scriptKind = file.endsWith(".tsx")
-    ? ts.ScriptKind.TSX
-    : ts.ScriptKind.TS;
+  const scriptKind = scriptKindFor(file);
 
   const sourceFile = ts.createSourceFile(
     file,
@@ -160,43 +436,159 @@ export function collectDeclarations(
   const records: DeclarationRecord[] = [];
   const relativeFile = toPosix(path.relative(process.cwd(), file));
 
+  const legacyShapes = options.shapeStrategy === "legacy";
+
   records.push(...collectReExportRecords(sourceFile, sourceText, relativeFile));
 
+  const localExports = collectLocalExports(sourceFile);
+
+  const schemaImports = collectSchemaImports(sourceFile);
+  const scanSchemas =
+    schemaImports.namespaces.size > 0 || schemaImports.functions.size > 0;
+  const knownSchemas = new Map<string, SchemaKind>();
+
   function visit(node: ts.Node): void {
     let kind: DeclarationKind | null = null;
-    let name: string | null = null;
 
     if (ts.isInterfaceDeclaration(node)) {
       kind = "interface";
-      name = node.name.text;
     } else if (ts.isTypeAliasDeclaration(node)) {
       kind = "type";
-      name = node.name.text;
     } else if (ts.isEnumDeclaration(node) && options.includeEnums) {
       kind = "enum";
-      name = node.name.text;
+    } else if (ts.isClassDeclaration(node) && options.includeClasses) {
+      kind = "class";
     }
 
-    if (kind && name) {
+    if (kind && isShapedDeclaration(node)) {
+      const name = node.name.text;
       const snippet = sourceText.slice(node.getStart(sourceFile), node.end);
-      const propertyNames = extractPropertyNames(node, sourceFile);
+      const shape = buildDeclarationShape(node, sourceFile);
+      const members = extractMembers(shape);
+      const propertyNames = memberNames(members);
 
       records.push({
         name,
         kind,
         file: relativeFile,
         line: getLine(sourceFile, node),
+        ...locate(node, sourceFile, name, localExports),
         snippet: formatSnippet(snippet),
-        normalizedShape: normalizeShape(snippet, name),
+        normalizedShape: legacyShapes
+          ? normalizeShape(snippet, name)
+          : serializeShape(shape),
+        shape,
         isReExport: false,
+        members,
         propertyCount: propertyNames.length,
         propertyNames,
       });
     }
 
+    if (scanSchemas && ts.isVariableDeclaration(node)) {
+      const schema = buildSchemaShape(
+        node,
+        schemaImports,
+        knownSchemas,
+        sourceFile,
+      );
+      if (schema && ts.isIdentifier(node.name)) {
+        const name = node.name.text;
+        const snippet = variableSnippet(node, sourceFile, sourceText);
+        const members =
+          schema.shape.kind === "object" ? extractMembers(schema.shape) : [];
+        const propertyNames = memberNames(members);
+        knownSchemas.set(name, schema.kind);
+
+        records.push({
+          name,
+          kind: schema.kind,
+          file: relativeFile,
+          line: getLine(sourceFile, node),
+          ...locate(node, sourceFile, name, localExports),
+          snippet: formatSnippet(snippet),
+          normalizedShape: legacyShapes
+            ? normalizeShape(snippet, name)
+            : serializeShape(schema.shape),
+          shape: schema.shape,
+          isReExport: false,
+          members,
+          propertyCount: propertyNames.length,
+          propertyNames,
+        });
+      }
+    }
+
+    // `as const` objects only take part in value-set comparison, and only
+    // module-level ones stand for a set of values.
+    if (
+      options.includeConstObjects &&
+      ts.isVariableDeclaration(node) &&
+      ts.isIdentifier(node.name) &&
+      getContainer(node, sourceFile).kind !== "local"
+    ) {
+      const shape = buildConstObjectShape(node, sourceFile);
+      if (shape?.kind === "object") {
+        const name = node.name.text;
+        const snippet = variableSnippet(node, sourceFile, sourceText);
+        const members = extractMembers(shape);
+        const propertyNames = memberNames(members);
+
+        records.push({
+          name,
+          kind: "const",
+          file: relativeFile,
+          line: getLine(sourceFile, node),
+          ...locate(node, sourceFile, name, localExports),
+          snippet: formatSnippet(snippet),
+          normalizedShape: legacyShapes
+            ? normalizeShape(snippet, name)
+            : serializeShape(shape),
+          shape,
+          isReExport: false,
+          members,
+          propertyCount: propertyNames.length,
+          propertyNames,
+        });
+      }
+    }
+
     ts.forEachChild(node, visit);
   }
 
   visit(sourceFile);
+
+  // JSDoc `@typedef` / `@callback` only declare types in JavaScript files.
+  if (scriptKind === ts.ScriptKind.JS || scriptKind === ts.ScriptKind.JSX) {
+    for (const declaration of collectJsDocDeclarations(sourceFile)) {
+      const { tag, name, host } = declaration;
+      const snippet = jsDocSnippet(tag, sourceFile);
+      const shape = buildJsDocShape(declaration, sourceFile);
+      const members = extractMembers(shape);
+      const propertyNames = memberNames(members);
+      const container = getContainer(host, sourceFile);
+
+      records.push({
+        name,
+        kind: ts.isJSDocTypedefTag(tag) ? "typedef" : "callback",
+        file: relativeFile,
+        line: getLine(sourceFile, tag),
+        container,
+        ...qualify(host, name, container),
+        // Typedefs are visible wherever the file's other declarations are.
+        exported: container.kind !== "local",
+        snippet: formatSnippet(snippet),
+        normalizedShape: legacyShapes
+          ? normalizeShape(snippet, name)
+          : serializeShape(shape),
+        shape,
+        isReExport: false,
+        members,
+        propertyCount: propertyNames.length,
+        propertyNames,
+      });
+    }
+  }
+
   return records;
 }
@@ -1,5 +1,18 @@
-import type { CliOptions, Mode, OutputFormat } from "./types.js";
-import { MODES, OUTPUT_FORMATS } from "./types.js";
+import { DEFAULT_SIMILARITY } from "./constants.js";
+import { listNameRules, parseNameRules } from "./naming.js";
+import type {
+  CliOptions,
+  Mode,
+  OutputFormat,
+  ShapeStrategy,
+  SortOrder,
+} from "./types.js";
+import {
+  MODES,
+  OUTPUT_FORMATS,
+  SHAPE_STRATEGIES,
+  SORT_ORDERS,
+} from "./types.js";
 
 // ---------------------------------------------------------------------------
 // Helpers for argument parsing
@@ -62,16 +75,34 @@ function readEnumArg<T extends string>(
 
 export function parseArgs(argv: string[]): CliOptions {
   const options: CliOptions = {
-    root: "src",
+    roots: [],
     mode: "both",
     minCount: 2,
     format: "text",
     outputFile: null,
     failOnDuplicates: false,
-    tsconfig: null,
+    tsconfigs: [],
+    workspaces: false,
     exclude: [],
+    include: [],
+    includeJs: false,
     includeEnums: true,
+    includeClasses: true,
+    includeLocals: true,
+    qualifiedNames: false,
+    nameRules: [],
+    listNameRules: false,
+    entries: [],
+    publicOnly: false,
+    sort: "size",
     skipReExports: true,
+    shapeStrategy: "ast",
+    similarity: DEFAULT_SIMILARITY,
+    subsets: false,
+    valueSets: false,
+    semantic: false,
+    reportMerges: false,
+    barrelConflicts: false,
     help: false,
   };
 
@@ -96,14 +127,66 @@ export function parseArgs(argv: string[]): CliOptions {
       options.failOnDuplicates = true;
       continue;
     }
+    if (arg === "--workspaces") {
+      options.workspaces = true;
+      continue;
+    }
+    if (arg === "--include-js") {
+      options.includeJs = true;
+      continue;
+    }
     if (arg === "--no-enums") {
       options.includeEnums = false;
       continue;
     }
+    if (arg === "--no-classes") {
+      options.includeClasses = false;
+      continue;
+    }
+    if (arg === "--no-locals") {
+      options.includeLocals = false;
+      continue;
+    }
+    if (arg === "--qualified-names") {
+      options.qualifiedNames = true;
+      continue;
+    }
+    if (arg === "--normalize-names") {
+      options.nameRules.push("default");
+      continue;
+    }
+    if (arg === "--list-name-rules") {
+      options.listNameRules = true;
+      continue;
+    }
+    if (arg === "--public-only") {
+      options.publicOnly = true;
+      continue;
+    }
     if (arg === "--include-reexports") {
       options.skipReExports = false;
       continue;
     }
+    if (arg === "--subsets") {
+      options.subsets = true;
+      continue;
+    }
+    if (arg === "--value-sets") {
+      options.valueSets = true;
+      continue;
+    }
+    if (arg === "--report-merges") {
+      options.reportMerges = true;
+      continue;
+    }
+    if (arg === "--barrel-conflicts") {
+      options.barrelConflicts = true;
+      continue;
+    }
+    if (arg === "--semantic") {
+      options.semantic = true;
+      continue;
+    }
 
     // ── Enum flags ────────────────────────────────────────────────────
     const formatResult = readEnumArg<OutputFormat>(
@@ -125,6 +208,25 @@ export function parseArgs(argv: string[]): CliOptions {
       continue;
     }
 
+    const shapeStrategyResult = readEnumArg<ShapeStrategy>(
+      argv,
+      i,
+      "--shape-strategy",
+      SHAPE_STRATEGIES,
+    );
+    if (shapeStrategyResult) {
+      options.shapeStrategy = shapeStrategyResult.value;
+      i = shapeStrategyResult.nextIndex;
+      continue;
+    }
+
+    const sortResult = readEnumArg<SortOrder>(argv, i, "--sort", SORT_ORDERS);
+    if (sortResult) {
+      options.sort = sortResult.value;
+      i = sortResult.nextIndex;
+      continue;
+    }
+
     // ── String flags ──────────────────────────────────────────────────
     const outputResult =
       readStringArg(argv, i, "--output") ?? readStringArg(argv, i, "--out");
@@ -134,21 +236,21 @@ export function parseArgs(argv: string[]): CliOptions {
       continue;
     }
 
+    // ── Repeatable / special flags ────────────────────────────────────
     const rootResult = readStringArg(argv, i, "--root");
     if (rootResult) {
-      options.root = rootResult.value;
+      options.roots.push(rootResult.value);
       i = rootResult.nextIndex;
       continue;
     }
 
     const tsconfigResult = readStringArg(argv, i, "--tsconfig");
     if (tsconfigResult) {
-      options.tsconfig = tsconfigResult.value;
+      options.tsconfigs.push(tsconfigResult.value);
       i = tsconfigResult.nextIndex;
       continue;
     }
 
-    // ── Repeatable / special flags ────────────────────────────────────
     const excludeResult = readStringArg(argv, i, "--exclude");
     if (excludeResult) {
       options.exclude.push(...excludeResult.value.split(","));
@@ -156,6 +258,27 @@ export function parseArgs(argv: string[]): CliOptions {
       continue;
     }
 
+    const includeResult = readStringArg(argv, i, "--include");
+    if (includeResult) {
+      options.include.push(...includeResult.value.split(","));
+      i = includeResult.nextIndex;
+      continue;
+    }
+
+    const nameRulesResult = readStringArg(argv, i, "--name-rules");
+    if (nameRulesResult) {
+      options.nameRules.push(...nameRulesResult.value.split(","));
+      i = nameRulesResult.nextIndex;
+      continue;
+    }
+
+    const entryResult = readStringArg(argv, i, "--entry");
+    if (entryResult) {
+      options.entries.push(...entryResult.value.split(","));
+      i = entryResult.nextIndex;
+      continue;
+    }
+
     // ── --min (numeric) ───────────────────────────────────────────────
     const minResult = readStringArg(argv, i, "--min");
     if (minResult) {
@@ -167,8 +290,40 @@ export function parseArgs(argv: string[]): CliOptions {
       i = minResult.nextIndex;
       continue;
     }
+
+    // ── --similarity (numeric) ────────────────────────────────────────
+    const similarityResult = readStringArg(argv, i, "--similarity");
+    if (similarityResult) {
+      const value = Number(similarityResult.value);
+      if (!Number.isFinite(value) || value <= 0 || value > 1) {
+        throw new Error(
+          "Invalid value for --similarity; expected number in (0, 1]",
+        );
+      }
+      options.similarity = value;
+      i = similarityResult.nextIndex;
+      continue;
+    }
   }
 
+  if (options.semantic && options.tsconfigs.length === 0) {
+    throw new Error("--semantic requires --tsconfig");
+  }
+  if (options.workspaces && options.tsconfigs.length > 0) {
+    throw new Error(
+      "--workspaces can't be combined with --tsconfig; each package's own tsconfig.json is used",
+    );
+  }
+  if (options.workspaces && options.roots.length > 1) {
+    throw new Error("--workspaces takes a single --root: the workspace root");
+  }
+  // Without inputs, scan `src`, or the workspace in the working directory.
+  if (options.roots.length === 0 && options.tsconfigs.length === 0) {
+    options.roots.push(options.workspaces ? "." : "src");
+  }
+  // Reject unknown name rules before scanning.
+  parseNameRules(options.nameRules);
+
   return options;
 }
 
@@ -183,14 +338,52 @@ Usage:
   npx typehunt [options]
 
 Options:
-  --root <path>             Root directory to scan (default: src)
-  --tsconfig <path>         Path to tsconfig.json — respects include/exclude
-  --mode <name|shape|both>  Duplicate detection mode (default: both)
+  --root <path>             Root directory to scan (repeatable; default: src)
+  --tsconfig <path>         Path to a tsconfig.json (repeatable) — respects
+                            include/exclude and follows project references.
+                            Files of all roots and tsconfigs are merged
+  --mode <name|shape|both|similar>
+                            Duplicate detection mode (default: both)
+  --similarity <0-1>        Member overlap threshold for --mode similar (default: 0.8)
   --min <number>            Minimum duplicates per group (default: 2)
-  --exclude <token,...>     Exclude by matching tokens against relative paths (repeatable).
-                            Match rules: equals, prefix (token/...), or substring.
+  --sort <size|impact>      Order groups by occurrences or by how many files
+                            use them (default: size)
+  --shape-strategy <ast|legacy>  Shape comparison strategy (default: ast).
+                            "legacy" keeps the old text-based normalisation.
+  --exclude <glob,...>      Exclude paths matching globs (repeatable): **, *, ?,
+                            {a,b} and !negation; substring:<text> matches anywhere
+  --include <glob,...>      Only scan files matching globs (repeatable)
+  --workspaces              Scan each package of an npm / yarn / pnpm workspace
+                            (with its own tsconfig.json) and report duplicates
+                            across packages separately; --root is the workspace
+                            root (default: .)
+  --include-js              Also scan .js/.jsx/.mjs/.cjs files for JSDoc @typedef
+                            and @callback declarations
   --no-enums                Skip enum declarations
-  --include-reexports       Include re-exports (excluded by default)
+  --no-classes              Skip class declarations
+  --no-locals               Skip declarations inside function or block bodies
+  --qualified-names         Group names by qualified name (Api.User,
+                            <local in fn>.Props) instead of the bare name
+  --normalize-names         Group names across naming conventions (IUser, UserDto,
+                            user_dto) with the default rules
+  --name-rules <rule,...>   Name normalisation rules (repeatable): default, case,
+                            words, prefix:<text>, suffix:<text>
+  --list-name-rules         List the default name normalisation rules
+  --entry <file,...>        Public entry points (repeatable; default: package.json
+                            "exports" and "types")
+  --public-only             Only consider declarations reachable from an entry point
+  --include-reexports       Include re-exports that don't resolve to a scanned
+                            declaration (excluded by default)
+  --subsets                 Report types whose members are a subset of another's
+  --value-sets              Report enums, literal unions and as const objects
+                            with the same values
+  --report-merges           List merged declarations (declare global, module
+                            augmentations, interface merging)
+  --barrel-conflicts        Report names two export * of one barrel take from
+                            different declarations
+  --semantic                Group types the type checker finds mutually assignable
+                            (requires --tsconfig; uses the compiler options of
+                            the first --tsconfig)
   --format <text|json|markdown>  Output format (default: text)
   --json                    Shortcut for --format json
   --markdown, --md          Shortcut for --format markdown
@@ -201,8 +394,29 @@ Options:
 Examples:
   npx typehunt
   npx typehunt --tsconfig tsconfig.json
+  npx typehunt --root apps/web/src --root packages/shared --tsconfig legacy/tsconfig.json
   npx typehunt --root src --mode shape --json
+  npx typehunt --mode similar --similarity 0.75
   npx typehunt --markdown --output report.md
   npx typehunt --exclude generated,src/vendor,.storybook
+  npx typehunt --include "src/**/*.ts" --exclude "**/*.generated.ts"
+  npx typehunt --public-only --entry src/index.ts
+  npx typehunt --workspaces --markdown --output report.md
+  npx typehunt --sort impact --markdown
+  npx typehunt --name-rules default,suffix:Entity
 `);
 }
+
+export function printNameRules(): void {
+  const rules = listNameRules();
+  const width = Math.max(...rules.map((rule) => rule.spec.length)) + 2;
+  console.log(
+    "Default name rules (--normalize-names, --name-rules default):\n",
+  );
+  for (const rule of rules) {
+    console.log(`  ${rule.spec.padEnd(width)}${rule.description}`);
+  }
+  console.log(
+    "\nAdd your own with --name-rules prefix:<text> or suffix:<text>.",
+  );
+}
@@ -1,28 +1,62 @@
 #!/usr/bin/env node
 
-import { promises as fs } from "node:fs";
+import { existsSync, promises as fs } from "node:fs";
 import path from "node:path";
 
 import { collectDeclarations } from "./analyzer.js";
-import { parseArgs, printHelp } from "./args.js";
+import { parseArgs, printHelp, printNameRules } from "./args.js";
+import { extractComponentScript, isComponentFile } from "./components.js";
+import { findSubsetRelations } from "./containment.js";
+import { findShapeDivergences } from "./divergence.js";
 import { FILE_READ_CONCURRENCY, MAX_DISPLAYED_ERRORS } from "./constants.js";
+import { findEnumConflicts } from "./enums.js";
+import { expandUtilityTypes } from "./expansion.js";
 import {
   buildJsonPayload,
   printTextReport,
   renderMarkdown,
   renderTextReport,
 } from "./formatter.js";
+import { mergeDeclarations } from "./merging.js";
+import { normalizeName, parseNameRules } from "./naming.js";
+import { collapseReExports, findBarrelConflicts } from "./reexports.js";
 import {
+  applyPathFilters,
+  getModuleResolution,
+  getTsConfigProjects,
   getTypeFilesFromDirectory,
-  getTypeFilesFromTsConfig,
 } from "./scanner.js";
-import type { DeclarationRecord, FileError } from "./types.js";
+import { findSchemaFindings, isSchemaKind, withoutSchemas } from "./schema.js";
+import { createSemanticProgram, findSemanticGroups } from "./semantic.js";
+import { findSimilarGroups } from "./similarity.js";
 import {
-  filterDuplicateGroups,
-  groupBy,
-  matchesExclude,
-  toPosix,
-} from "./utils.js";
+  collectModuleExports,
+  findPublicNames,
+  markVisibility,
+  readPackageEntries,
+  resolveEntryFile,
+} from "./surface.js";
+import { groupShapesTransitively } from "./transitive.js";
+import { countUsages, sortGroupsByImpact } from "./usage.js";
+import type {
+  CollectOptions,
+  DeclarationRecord,
+  FileError,
+  FileSource,
+  ModuleExports,
+  ModuleResolution,
+  ReportSections,
+  TsConfigProject,
+  WorkspacePackage,
+} from "./types.js";
+import { filterDuplicateGroups, groupBy, toPosix } from "./utils.js";
+import { findValueSetGroups } from "./values.js";
+import {
+  buildPackageMatrix,
+  discoverWorkspacePackages,
+  getWorkspaceFiles,
+  orderByPackageScope,
+} from "./workspaces.js";
 
 // ---------------------------------------------------------------------------
 // Parallel file reading
@@ -34,9 +68,14 @@ import {
  */
 async function collectAllDeclarations(
   files: string[],
-  options: { includeEnums: boolean },
-): Promise<{ declarations: DeclarationRecord[]; errors: FileError[] }> {
+  options: CollectOptions,
+): Promise<{
+  declarations: DeclarationRecord[];
+  modules: Map<string, ModuleExports>;
+  errors: FileError[];
+}> {
   const declarations: DeclarationRecord[] = [];
+  const modules = new Map<string, ModuleExports>();
   const errors: FileError[] = [];
 
   for (let offset = 0; offset < files.length; offset += FILE_READ_CONCURRENCY) {
@@ -45,11 +84,15 @@ async function collectAllDeclarations(
     const results = await Promise.all(
       batch.map(async (file) => {
         try {
-          const sourceText = await fs.readFile(file, "utf8");
+          const fileText = await fs.readFile(file, "utf8");
+          const sourceText = isComponentFile(file)
+            ? extractComponentScript(file, fileText)
+            : fileText;
           return {
             ok: true as const,
             file,
             records: collectDeclarations(file, sourceText, options),
+            exports: collectModuleExports(file, sourceText),
           };
         } catch (err) {
           return {
@@ -64,13 +107,37 @@ async function collectAllDeclarations(
     for (const result of results) {
       if (result.ok) {
         declarations.push(...result.records);
+        modules.set(result.exports.file, result.exports);
       } else {
         errors.push({ file: result.file, error: result.error });
       }
     }
   }
 
-  return { declarations, errors };
+  return { declarations, modules, errors };
+}
+
+// ---------------------------------------------------------------------------
+// File source
+// ---------------------------------------------------------------------------
+
+/**
+ * `tsconfig (tsconfig.json)`, plus the projects files came from when the
+ * config references others, e.g. `tsconfig (tsconfig.json; projects:
+ * packages/a/tsconfig.json 12 files, packages/b/tsconfig.json 3 files)`.
+ */
+function describeTsConfigSource(
+  tsconfig: string,
+  projects: TsConfigProject[],
+): string {
+  if (projects.length <= 1) return `tsconfig (${tsconfig})`;
+  const listed = projects
+    .filter((p) => p.files.length > 0)
+    .map(
+      (p) =>
+        `${p.tsconfig} ${p.files.length} ${p.files.length === 1 ? "file" : "files"}`,
+    );
+  return `tsconfig (${tsconfig}; projects: ${listed.join(", ") || "none"})`;
 }
 
 // ---------------------------------------------------------------------------
@@ -101,31 +168,74 @@ async function run(): Promise<number> {
     printHelp();
     return 0;
   }
+  if (options.listNameRules) {
+    printNameRules();
+    return 0;
+  }
 
   // ── File discovery ────────────────────────────────────────────────────
-  let files: string[];
-  let fileSource: string;
-
-  if (options.tsconfig) {
-    files = getTypeFilesFromTsConfig(options.tsconfig);
-    fileSource = `tsconfig (${options.tsconfig})`;
-
-    if (options.exclude.length > 0) {
-      files = files.filter((f) => {
-        const rel = toPosix(path.relative(process.cwd(), f));
-        return !matchesExclude(rel, options.exclude);
-      });
-    }
-  } else {
-    const rootPath = path.resolve(process.cwd(), options.root);
+  // Files of all inputs are merged, tsconfigs first; a file listed by
+  // several inputs is scanned once, for the first.
+  const files: string[] = [];
+  const listed = new Set<string>();
+  const fileSources: FileSource[] = [];
+  const addSource = (label: string, sourceFiles: string[]) => {
+    for (const file of sourceFiles) listed.add(file);
+    files.push(...sourceFiles);
+    fileSources.push({ label, files: sourceFiles.length });
+  };
+  const isNew = (file: string) => !listed.has(file);
+  let packageDirs: string[] = [];
+  let packages: WorkspacePackage[] = [];
+  let packageOf = new Map<string, WorkspacePackage>();
+  const projects: TsConfigProject[] = [];
+
+  if (options.workspaces) {
+    const [root = "."] = options.roots;
+    packageDirs = [path.resolve(process.cwd(), root)];
+    packages = await discoverWorkspacePackages(packageDirs[0] ?? root);
+    const workspace = await getWorkspaceFiles(packages, options);
+    packageOf = workspace.owners;
+    projects.push(...workspace.projects);
+    addSource(`workspaces (${packages.length} packages in ${root})`, [
+      ...packageOf.keys(),
+    ]);
+  }
+
+  for (const tsconfig of options.tsconfigs) {
+    const tsconfigProjects = getTsConfigProjects(
+      tsconfig,
+      options.includeJs,
+    ).map((p) => ({
+      ...p,
+      files: applyPathFilters(p.files, options.exclude, options.include).filter(
+        isNew,
+      ),
+    }));
+    projects.push(...tsconfigProjects);
+    packageDirs.push(path.dirname(path.resolve(process.cwd(), tsconfig)));
+    addSource(
+      describeTsConfigSource(tsconfig, tsconfigProjects),
+      tsconfigProjects.flatMap((p) => p.files),
+    );
+  }
+
+  for (const root of options.workspaces ? [] : options.roots) {
+    const rootPath = path.resolve(process.cwd(), root);
     const stat = await fs.stat(rootPath).catch(() => null);
     if (!stat?.isDirectory()) {
       throw new Error(
-        `Root path does not exist or is not a directory: ${options.root}`,
+        `Root path does not exist or is not a directory: ${root}`,
       );
     }
-    files = await getTypeFilesFromDirectory(rootPath, options.exclude);
-    fileSource = `directory walk (${options.root})`;
+    packageDirs.push(rootPath);
+    const rootFiles = await getTypeFilesFromDirectory(
+      rootPath,
+      options.exclude,
+      options.includeJs,
+      options.include,
+    );
+    addSource(`directory walk (${root})`, rootFiles.filter(isNew));
   }
 
   if (files.length === 0) {
@@ -135,10 +245,50 @@ async function run(): Promise<number> {
     return 0;
   }
 
+  // ── Module resolution (tsconfig paths / baseUrl) ─────────────────────
+  // `paths` come from the first tsconfig given.
+  let resolution: ModuleResolution | null = null;
+  const [firstTsconfig] = options.tsconfigs;
+  if (firstTsconfig) {
+    resolution = getModuleResolution(firstTsconfig);
+  } else {
+    // Without --tsconfig, a tsconfig next to the (first) root or in the
+    // working directory is used when it parses.
+    const found = [
+      path.join(packageDirs[0] ?? ".", "tsconfig.json"),
+      "tsconfig.json",
+    ].find((candidate) => existsSync(candidate));
+    try {
+      resolution = found ? getModuleResolution(found) : null;
+    } catch {
+      resolution = null;
+    }
+  }
+
   // ── Collect declarations (parallel batches) ───────────────────────────
-  const { declarations, errors } = await collectAllDeclarations(files, {
+  const collected = await collectAllDeclarations(files, {
     includeEnums: options.includeEnums,
+    includeClasses: options.includeClasses,
+    shapeStrategy: options.shapeStrategy,
+    includeConstObjects: options.valueSets,
   });
+  const { modules, errors } = collected;
+
+  // ── Package & project tags ───────────────────────────────────────────
+  const projectOf = new Map(
+    projects.flatMap((p) => p.files.map((f) => [f, p.tsconfig] as const)),
+  );
+  const declarations =
+    packageOf.size > 0 || projectOf.size > 0
+      ? collected.declarations.map((d) => {
+          const file = path.resolve(process.cwd(), d.file);
+          return {
+            ...d,
+            package: packageOf.get(file)?.name,
+            project: projectOf.get(file),
+          };
+        })
+      : collected.declarations;
 
   if (errors.length > 0 && options.format === "text") {
     console.error(`\n⚠ Skipped ${errors.length} file(s) with read errors:`);
@@ -150,21 +300,195 @@ async function run(): Promise<number> {
     }
   }
 
-  // ── Filter re-exports ────────────────────────────────────────────────
-  const effectiveDeclarations = options.skipReExports
-    ? declarations.filter((d) => !d.isReExport)
-    : declarations;
+  // ── Entry points of the public API ────────────────────────────────────
+  // Each root, tsconfig folder or workspace package reads the nearest
+  // package.json at or above it, when there are exported declarations to
+  // tag. One that doesn't parse only stops --public-only; otherwise every
+  // declaration is treated as public.
+  const entryDirs = options.workspaces
+    ? packages.map((p) => p.dir)
+    : packageDirs;
+  const unreadableManifests: string[] = [];
+  const readEntries = (dir: string) =>
+    readPackageEntries(dir).catch((error: unknown) => {
+      if (options.publicOnly) throw error;
+      unreadableManifests.push(
+        error instanceof Error ? error.message : String(error),
+      );
+      return [];
+    });
+  const entries =
+    options.entries.length > 0
+      ? options.entries.map((entry) =>
+          toPosix(path.relative(process.cwd(), path.resolve(entry))),
+        )
+      : options.publicOnly || declarations.some((d) => d.exported)
+        ? [
+            ...new Set(
+              (
+                await Promise.all(entryDirs.map((dir) => readEntries(dir)))
+              ).flat(),
+            ),
+          ]
+        : [];
+
+  // ── Public / internal split ──────────────────────────────────────────
+  const entryFiles = entries.flatMap(
+    (entry) => resolveEntryFile(entry, modules) ?? [],
+  );
+  if (options.publicOnly && entryFiles.length === 0) {
+    throw new Error(
+      '--public-only needs an entry point: add "exports" or "types" to package.json, or pass --entry',
+    );
+  }
+  for (const message of unreadableManifests) {
+    console.error(`⚠ ${message}; treating every declaration as public`);
+  }
+  const classifiedDeclarations =
+    unreadableManifests.length > 0
+      ? declarations.map((d) => ({ ...d, visibility: "public" as const }))
+      : entryFiles.length > 0
+        ? markVisibility(
+            declarations,
+            findPublicNames(entryFiles, modules, resolution),
+          )
+        : declarations;
+
+  // ── Re-export chains ─────────────────────────────────────────────────
+  const resolvedDeclarations = countUsages(
+    collapseReExports(classifiedDeclarations, modules, resolution),
+    modules,
+    resolution,
+  );
+
+  // ── Filter re-exports, locals & internals ────────────────────────────
+  const scannedDeclarations = resolvedDeclarations.filter(
+    (d) =>
+      !(options.skipReExports && d.isReExport) &&
+      (options.includeLocals || d.scope !== "local") &&
+      (!options.publicOnly || d.visibility === "public"),
+  );
+
+  // ── Collapse declaration merges ──────────────────────────────────────
+  const { declarations: effectiveDeclarations, merges } = mergeDeclarations(
+    scannedDeclarations,
+    options.shapeStrategy,
+  );
+
+  // ── Expand utility types ─────────────────────────────────────────────
+  const expandedDeclarations =
+    options.shapeStrategy === "ast"
+      ? expandUtilityTypes(effectiveDeclarations)
+      : effectiveDeclarations;
 
   // ── Group & filter ────────────────────────────────────────────────────
-  const nameGroups = filterDuplicateGroups(
-    groupBy(effectiveDeclarations, (d) => d.name),
-    options.minCount,
+  // `as const` objects are values: they only take part in value-set groups.
+  const shapeDeclarations = expandedDeclarations.filter(
+    (d) => d.kind !== "const",
+  );
+  // Schemas only take part in shape groups and schema findings.
+  const typeDeclarations = withoutSchemas(shapeDeclarations);
+  // Workspace reports list cross-package groups before within-package ones.
+  const order = <T extends [string, DeclarationRecord[]]>(groups: T[]) => {
+    const sorted =
+      options.sort === "impact" ? sortGroupsByImpact(groups) : groups;
+    return options.workspaces ? orderByPackageScope(sorted) : sorted;
+  };
+  const nameRules = parseNameRules(options.nameRules);
+  const nameGroups = order(
+    filterDuplicateGroups(
+      groupBy(typeDeclarations, (d) =>
+        normalizeName(
+          options.qualifiedNames ? d.qualifiedName : d.name,
+          nameRules,
+        ),
+      ),
+      options.minCount,
+    ),
   );
-  const shapeGroups = filterDuplicateGroups(
-    groupBy(effectiveDeclarations, (d) => d.normalizedShape),
-    options.minCount,
+  const transitive =
+    options.shapeStrategy === "ast"
+      ? groupShapesTransitively(shapeDeclarations)
+      : null;
+  const allShapeGroups =
+    transitive?.groups ?? groupBy(shapeDeclarations, (d) => d.normalizedShape);
+  const shapeGroups = order(
+    filterDuplicateGroups(allShapeGroups, options.minCount),
   );
 
+  const similarGroups =
+    options.mode === "similar"
+      ? findSimilarGroups(
+          typeDeclarations,
+          options.similarity,
+          options.minCount,
+        )
+      : [];
+  const sections: ReportSections = { similarGroups };
+  if (transitive) {
+    sections.nestedShapeMatches = transitive.nested;
+  }
+  if (options.subsets) {
+    // Before expansion: `Pick<User, "id">` derives from User, it's no copy.
+    sections.subsetRelations = findSubsetRelations(
+      withoutSchemas(effectiveDeclarations.filter((d) => d.kind !== "const")),
+    );
+  }
+  if (options.reportMerges) {
+    sections.declarationMerges = merges;
+  }
+  if (options.barrelConflicts) {
+    const barrelConflicts = findBarrelConflicts(modules, resolution);
+    if (barrelConflicts.length > 0) {
+      sections.barrelConflicts = barrelConflicts;
+    }
+  }
+  if (options.valueSets) {
+    const valueSetGroups = findValueSetGroups(
+      expandedDeclarations,
+      options.minCount,
+    );
+    if (valueSetGroups.length > 0) {
+      sections.valueSetGroups = valueSetGroups;
+    }
+  }
+  if (options.mode === "name" || options.mode === "both") {
+    const enumConflicts = findEnumConflicts(nameGroups);
+    if (enumConflicts.length > 0) {
+      sections.enumConflicts = enumConflicts;
+    }
+    const divergences = findShapeDivergences(nameGroups, allShapeGroups);
+    if (divergences.length > 0) {
+      sections.divergences = divergences;
+    }
+  }
+  if (shapeDeclarations.some((d) => isSchemaKind(d.kind))) {
+    sections.schemaFindings = findSchemaFindings(
+      shapeDeclarations,
+      allShapeGroups,
+    );
+  }
+  if (options.workspaces) {
+    sections.packageMatrix = buildPackageMatrix(
+      options.mode === "similar"
+        ? similarGroups.map((g) => g.entries.map((e) => e.declaration))
+        : [
+            ...(options.mode === "shape" ? [] : nameGroups),
+            ...(options.mode === "name" ? [] : shapeGroups),
+          ].map(([, items]) => items),
+      packages,
+    );
+  }
+  if (options.semantic && firstTsconfig) {
+    sections.semanticGroups = order(
+      findSemanticGroups(
+        createSemanticProgram(files, firstTsconfig),
+        typeDeclarations,
+        options.minCount,
+      ),
+    );
+  }
+
   // ── Compute duplicate count ───────────────────────────────────────────
   const duplicateCount =
     (options.mode === "name" || options.mode === "both"
@@ -172,13 +496,21 @@ async function run(): Promise<number> {
       : 0) +
     (options.mode === "shape" || options.mode === "both"
       ? shapeGroups.length
-      : 0);
+      : 0) +
+    (options.mode === "similar" ? similarGroups.length : 0) +
+    (sections.semanticGroups?.length ?? 0) +
+    // Schema duplicates already show up as shape groups; drift doesn't.
+    (sections.schemaFindings?.filter((f) => f.kind === "drift").length ?? 0) +
+    (sections.barrelConflicts?.length ?? 0) +
+    (sections.valueSetGroups?.length ?? 0);
 
   const meta = {
     filesScanned: files.length,
-    declarationsScanned: effectiveDeclarations.length,
+    // `as const` objects are values, not type declarations.
+    declarationsScanned: effectiveDeclarations.filter((d) => d.kind !== "const")
+      .length,
     mode: options.mode,
-    fileSource,
+    fileSources,
     duplicateCount,
   };
 
@@ -187,8 +519,13 @@ async function run(): Promise<number> {
     const payload = buildJsonPayload(
       nameGroups,
       shapeGroups,
-      { ...meta, root: options.tsconfig ?? options.root, errors },
+      {
+        ...meta,
+        root: [...options.tsconfigs, ...options.roots].join(", "),
+        errors,
+      },
       options.mode,
+      sections,
     );
     const renderedJson = `${JSON.stringify(payload, null, 2)}\n`;
 
@@ -201,7 +538,7 @@ async function run(): Promise<number> {
     }
     process.stdout.write(renderedJson);
   } else if (options.format === "markdown") {
-    const md = renderMarkdown(nameGroups, shapeGroups, meta);
+    const md = renderMarkdown(nameGroups, shapeGroups, meta, sections);
 
     if (options.outputFile) {
       await writeOutputFile(options.outputFile, md, "Markdown");
@@ -212,13 +549,14 @@ async function run(): Promise<number> {
     }
     process.stdout.write(md);
   } else {
-    printTextReport(nameGroups, shapeGroups, meta);
+    printTextReport(nameGroups, shapeGroups, meta, sections);
 
     if (options.outputFile) {
       const renderedText = `${renderTextReport(
         nameGroups,
         shapeGroups,
         meta,
+        sections,
       )}\n`;
       await writeOutputFile(options.outputFile, renderedText, "text");
     }
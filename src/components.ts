@@ -0,0 +1,83 @@
+import path from "node:path";
+
+import { COMPONENT_EXTENSIONS } from "./constants.js";
+
+/** `lang` values of script blocks that hold TypeScript. */
+const TYPESCRIPT_LANGS = new Set(["ts", "typescript"]);
+
+const SCRIPT_BLOCK = /<script\b([^>]*)>([\s\S]*?)<\/script\s*>/gi;
+
+/** Astro frontmatter: the `---` fenced block at the top of the file. */
+const FRONTMATTER = /^(\s*---[ \t]*\r?\n)([\s\S]*?)\r?\n---/;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Value of an attribute such as `lang="ts"`, or null when it's missing. */
+function attributeValue(attributes: string, name: string): string | null {
+  const match = new RegExp(
+    `(?:^|\\s)${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s"'>]+))`,
+    "i",
+  ).exec(attributes);
+  return match ? (match[1] ?? match[2] ?? match[3] ?? "") : null;
+}
+
+/**
+ * Whether a script block holds TypeScript: `lang="ts"` in Vue and Svelte;
+ * in Astro every processed (not `is:inline`) script does.
+ */
+function isTypeScriptBlock(attributes: string, astro: boolean): boolean {
+  const lang = attributeValue(attributes, "lang")?.toLowerCase();
+  if (astro) {
+    return (
+      !/(?:^|\s)is:inline\b/.test(attributes) &&
+      (!lang || TYPESCRIPT_LANGS.has(lang))
+    );
+  }
+  return !!lang && TYPESCRIPT_LANGS.has(lang);
+}
+
+// ---------------------------------------------------------------------------
+// Script extraction
+// ---------------------------------------------------------------------------
+
+/** Whether a file is a Vue, Svelte or Astro component. */
+export function isComponentFile(file: string): boolean {
+  return COMPONENT_EXTENSIONS.has(path.extname(file));
+}
+
+/**
+ * The TypeScript of a component file as one source text: `<script
+ * lang="ts">` blocks (`<script setup>`, `context="module"` and all), plus
+ * the frontmatter and scripts of Astro files. Everything else is blanked
+ * out with spaces and line breaks are kept, so every position in the result
+ * — and every reported `file:line` — is the same as in the component.
+ */
+export function extractComponentScript(file: string, text: string): string {
+  const astro = path.extname(file) === ".astro";
+  const ranges: Array<[number, number]> = [];
+
+  const frontmatter = astro ? FRONTMATTER.exec(text) : null;
+  if (frontmatter?.[1] !== undefined && frontmatter[2] !== undefined) {
+    const start = frontmatter[1].length;
+    ranges.push([start, start + frontmatter[2].length]);
+  }
+
+  for (const match of text.matchAll(SCRIPT_BLOCK)) {
+    const [, attributes = "", content = ""] = match;
+    if (!isTypeScriptBlock(attributes, astro)) continue;
+    const start = match.index + `<script${attributes}>`.length;
+    ranges.push([start, start + content.length]);
+  }
+
+  let result = "";
+  let position = 0;
+  for (const [start, end] of ranges.sort((a, b) => a[0] - b[0])) {
+    if (start < position) continue;
+    result += text.slice(position, start).replace(/[^\r\n]/g, " ");
+    result += text.slice(start, end);
+    position = end;
+  }
+  return result + text.slice(position).replace(/[^\r\n]/g, " ");
+}
@@ -3,7 +3,19 @@
 // ---------------------------------------------------------------------------
 
 /** File extensions recognized as TypeScript source files. */
-export const TYPE_EXTENSIONS = new Set([".ts", ".tsx", ".mts", ".d.ts"]);
+export const TYPE_EXTENSIONS = new Set([
+  ".ts",
+  ".tsx",
+  ".mts",
+  ".cts",
+  ".d.ts",
+]);
+
+/** Component files whose TypeScript script blocks are scanned. */
+export const COMPONENT_EXTENSIONS = new Set([".vue", ".svelte", ".astro"]);
+
+/** JavaScript extensions scanned for JSDoc typedefs with `--include-js`. */
+export const SCRIPT_EXTENSIONS = new Set([".js", ".jsx", ".mjs", ".cjs"]);
 
 /** Directories always excluded from manual directory walks. */
 export const DEFAULT_IGNORED_DIRS = new Set([
@@ -16,6 +28,9 @@ export const DEFAULT_IGNORED_DIRS = new Set([
   ".turbo",
 ]);
 
+/** Ignore files honoured by directory walks, in every folder they're in. */
+export const IGNORE_FILES = [".gitignore", ".typehuntignore"];
+
 /** Maximum length for inline snippet display. */
 export const MAX_SNIPPET_LENGTH = 200;
 
@@ -27,3 +42,12 @@ export const MAX_DISPLAYED_ERRORS = 5;
 
 /** Number of files to read concurrently during declaration collection. */
 export const FILE_READ_CONCURRENCY = 50;
+
+/** Default member-overlap threshold for `--mode similar`. */
+export const DEFAULT_SIMILARITY = 0.8;
+
+/** Declarations with fewer members are ignored by `--mode similar`. */
+export const MIN_SIMILARITY_MEMBERS = 2;
+
+/** Declarations with fewer members are never reported as subsets. */
+export const MIN_SUBSET_MEMBERS = 2;
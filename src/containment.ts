@@ -0,0 +1,173 @@
+import { MIN_SUBSET_MEMBERS } from "./constants.js";
+import { serializeMember } from "./shape.js";
+import type {
+  DeclarationRecord,
+  RefactorSuggestion,
+  ShapeMember,
+  SubsetRelation,
+} from "./types.js";
+
+interface Candidate {
+  declaration: DeclarationRecord;
+  members: ShapeMember[];
+  signatures: Set<string>;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Return the members of a plain object shape, or `null` when the declaration
+ * can't take part in containment checks (generics, unions, enums, interfaces
+ * with `extends`, or members that `Pick`/`Omit` can't express).
+ */
+function objectMembers(declaration: DeclarationRecord): ShapeMember[] | null {
+  const shape = declaration.shape;
+  if (!shape || shape.kind !== "object") return null;
+  if (
+    !shape.members.every((m) => m.kind === "property" || m.kind === "method")
+  ) {
+    return null;
+  }
+  return shape.members;
+}
+
+function quoteKey(name: string): string {
+  return name.startsWith('"') ? name : JSON.stringify(name);
+}
+
+function isSubsetOf(small: Set<string>, big: Set<string>): boolean {
+  if (small.size >= big.size) return false;
+  for (const item of small) {
+    if (!big.has(item)) return false;
+  }
+  return true;
+}
+
+/**
+ * Pick the refactor that removes the copied members:
+ * - an interface superset can `extends` the subset
+ * - a class superset can `implements` it
+ * - otherwise an interface or type subset is derived from the superset with
+ *   whichever of `Omit` / `Pick` lists fewer keys; other subsets, such as
+ *   classes, can't be written as a type alias and get no suggestion
+ */
+export function suggestRefactor(
+  subset: DeclarationRecord,
+  superset: DeclarationRecord,
+  sharedMembers: string[],
+  extraMembers: string[],
+): RefactorSuggestion | null {
+  if (superset.kind === "interface") {
+    return {
+      kind: "extends",
+      text: `interface ${superset.name} extends ${subset.name} { /* ${extraMembers.join(", ")} */ }`,
+    };
+  }
+  if (superset.kind === "class") {
+    return {
+      kind: "implements",
+      text: `class ${superset.name} implements ${subset.name} { /* ${extraMembers.join(", ")} */ }`,
+    };
+  }
+  if (subset.kind !== "interface" && subset.kind !== "type") return null;
+  if (extraMembers.length < sharedMembers.length) {
+    return {
+      kind: "omit",
+      text: `type ${subset.name} = Omit<${superset.name}, ${extraMembers.map(quoteKey).join(" | ")}>`,
+    };
+  }
+  return {
+    kind: "pick",
+    text: `type ${subset.name} = Pick<${superset.name}, ${sharedMembers.map(quoteKey).join(" | ")}>`,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Subset / superset detection
+// ---------------------------------------------------------------------------
+
+/**
+ * Find declarations whose members (names, modifiers and types) are a strict
+ * subset of another declaration's members.
+ *
+ * Candidates are looked up through an inverted index keyed by member
+ * signature, starting from the subset's rarest member. Only the closest
+ * supersets are reported: if `A ⊂ B ⊂ C`, the pair `A ⊂ C` is implied and
+ * left out.
+ */
+export function findSubsetRelations(
+  declarations: DeclarationRecord[],
+): SubsetRelation[] {
+  const candidates: Candidate[] = [];
+  for (const declaration of declarations) {
+    const members = objectMembers(declaration);
+    if (!members || members.length < MIN_SUBSET_MEMBERS) continue;
+    candidates.push({
+      declaration,
+      members,
+      signatures: new Set(members.map((m) => serializeMember(m))),
+    });
+  }
+
+  const index = new Map<string, Candidate[]>();
+  for (const candidate of candidates) {
+    for (const signature of candidate.signatures) {
+      const postings = index.get(signature);
+      if (postings) {
+        postings.push(candidate);
+      } else {
+        index.set(signature, [candidate]);
+      }
+    }
+  }
+
+  const relations: SubsetRelation[] = [];
+
+  for (const small of candidates) {
+    let rarest: Candidate[] | null = null;
+    for (const signature of small.signatures) {
+      const postings = index.get(signature) ?? [];
+      if (!rarest || postings.length < rarest.length) rarest = postings;
+    }
+
+    const supersets = (rarest ?? []).filter((big) =>
+      isSubsetOf(small.signatures, big.signatures),
+    );
+    const closest = supersets.filter(
+      (big) =>
+        !supersets.some(
+          (mid) => mid !== big && isSubsetOf(mid.signatures, big.signatures),
+        ),
+    );
+
+    for (const big of closest) {
+      const sharedMembers = small.members.map((m) => m.name).sort();
+      const extraMembers = big.members
+        .filter((m) => !small.signatures.has(serializeMember(m)))
+        .map((m) => m.name)
+        .sort();
+
+      relations.push({
+        subset: small.declaration,
+        superset: big.declaration,
+        sharedMembers,
+        extraMembers,
+        suggestion: suggestRefactor(
+          small.declaration,
+          big.declaration,
+          sharedMembers,
+          extraMembers,
+        ),
+      });
+    }
+  }
+
+  return relations.sort(
+    (a, b) =>
+      a.subset.name.localeCompare(b.subset.name) ||
+      a.superset.name.localeCompare(b.superset.name) ||
+      a.subset.file.localeCompare(b.subset.file),
+  );
+}
@@ -0,0 +1,171 @@
+import { serializeShape } from "./shape.js";
+import type {
+  DeclarationRecord,
+  MemberChange,
+  ShapeDivergence,
+  ShapeMember,
+  ShapeNode,
+  ShapeVariant,
+} from "./types.js";
+
+/** What a diff compares per member, keyed by `memberKey`. */
+interface MemberInfo {
+  optional: boolean;
+  readonly: boolean;
+  type: string;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Key a member by how it's addressed: `id`, `get id`, `()`, `[string]`. */
+function memberKey(member: ShapeMember): string {
+  switch (member.kind) {
+    case "getter":
+      return `get ${member.name}`;
+    case "setter":
+      return `set ${member.name}`;
+    case "call":
+      return "()";
+    case "construct":
+      return "new()";
+    default:
+      return member.name;
+  }
+}
+
+/**
+ * Members of an object shape, or of an intersection of objects and named
+ * types (`interface X extends Base { ... }`), where each named type counts
+ * as a member `& Base`. Null for shapes without a member list.
+ */
+function shapeMembers(shape: ShapeNode | null): Map<string, MemberInfo> | null {
+  if (!shape) return null;
+  const parts = shape.kind === "intersection" ? shape.types : [shape];
+  if (!parts.some((part) => part.kind === "object")) return null;
+
+  const members = new Map<string, MemberInfo>();
+  for (const part of parts) {
+    if (part.kind !== "object") {
+      const type = serializeShape(part);
+      members.set(`& ${type}`, { optional: false, readonly: false, type });
+      continue;
+    }
+    for (const member of part.members) {
+      const key = memberKey(member);
+      const type = serializeShape(member.type);
+      const overload = members.get(key);
+      members.set(key, {
+        optional: member.optional,
+        readonly: member.readonly,
+        type: overload ? `${overload.type} & ${type}` : type,
+      });
+    }
+  }
+  return members;
+}
+
+/** Member-level changes from `base` to `other`, sorted by member. */
+function diffMembers(
+  base: Map<string, MemberInfo>,
+  other: Map<string, MemberInfo>,
+): MemberChange[] {
+  const changes: MemberChange[] = [];
+  const keys = [...new Set([...base.keys(), ...other.keys()])].sort();
+
+  for (const member of keys) {
+    const before = base.get(member);
+    const after = other.get(member);
+    if (!before && after) {
+      changes.push({ kind: "added", member, before: null, after: after.type });
+    } else if (before && !after) {
+      changes.push({
+        kind: "removed",
+        member,
+        before: before.type,
+        after: null,
+      });
+    } else if (before && after) {
+      if (before.optional !== after.optional) {
+        changes.push({
+          kind: "optional",
+          member,
+          before: before.optional ? "optional" : "required",
+          after: after.optional ? "optional" : "required",
+        });
+      }
+      if (before.readonly !== after.readonly) {
+        changes.push({
+          kind: "readonly",
+          member,
+          before: before.readonly ? "readonly" : "mutable",
+          after: after.readonly ? "readonly" : "mutable",
+        });
+      }
+      if (before.type !== after.type) {
+        changes.push({
+          kind: "type",
+          member,
+          before: before.type,
+          after: after.type,
+        });
+      }
+    }
+  }
+
+  return changes;
+}
+
+// ---------------------------------------------------------------------------
+// Divergent declarations
+// ---------------------------------------------------------------------------
+
+/**
+ * Split each name group into shape variants and diff every variant against
+ * the most common one (the first seen on a tie): members added or removed,
+ * optionality, readonly and type changes. Declarations in the same shape
+ * group are the same variant. Enums are left to the enum conflict report,
+ * and groups whose declarations all share one shape are true copies.
+ */
+export function findShapeDivergences(
+  nameGroups: Array<[string, DeclarationRecord[]]>,
+  shapeGroups: Map<string, DeclarationRecord[]>,
+): ShapeDivergence[] {
+  const groupOf = new Map<DeclarationRecord, string>();
+  for (const [key, items] of shapeGroups) {
+    for (const d of items) groupOf.set(d, key);
+  }
+
+  const divergences: ShapeDivergence[] = [];
+  for (const [name, items] of nameGroups) {
+    const byShape = new Map<string, DeclarationRecord[]>();
+    for (const d of items) {
+      if (d.isReExport || d.kind === "enum") continue;
+      const key = groupOf.get(d) ?? d.normalizedShape;
+      byShape.set(key, [...(byShape.get(key) ?? []), d]);
+    }
+    if (byShape.size < 2) continue;
+
+    const ordered = [...byShape].sort((a, b) => b[1].length - a[1].length);
+    const baseline = ordered[0]?.[1][0];
+    const baseMembers = shapeMembers(baseline?.shape ?? null);
+
+    const variants: ShapeVariant[] = ordered.map(([shape, declarations], i) => {
+      const members = shapeMembers(declarations[0]?.shape ?? null);
+      return {
+        shape,
+        declarations,
+        changes:
+          i === 0
+            ? []
+            : baseMembers && members
+              ? diffMembers(baseMembers, members)
+              : null,
+      };
+    });
+    divergences.push({ name, variants });
+  }
+
+  return divergences;
+}
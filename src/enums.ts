@@ -0,0 +1,85 @@
+import type {
+  DeclarationRecord,
+  EnumConflict,
+  EnumConflictEntry,
+  ShapeEnumMember,
+} from "./types.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Value of each member of an enum declaration: the evaluated literal, or the
+ * initializer text when it's only known at runtime.
+ */
+function memberValues(declaration: DeclarationRecord): Map<string, string> {
+  const members: ShapeEnumMember[] =
+    declaration.shape?.kind === "enum" ? declaration.shape.members : [];
+  return new Map(
+    members.map((m) => [m.name, m.value ?? m.initializer ?? "(computed)"]),
+  );
+}
+
+/** Compare an enum with the reference declaration of its group. */
+function compareEnum(
+  declaration: DeclarationRecord,
+  reference: DeclarationRecord,
+): EnumConflictEntry {
+  const values = memberValues(declaration);
+  const expected = memberValues(reference);
+  const names = new Set(declaration.propertyNames);
+  const referenceNames = new Set(reference.propertyNames);
+
+  return {
+    declaration,
+    missingMembers: reference.propertyNames.filter((m) => !names.has(m)),
+    addedMembers: declaration.propertyNames.filter(
+      (m) => !referenceNames.has(m),
+    ),
+    changedValues: declaration.propertyNames.flatMap((member) => {
+      const value = values.get(member);
+      const reference = expected.get(member);
+      return value !== undefined &&
+        reference !== undefined &&
+        value !== reference
+        ? [{ member, value, expected: reference }]
+        : [];
+    }),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Enum value conflicts
+// ---------------------------------------------------------------------------
+
+/**
+ * Compare the enums of each name group member by member. The first enum of
+ * a group is the reference; every other enum is listed with the members it
+ * lacks, the members it adds and the members whose evaluated value differs,
+ * e.g. `Admin = "ADMIN"` against `"admin"`, or implicit numbers shifted by an
+ * inserted member. Groups whose enums all agree are left out.
+ */
+export function findEnumConflicts(
+  nameGroups: Array<[string, DeclarationRecord[]]>,
+): EnumConflict[] {
+  const conflicts: EnumConflict[] = [];
+
+  for (const [name, items] of nameGroups) {
+    const enums = items.filter((d) => d.kind === "enum");
+    const [reference, ...others] = enums;
+    if (!reference || others.length === 0) continue;
+
+    const entries = others
+      .map((d) => compareEnum(d, reference))
+      .filter(
+        (entry) =>
+          entry.missingMembers.length > 0 ||
+          entry.addedMembers.length > 0 ||
+          entry.changedValues.length > 0,
+      );
+    if (entries.length > 0) conflicts.push({ name, reference, entries });
+  }
+
+  return conflicts;
+}
@@ -0,0 +1,232 @@
+import { extractMembers, memberNames } from "./analyzer.js";
+import { mapShape, serializeShape } from "./shape.js";
+import type {
+  DeclarationKind,
+  DeclarationRecord,
+  ShapeMember,
+  ShapeNode,
+} from "./types.js";
+import { groupBy } from "./utils.js";
+
+/** Built-in utility types the expansion step applies. */
+const UTILITY_TYPES = new Set([
+  "Partial",
+  "Required",
+  "Readonly",
+  "Pick",
+  "Omit",
+  "Record",
+]);
+
+/** Declarations whose shape a utility type can be applied to. */
+const EXPANDABLE_KINDS = new Set<DeclarationKind>([
+  "interface",
+  "type",
+  "class",
+  "typedef",
+]);
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Member names a `"a" | "b"` key type stands for, spelled the way member
+ * names are (`id`, `"first-name"`, `1`). Null for any other key type.
+ */
+function literalKeys(node: ShapeNode): string[] | null {
+  const types = node.kind === "union" ? node.types : [node];
+  const keys: string[] = [];
+  for (const type of types) {
+    if (type.kind !== "literal") return null;
+    if (type.text.startsWith('"')) {
+      const key = JSON.parse(type.text) as string;
+      keys.push(/^[A-Za-z_$][\w$]*$/.test(key) ? key : type.text);
+    } else if (Number.isFinite(Number(type.text))) {
+      keys.push(type.text);
+    } else {
+      return null;
+    }
+  }
+  return keys;
+}
+
+/**
+ * Members of an object a mapped type can be applied to: properties and
+ * index signatures only, since methods, signatures and accessors change
+ * form when mapped.
+ */
+function mappableMembers(node: ShapeNode | undefined): ShapeMember[] | null {
+  if (node?.kind !== "object") return null;
+  return node.members.every((m) => m.kind === "property" || m.kind === "index")
+    ? node.members
+    : null;
+}
+
+/**
+ * Apply a utility type, if it can be. `resolve` replaces a type name with
+ * the shape it's declared with; the value type of `Record` is kept as is.
+ */
+function applyUtility(
+  name: string,
+  args: ShapeNode[],
+  resolve: (node: ShapeNode) => ShapeNode,
+): ShapeNode | null {
+  const arity = name === "Pick" || name === "Omit" || name === "Record" ? 2 : 1;
+  if (args.length !== arity || !args[0]) return null;
+  const target = resolve(args[0]);
+  const second = name === "Record" ? args[1] : args[1] && resolve(args[1]);
+
+  if (name === "Record") {
+    if (!second) return null;
+    const member = (memberName: string, kind: "property" | "index") => ({
+      kind,
+      name: memberName,
+      optional: false,
+      readonly: false,
+      type: second,
+    });
+    if (
+      target.kind === "keyword" &&
+      (target.text === "string" || target.text === "number")
+    ) {
+      return { kind: "object", members: [member(`[${target.text}]`, "index")] };
+    }
+    const keys = literalKeys(target);
+    return (
+      keys && {
+        kind: "object",
+        members: keys.map((key) => member(key, "property")),
+      }
+    );
+  }
+
+  const members = mappableMembers(target);
+  if (!members) return null;
+
+  switch (name) {
+    case "Partial":
+      return {
+        kind: "object",
+        members: members.map((m) => ({
+          ...m,
+          optional: m.kind === "property",
+        })),
+      };
+    case "Required":
+      return {
+        kind: "object",
+        members: members.map((m) => ({ ...m, optional: false })),
+      };
+    case "Readonly":
+      return {
+        kind: "object",
+        members: members.map((m) => ({ ...m, readonly: true })),
+      };
+    case "Pick": {
+      const keys = second && literalKeys(second);
+      const picked = members.filter(
+        (m) => m.kind === "property" && keys?.includes(m.name),
+      );
+      return keys && picked.length === new Set(keys).size
+        ? { kind: "object", members: picked }
+        : null;
+    }
+    case "Omit": {
+      const keys = second && literalKeys(second);
+      return keys && members.every((m) => m.kind === "property")
+        ? {
+            kind: "object",
+            members: members.filter((m) => !keys.includes(m.name)),
+          }
+        : null;
+    }
+    default:
+      return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Utility type expansion
+// ---------------------------------------------------------------------------
+
+/**
+ * Expand `Partial`, `Required`, `Readonly`, `Pick`, `Omit` and `Record`
+ * wherever they appear in a shape, so `Pick<User, "id" | "name">` gets the
+ * key of a hand-written `{ id: string; name: string }`. Arguments naming a
+ * scanned declaration are replaced by its (expanded) object shape; names
+ * declared with different shapes are ambiguous and left alone, as are
+ * utility names the scanned code declares itself.
+ *
+ * Expanded declarations get new shape keys and members, and list the
+ * utility types they were expanded from under `expansions`.
+ */
+export function expandUtilityTypes(
+  declarations: DeclarationRecord[],
+): DeclarationRecord[] {
+  const byName = groupBy(
+    declarations.filter((d) => d.shape && EXPANDABLE_KINDS.has(d.kind)),
+    (d) => d.name,
+  );
+  const resolved = new Map<string, ShapeNode | null>();
+  const resolving = new Set<string>();
+
+  const lookup = (name: string): ShapeNode | null => {
+    const cached = resolved.get(name);
+    if (cached !== undefined) return cached;
+    const items = byName.get(name) ?? [];
+    const [first] = items;
+    if (
+      !first?.shape ||
+      resolving.has(name) ||
+      items.some((d) => d.normalizedShape !== first.normalizedShape)
+    ) {
+      return null;
+    }
+
+    resolving.add(name);
+    const shape = expand(first.shape, []);
+    resolving.delete(name);
+    resolved.set(name, shape);
+    return shape;
+  };
+
+  const resolve = (node: ShapeNode): ShapeNode =>
+    node.kind === "ref" && node.args.length === 0
+      ? (lookup(node.name) ?? node)
+      : node;
+
+  const expand = (node: ShapeNode, applied: string[]): ShapeNode => {
+    if (node.kind !== "ref" || !UTILITY_TYPES.has(node.name)) {
+      return mapShape(node, (child) => expand(child, applied));
+    }
+
+    const args = node.args.map((arg) => expand(arg, []));
+    const result = byName.has(node.name)
+      ? null
+      : applyUtility(node.name, args, resolve);
+    if (!result) return mapShape(node, (child) => expand(child, applied));
+
+    applied.push(serializeShape(node));
+    return result;
+  };
+
+  return declarations.map((d) => {
+    if (!d.shape) return d;
+    const applied: string[] = [];
+    const shape = expand(d.shape, applied);
+    if (applied.length === 0) return d;
+
+    const members = extractMembers(shape);
+    const propertyNames = memberNames(members);
+    return {
+      ...d,
+      normalizedShape: serializeShape(shape),
+      shape,
+      members,
+      propertyCount: propertyNames.length,
+      propertyNames,
+      expansions: applied,
+    };
+  });
+}
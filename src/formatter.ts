@@ -1,10 +1,151 @@
 import type {
+  BarrelConflict,
+  BarrelConflictSource,
+  DeclarationContainer,
+  DeclarationMerge,
   DeclarationRecord,
+  EnumConflict,
+  EnumConflictEntry,
+  FileSource,
+  MemberChange,
   Mode,
+  NestedShapeMatch,
+  PackageMatrix,
+  PackageScope,
   ReportMeta,
   ReportPayload,
+  ReportSections,
+  SchemaFinding,
+  ShapeDivergence,
+  SimilarGroup,
+  SimilarGroupEntry,
+  SubsetRelation,
+  ValueSetGroup,
+  Visibility,
 } from "./types.js";
 import { MAX_PREVIEW_LENGTH } from "./constants.js";
+import { groupUsageCount } from "./usage.js";
+import { describeValueForms } from "./values.js";
+import { groupPackages, packageScope } from "./workspaces.js";
+
+// ---------------------------------------------------------------------------
+// Public / internal split
+// ---------------------------------------------------------------------------
+
+/**
+ * A group is public when any of its declarations is reachable from an entry
+ * point. `undefined` when no entry points were resolved.
+ */
+function groupVisibility(items: DeclarationRecord[]): Visibility | undefined {
+  if (items.some((d) => d.visibility === "public")) return "public";
+  return items.some((d) => d.visibility === "internal")
+    ? "internal"
+    : undefined;
+}
+
+/** Count the reported groups per visibility, or `null` without entry points. */
+function countByVisibility(
+  groups: DeclarationRecord[][],
+): Record<Visibility, number> | null {
+  const counts = { public: 0, internal: 0 };
+  let known = false;
+  for (const items of groups) {
+    const visibility = groupVisibility(items);
+    if (visibility) {
+      counts[visibility]++;
+      known = true;
+    }
+  }
+  return known ? counts : null;
+}
+
+// ---------------------------------------------------------------------------
+// Workspace packages
+// ---------------------------------------------------------------------------
+
+/**
+ * The packages behind a group, e.g. `cross-package: api, web` or
+ * `within api`. `undefined` outside workspace mode.
+ */
+function describePackages(
+  items: DeclarationRecord[],
+  quote: (name: string) => string = (name) => name,
+): string | undefined {
+  const packages = groupPackages(items).map(quote);
+  if (packages.length === 0) return undefined;
+  return packages.length > 1
+    ? `cross-package: ${packages.join(", ")}`
+    : `within ${packages.join("")}`;
+}
+
+/** Count reported groups per package scope, or `null` outside workspaces. */
+function countByPackageScope(
+  groups: DeclarationRecord[][],
+): Record<PackageScope, number> | null {
+  const counts = { "cross-package": 0, "within-package": 0 };
+  let known = false;
+  for (const items of groups) {
+    const scope = packageScope(items);
+    if (scope) {
+      counts[scope]++;
+      known = true;
+    }
+  }
+  return known ? counts : null;
+}
+
+function reportedGroups(
+  nameGroups: Array<[string, DeclarationRecord[]]>,
+  shapeGroups: Array<[string, DeclarationRecord[]]>,
+  mode: Mode,
+): DeclarationRecord[][] {
+  return [
+    ...(mode === "name" || mode === "both" ? nameGroups : []),
+    ...(mode === "shape" || mode === "both" ? shapeGroups : []),
+  ].map(([, items]) => items);
+}
+
+// ---------------------------------------------------------------------------
+// File sources
+// ---------------------------------------------------------------------------
+
+/**
+ * One summary line per input; with several, each shows the files it added,
+ * e.g. `directory walk (src) · 12 files`.
+ */
+function formatFileSources(sources: FileSource[]): string[] {
+  if (sources.length <= 1) return sources.map((source) => source.label);
+  return sources.map(
+    (source) =>
+      `${source.label} · ${source.files} ${source.files === 1 ? "file" : "files"}`,
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Usage counts
+// ---------------------------------------------------------------------------
+
+function pluralizeUsages(count: number): string {
+  return `${count} ${count === 1 ? "usage" : "usages"}`;
+}
+
+function hasUsageCounts(items: DeclarationRecord[]): boolean {
+  return items.some((d) => d.usageCount !== undefined);
+}
+
+/** Group size plus total usages when counted, e.g. `3 occurrences, 41 usages`. */
+function formatOccurrences(items: DeclarationRecord[]): string {
+  const usages = hasUsageCounts(items)
+    ? `, ${pluralizeUsages(groupUsageCount(items))}`
+    : "";
+  return `${items.length} occurrences${usages}`;
+}
+
+function formatUsageSuffix(item: DeclarationRecord): string {
+  return item.usageCount === undefined
+    ? ""
+    : `  · ${pluralizeUsages(item.usageCount)}`;
+}
 
 // ---------------------------------------------------------------------------
 // Text output
@@ -56,6 +197,15 @@ function printShapeReport(groups: Array<[string, DeclarationRecord[]]>): void {
   }
 }
 
+/**
+ * The distinct names in a name group, or `undefined` when they're all
+ * spelled alike (only normalised names group different spellings).
+ */
+function groupSpellings(items: DeclarationRecord[]): string[] | undefined {
+  const names = [...new Set(items.map((d) => d.name))];
+  return names.length > 1 ? names : undefined;
+}
+
 function renderNameReport(groups: Array<[string, DeclarationRecord[]]>): string[] {
   const lines: string[] = [];
   lines.push("\n── Duplicate type names ──────────────────────────────────");
@@ -65,16 +215,56 @@ function renderNameReport(groups: Array<[string, DeclarationRecord[]]>): string[
   }
 
   for (const [name, items] of groups) {
-    lines.push(`\n  ${name} (${items.length} occurrences)`);
+    const visibility = groupVisibility(items);
+    const packages = describePackages(items);
+    const spellings = groupSpellings(items);
+    lines.push(
+      `\n  ${name}${spellings ? ` — ${spellings.join(", ")}` : ""} (${formatOccurrences(items)})${visibility ? ` [${visibility}]` : ""}${packages ? ` [${packages}]` : ""}`,
+    );
     for (const item of items) {
-      lines.push(`    ${item.kind.padEnd(9)}  ${item.file}:${item.line}`);
+      const qualified =
+        item.qualifiedName !== name ? `  (${item.qualifiedName})` : "";
+      lines.push(
+        `    ${item.kind.padEnd(9)}  ${item.file}:${item.line}${qualified}${formatUsageSuffix(item)}`,
+      );
     }
   }
 
   return lines;
 }
 
-function renderShapeReport(groups: Array<[string, DeclarationRecord[]]>): string[] {
+/**
+ * Describe the nested duplicates that made a shape group match, e.g.
+ * `Address ≡ Addr (shape#2)`.
+ */
+function formatNestedMatches(
+  matches: NestedShapeMatch[],
+  groups: Array<[string, DeclarationRecord[]]>,
+  prefix: string,
+): string[] {
+  return matches.map((match) => {
+    const index = groups.findIndex(([shape]) => shape === match.shape);
+    const ref = index === -1 ? "" : ` (${prefix}${index + 1})`;
+    return `${match.names.join(" ≡ ")}${ref}`;
+  });
+}
+
+/**
+ * Describe the utility types expanded to make a shape group match, e.g.
+ * `UserRef = Pick<User,"id"|"name">`.
+ */
+function formatExpansions(items: DeclarationRecord[]): string[] {
+  return items.flatMap((item) =>
+    item.expansions
+      ? [`${item.qualifiedName} = ${item.expansions.join(" & ")}`]
+      : [],
+  );
+}
+
+function renderShapeReport(
+  groups: Array<[string, DeclarationRecord[]]>,
+  nested?: Map<string, NestedShapeMatch[]>,
+): string[] {
   const lines: string[] = [];
   lines.push("\n── Duplicate type shapes ─────────────────────────────────");
   if (groups.length === 0) {
@@ -83,15 +273,17 @@ function renderShapeReport(groups: Array<[string, DeclarationRecord[]]>): string
   }
 
   let shapeIndex = 0;
-  for (const [, items] of groups) {
+  for (const [shape, items] of groups) {
     shapeIndex++;
     const names = [...new Set(items.map((i) => i.name))].join(", ");
+    const visibility = groupVisibility(items);
+    const packages = describePackages(items);
     lines.push(
-      `\n  shape#${shapeIndex} — names: ${names} (${items.length} occurrences)`,
+      `\n  shape#${shapeIndex} — names: ${names} (${formatOccurrences(items)})${visibility ? ` [${visibility}]` : ""}${packages ? ` [${packages}]` : ""}`,
     );
     for (const item of items) {
       lines.push(
-        `    ${item.kind.padEnd(9)}  ${item.name.padEnd(24)}  ${item.file}:${item.line}`,
+        `    ${item.kind.padEnd(9)}  ${item.qualifiedName.padEnd(24)}  ${item.file}:${item.line}${formatUsageSuffix(item)}`,
       );
     }
 
@@ -103,6 +295,321 @@ function renderShapeReport(groups: Array<[string, DeclarationRecord[]]>): string
           : representative.snippet;
       lines.push(`    shape:   ${preview}`);
     }
+
+    const matches = nested?.get(shape);
+    if (matches && matches.length > 0) {
+      lines.push(
+        `    via:     ${formatNestedMatches(matches, groups, "shape#").join("; ")}`,
+      );
+    }
+
+    const expansions = formatExpansions(items);
+    if (expansions.length > 0) {
+      lines.push(`    expands: ${expansions.join("; ")}`);
+    }
+  }
+
+  return lines;
+}
+
+/** Summarise how a cluster entry differs, e.g. `+avatar, -email`. */
+function formatMemberDiff(entry: SimilarGroupEntry): string {
+  return [
+    ...entry.extraMembers.map((m) => `+${m}`),
+    ...entry.missingMembers.map((m) => `-${m}`),
+  ].join(", ");
+}
+
+function renderSimilarReport(groups: SimilarGroup[]): string[] {
+  const lines: string[] = [];
+  lines.push("\n── Similar types ─────────────────────────────────────────");
+  if (groups.length === 0) {
+    lines.push("  ✓ No similar types found");
+    return lines;
+  }
+
+  let groupIndex = 0;
+  for (const group of groups) {
+    groupIndex++;
+    const names = [
+      ...new Set(group.entries.map((e) => e.declaration.name)),
+    ].join(", ");
+    lines.push(
+      `\n  similar#${groupIndex} — names: ${names} (${group.entries.length} occurrences, score ${group.score.toFixed(2)})`,
+    );
+    for (const entry of group.entries) {
+      const item = entry.declaration;
+      const diff = formatMemberDiff(entry);
+      lines.push(
+        `    ${item.kind.padEnd(9)}  ${item.qualifiedName.padEnd(24)}  ${item.file}:${item.line}${diff ? `  ${diff}` : ""}`,
+      );
+    }
+    lines.push(`    shared:  ${group.sharedMembers.join(", ") || "(none)"}`);
+  }
+
+  return lines;
+}
+
+function renderSemanticReport(
+  groups: Array<[string, DeclarationRecord[]]>,
+): string[] {
+  const lines: string[] = [];
+  lines.push("\n── Semantically equivalent types ─────────────────────────");
+  if (groups.length === 0) {
+    lines.push("  ✓ No semantic duplicates found");
+    return lines;
+  }
+
+  let groupIndex = 0;
+  for (const [members, items] of groups) {
+    groupIndex++;
+    const names = [...new Set(items.map((i) => i.name))].join(", ");
+    lines.push(
+      `\n  semantic#${groupIndex} — names: ${names} (${formatOccurrences(items)})`,
+    );
+    for (const item of items) {
+      lines.push(
+        `    ${item.kind.padEnd(9)}  ${item.qualifiedName.padEnd(24)}  ${item.file}:${item.line}${formatUsageSuffix(item)}`,
+      );
+    }
+    lines.push(`    members: ${members}`);
+  }
+
+  return lines;
+}
+
+function renderSubsetReport(relations: SubsetRelation[]): string[] {
+  const lines: string[] = [];
+  lines.push("\n── Subset types ──────────────────────────────────────────");
+  if (relations.length === 0) {
+    lines.push("  ✓ No subset types found");
+    return lines;
+  }
+
+  for (const relation of relations) {
+    const { subset, superset } = relation;
+    const total = relation.sharedMembers.length + relation.extraMembers.length;
+    lines.push(
+      `\n  ${subset.qualifiedName} ⊂ ${superset.qualifiedName} (${relation.sharedMembers.length} of ${total} members)`,
+    );
+    lines.push(
+      `    subset     ${subset.kind.padEnd(9)}  ${subset.file}:${subset.line}`,
+    );
+    lines.push(
+      `    superset   ${superset.kind.padEnd(9)}  ${superset.file}:${superset.line}`,
+    );
+    if (relation.suggestion) {
+      lines.push(`    suggest:   ${relation.suggestion.text}`);
+    }
+  }
+
+  return lines;
+}
+
+/** Describe a merge container, e.g. `declare module "express" › Express`. */
+function formatContainer(
+  container: DeclarationContainer,
+  file: string,
+): string {
+  const scope =
+    container.kind === "global"
+      ? "declare global"
+      : container.kind === "module"
+        ? `declare module "${container.module ?? ""}"`
+        : file;
+  return [scope, ...container.namespaces].join(" › ");
+}
+
+function renderMergeReport(merges: DeclarationMerge[]): string[] {
+  const lines: string[] = [];
+  lines.push("\n── Declaration merges ────────────────────────────────────");
+  if (merges.length === 0) {
+    lines.push("  ✓ No merged declarations found");
+    return lines;
+  }
+
+  for (const merge of merges) {
+    const file = merge.declarations[0]?.file ?? "";
+    lines.push(
+      `\n  ${merge.name} — ${formatContainer(merge.container, file)} (${merge.declarations.length} declarations)`,
+    );
+    for (const item of merge.declarations) {
+      lines.push(
+        `    ${item.kind.padEnd(9)}  ${item.qualifiedName.padEnd(24)}  ${item.file}:${item.line}`,
+      );
+    }
+  }
+
+  return lines;
+}
+
+/** Describe a barrel conflict source, e.g. `./orders → src/orders/status.ts`. */
+function formatBarrelSource(source: BarrelConflictSource, name: string): string {
+  const renamed = source.name !== name ? ` as ${source.name}` : "";
+  return `${source.specifier} → ${source.file}${renamed}`;
+}
+
+function renderBarrelConflictReport(conflicts: BarrelConflict[]): string[] {
+  const lines: string[] = [];
+  lines.push("\n── Barrel conflicts ──────────────────────────────────────");
+  for (const conflict of conflicts) {
+    lines.push(
+      `\n  ${conflict.name} — ${conflict.file} (${conflict.sources.length} export * sources)`,
+    );
+    for (const source of conflict.sources) {
+      lines.push(`    export *   ${formatBarrelSource(source, conflict.name)}`);
+    }
+  }
+  return lines;
+}
+
+function renderPackageMatrixReport(matrix: PackageMatrix): string[] {
+  const lines: string[] = [];
+  lines.push("\n── Package matrix ────────────────────────────────────────");
+  matrix.packages.forEach((pkg, i) => {
+    const row = matrix.counts[i] ?? [];
+    const shared = matrix.packages.flatMap((other, j) =>
+      i !== j && row[j] ? [`${other.name} ${row[j]}`] : [],
+    );
+    lines.push(`\n  ${pkg.name} (${pkg.dir})`);
+    lines.push(`    within:  ${row[i] ?? 0}`);
+    lines.push(`    shared:  ${shared.join(", ") || "none"}`);
+  });
+  return lines;
+}
+
+function renderValueSetReport(groups: ValueSetGroup[]): string[] {
+  const lines: string[] = [];
+  lines.push("\n── Value-set equivalents ─────────────────────────────────");
+  let groupIndex = 0;
+  for (const group of groups) {
+    groupIndex++;
+    const names = [...new Set(group.declarations.map((d) => d.name))].join(
+      ", ",
+    );
+    lines.push(
+      `\n  values#${groupIndex} — ${describeValueForms(group.forms)}: ${names} (${formatOccurrences(group.declarations)})`,
+    );
+    for (const item of group.declarations) {
+      lines.push(
+        `    ${item.kind.padEnd(9)}  ${item.qualifiedName.padEnd(24)}  ${item.file}:${item.line}${formatUsageSuffix(item)}`,
+      );
+    }
+    lines.push(`    values:  ${group.values.join(", ")}`);
+  }
+  return lines;
+}
+
+/**
+ * Summarise how an enum differs from its reference, e.g.
+ * `-Guest, +Owner, Admin = "ADMIN" (reference "admin")`.
+ */
+function formatEnumDiff(entry: EnumConflictEntry): string {
+  return [
+    ...entry.missingMembers.map((m) => `-${m}`),
+    ...entry.addedMembers.map((m) => `+${m}`),
+    ...entry.changedValues.map(
+      (c) => `${c.member} = ${c.value} (reference ${c.expected})`,
+    ),
+  ].join(", ");
+}
+
+function renderEnumConflictReport(conflicts: EnumConflict[]): string[] {
+  const lines: string[] = [];
+  lines.push("\n── Enum value conflicts ──────────────────────────────────");
+  for (const conflict of conflicts) {
+    const { reference } = conflict;
+    lines.push(
+      `\n  ${conflict.name} — reference ${reference.file}:${reference.line}`,
+    );
+    for (const entry of conflict.entries) {
+      const item = entry.declaration;
+      lines.push(
+        `    ${item.qualifiedName.padEnd(24)}  ${item.file}:${item.line}  ${formatEnumDiff(entry)}`,
+      );
+    }
+  }
+  return lines;
+}
+
+/** Describe a member change, e.g. `+email: string` or `id: string → number`. */
+function formatMemberChange(change: MemberChange): string {
+  // Intersected types (`& Base`) are members named after their type.
+  const typed = (type: string | null) =>
+    change.member.startsWith("& ") ? "" : `: ${type}`;
+  switch (change.kind) {
+    case "added":
+      return `+${change.member}${typed(change.after)}`;
+    case "removed":
+      return `-${change.member}${typed(change.before)}`;
+    default:
+      return `${change.member}: ${change.before} → ${change.after}`;
+  }
+}
+
+function formatVariantChanges(changes: MemberChange[] | null): string {
+  if (!changes) return "shape differs (no members to compare)";
+  return changes.map(formatMemberChange).join(", ");
+}
+
+function renderDivergenceReport(divergences: ShapeDivergence[]): string[] {
+  const lines: string[] = [];
+  lines.push("\n── Divergent declarations ────────────────────────────────");
+  for (const divergence of divergences) {
+    lines.push(
+      `\n  ${divergence.name} (${divergence.variants.length} shape variants)`,
+    );
+    divergence.variants.forEach((variant, i) => {
+      const count = variant.declarations.length;
+      lines.push(
+        `    variant ${i + 1}${i === 0 ? " (baseline)" : ""} — ${count} declaration${count === 1 ? "" : "s"}`,
+      );
+      for (const item of variant.declarations) {
+        lines.push(
+          `      ${item.kind.padEnd(9)}  ${item.qualifiedName.padEnd(24)}  ${item.file}:${item.line}`,
+        );
+      }
+      if (i > 0) {
+        lines.push(`      changes:  ${formatVariantChanges(variant.changes)}`);
+      }
+    });
+  }
+  return lines;
+}
+
+/** Summarise schema drift, e.g. `+avatar (schema), -email (type), ~id`. */
+function formatSchemaDrift(finding: SchemaFinding): string {
+  return [
+    ...finding.onlyInSchema.map((m) => `+${m} (schema)`),
+    ...finding.onlyInType.map((m) => `-${m} (type)`),
+    ...finding.changedMembers.map((m) => `~${m}`),
+  ].join(", ");
+}
+
+function renderSchemaReport(findings: SchemaFinding[]): string[] {
+  const lines: string[] = [];
+  lines.push("\n── Schema findings ───────────────────────────────────────");
+  if (findings.length === 0) {
+    lines.push("  ✓ No schema duplicates or drift found");
+    return lines;
+  }
+
+  for (const finding of findings) {
+    const { schema, declaration } = finding;
+    const relation =
+      finding.kind === "duplicate" ? "duplicates" : "drifted from";
+    lines.push(
+      `\n  ${schema.qualifiedName} ${relation} ${declaration.qualifiedName}`,
+    );
+    lines.push(
+      `    schema     ${schema.kind.padEnd(9)}  ${schema.file}:${schema.line}`,
+    );
+    lines.push(
+      `    type       ${declaration.kind.padEnd(9)}  ${declaration.file}:${declaration.line}`,
+    );
+    if (finding.kind === "drift") {
+      lines.push(`    differs:   ${formatSchemaDrift(finding)}`);
+    }
   }
 
   return lines;
@@ -112,28 +619,112 @@ export function renderTextReport(
   nameGroups: Array<[string, DeclarationRecord[]]>,
   shapeGroups: Array<[string, DeclarationRecord[]]>,
   meta: ReportMeta,
+  sections: ReportSections = {},
 ): string {
+  const similarGroups = sections.similarGroups ?? [];
   const lines: string[] = [];
 
   // Summary
   lines.push("\n── Summary ──────────────────────────────────────────────");
   lines.push(`  Files scanned:          ${meta.filesScanned}`);
   lines.push(`  Declarations found:     ${meta.declarationsScanned}`);
-  lines.push(`  Source:                 ${meta.fileSource}`);
+  for (const source of formatFileSources(meta.fileSources)) {
+    lines.push(`  Source:                 ${source}`);
+  }
   if (meta.mode === "name" || meta.mode === "both") {
     lines.push(`  Duplicate name groups:  ${nameGroups.length}`);
   }
   if (meta.mode === "shape" || meta.mode === "both") {
     lines.push(`  Duplicate shape groups: ${shapeGroups.length}`);
   }
+  if (meta.mode === "similar") {
+    lines.push(`  Similar type groups:    ${similarGroups.length}`);
+  }
+  const visibilityCounts = countByVisibility(
+    reportedGroups(nameGroups, shapeGroups, meta.mode),
+  );
+  if (visibilityCounts) {
+    lines.push(`  Public API groups:      ${visibilityCounts.public}`);
+    lines.push(`  Internal groups:        ${visibilityCounts.internal}`);
+  }
+  if (sections.packageMatrix) {
+    lines.push(
+      `  Workspace packages:     ${sections.packageMatrix.packages.length}`,
+    );
+  }
+  const packageCounts = countByPackageScope(
+    reportedGroups(nameGroups, shapeGroups, meta.mode),
+  );
+  if (packageCounts) {
+    lines.push(`  Cross-package groups:   ${packageCounts["cross-package"]}`);
+    lines.push(`  Within-package groups:  ${packageCounts["within-package"]}`);
+  }
+  if (sections.semanticGroups) {
+    lines.push(`  Semantic groups:        ${sections.semanticGroups.length}`);
+  }
+  if (sections.subsetRelations) {
+    lines.push(`  Subset relations:       ${sections.subsetRelations.length}`);
+  }
+  if (sections.schemaFindings) {
+    lines.push(`  Schema findings:        ${sections.schemaFindings.length}`);
+  }
+  if (sections.declarationMerges) {
+    lines.push(
+      `  Declaration merges:     ${sections.declarationMerges.length}`,
+    );
+  }
+  if (sections.barrelConflicts) {
+    lines.push(`  Barrel conflicts:       ${sections.barrelConflicts.length}`);
+  }
+  if (sections.valueSetGroups) {
+    lines.push(`  Value-set groups:       ${sections.valueSetGroups.length}`);
+  }
+  if (sections.enumConflicts) {
+    lines.push(`  Enum value conflicts:   ${sections.enumConflicts.length}`);
+  }
+  if (sections.divergences) {
+    lines.push(`  Divergent names:        ${sections.divergences.length}`);
+  }
   lines.push("");
 
   // Detail sections
+  if (sections.packageMatrix) {
+    lines.push(...renderPackageMatrixReport(sections.packageMatrix));
+  }
   if (meta.mode === "name" || meta.mode === "both") {
     lines.push(...renderNameReport(nameGroups));
   }
+  if (sections.enumConflicts) {
+    lines.push(...renderEnumConflictReport(sections.enumConflicts));
+  }
+  if (sections.divergences) {
+    lines.push(...renderDivergenceReport(sections.divergences));
+  }
   if (meta.mode === "shape" || meta.mode === "both") {
-    lines.push(...renderShapeReport(shapeGroups));
+    lines.push(
+      ...renderShapeReport(shapeGroups, sections.nestedShapeMatches),
+    );
+  }
+  if (meta.mode === "similar") {
+    lines.push(...renderSimilarReport(similarGroups));
+  }
+  if (sections.semanticGroups) {
+    lines.push(...renderSemanticReport(sections.semanticGroups));
+  }
+  if (sections.subsetRelations) {
+    lines.push(...renderSubsetReport(sections.subsetRelations));
+  }
+  if (sections.schemaFindings) {
+    lines.push(...renderSchemaReport(sections.schemaFindings));
+  }
+  if (sections.declarationMerges) {
+    lines.push(...renderMergeReport(sections.declarationMerges));
+  }
+  if (sections.barrelConflicts) {
+    lines.push(...renderBarrelConflictReport(sections.barrelConflicts));
+  }
+  if (sections.valueSetGroups) {
+    lines.push(...renderValueSetReport(sections.valueSetGroups));
   }
 
   return lines.join("\n");
@@ -143,8 +734,9 @@ export function printTextReport(
   nameGroups: Array<[string, DeclarationRecord[]]>,
   shapeGroups: Array<[string, DeclarationRecord[]]>,
   meta: ReportMeta,
+  sections: ReportSections = {},
 ): void {
-  console.log(renderTextReport(nameGroups, shapeGroups, meta));
+  console.log(renderTextReport(nameGroups, shapeGroups, meta, sections));
 }
 
 // ---------------------------------------------------------------------------
@@ -159,39 +751,140 @@ export function buildJsonPayload(
     errors?: Array<{ file: string; error: string }>;
   },
   mode: Mode,
+  sections: ReportSections = {},
 ): ReportPayload {
+  const mapDeclaration = (item: DeclarationRecord) => ({
+    file: item.file,
+    line: item.line,
+    kind: item.kind,
+    name: item.name,
+    qualifiedName: item.qualifiedName,
+    scope: item.scope,
+    exported: item.exported,
+    visibility: item.visibility,
+    package: item.package,
+    project: item.project,
+    reExports: item.reExports,
+    usageCount: item.usageCount,
+    snippet: item.snippet,
+    isReExport: item.isReExport,
+    container: item.container,
+    expansions: item.expansions,
+    members: item.members,
+  });
   const mapDeclarations = (items: DeclarationRecord[]) =>
-    items.map((item) => ({
-      file: item.file,
-      line: item.line,
-      kind: item.kind,
-      name: item.name,
-      snippet: item.snippet,
-      isReExport: item.isReExport,
-    }));
+    items.map(mapDeclaration);
+  const packageFields = (items: DeclarationRecord[]) => {
+    const scope = packageScope(items);
+    return scope
+      ? { packageScope: scope, packages: groupPackages(items) }
+      : {};
+  };
 
   return {
     root: meta.root,
     mode,
-    fileSource: meta.fileSource,
+    fileSources: meta.fileSources,
     filesScanned: meta.filesScanned,
     declarationsScanned: meta.declarationsScanned,
     duplicateNameGroups:
-      mode === "shape"
+      mode !== "name" && mode !== "both"
         ? []
         : nameGroups.map(([name, items]) => ({
             name,
+            spellings: groupSpellings(items),
+            visibility: groupVisibility(items),
+            ...packageFields(items),
+            usageCount: hasUsageCounts(items)
+              ? groupUsageCount(items)
+              : undefined,
             count: items.length,
             declarations: mapDeclarations(items),
           })),
     duplicateShapeGroups:
-      mode === "name"
+      mode !== "shape" && mode !== "both"
         ? []
         : shapeGroups.map(([shape, items]) => ({
             shape,
+            visibility: groupVisibility(items),
+            ...packageFields(items),
+            usageCount: hasUsageCounts(items)
+              ? groupUsageCount(items)
+              : undefined,
             count: items.length,
             declarations: mapDeclarations(items),
+            nested: sections.nestedShapeMatches?.get(shape),
+          })),
+    similarGroups:
+      mode !== "similar"
+        ? []
+        : (sections.similarGroups ?? []).map((group) => ({
+            score: group.score,
+            count: group.entries.length,
+            sharedMembers: group.sharedMembers,
+            declarations: group.entries.map((entry) => ({
+              ...mapDeclaration(entry.declaration),
+              extraMembers: entry.extraMembers,
+              missingMembers: entry.missingMembers,
+            })),
           })),
+    duplicateSemanticGroups: sections.semanticGroups?.map(
+      ([members, items]) => ({
+        members,
+        count: items.length,
+        declarations: mapDeclarations(items),
+      }),
+    ),
+    subsetRelations: sections.subsetRelations?.map((relation) => ({
+      subset: mapDeclaration(relation.subset),
+      superset: mapDeclaration(relation.superset),
+      sharedMembers: relation.sharedMembers,
+      extraMembers: relation.extraMembers,
+      suggestion: relation.suggestion,
+    })),
+    schemaFindings: sections.schemaFindings?.map((finding) => ({
+      kind: finding.kind,
+      schema: mapDeclaration(finding.schema),
+      declaration: mapDeclaration(finding.declaration),
+      onlyInSchema: finding.onlyInSchema,
+      onlyInType: finding.onlyInType,
+      changedMembers: finding.changedMembers,
+    })),
+    declarationMerges: sections.declarationMerges?.map((merge) => ({
+      name: merge.name,
+      container: merge.container,
+      count: merge.declarations.length,
+      declarations: mapDeclarations(merge.declarations),
+    })),
+    barrelConflicts: sections.barrelConflicts,
+    valueSetGroups: sections.valueSetGroups?.map((group) => ({
+      values: group.values,
+      forms: group.forms,
+      label: describeValueForms(group.forms),
+      count: group.declarations.length,
+      declarations: mapDeclarations(group.declarations),
+    })),
+    enumConflicts: sections.enumConflicts?.map((conflict) => ({
+      name: conflict.name,
+      reference: mapDeclaration(conflict.reference),
+      entries: conflict.entries.map((entry) => ({
+        ...mapDeclaration(entry.declaration),
+        missingMembers: entry.missingMembers,
+        addedMembers: entry.addedMembers,
+        changedValues: entry.changedValues,
+      })),
+    })),
+    divergences: sections.divergences?.map((divergence) => ({
+      name: divergence.name,
+      variants: divergence.variants.map((variant, i) => ({
+        shape: variant.shape,
+        baseline: i === 0,
+        count: variant.declarations.length,
+        declarations: mapDeclarations(variant.declarations),
+        changes: variant.changes,
+      })),
+    })),
+    packageMatrix: sections.packageMatrix,
     errors: meta.errors && meta.errors.length > 0 ? meta.errors : undefined,
   };
 }
@@ -200,11 +893,32 @@ export function buildJsonPayload(
 // Markdown output
 // ---------------------------------------------------------------------------
 
+/** Kind / name / location table, with a usage column when usages were counted. */
+function renderDeclarationTable(
+  items: DeclarationRecord[],
+  nameHeader: string,
+): string[] {
+  const usages = hasUsageCounts(items);
+  const lines = [
+    `| Kind | ${nameHeader} | File | Line |${usages ? " Usages |" : ""}`,
+    `| --- | --- | --- | --- |${usages ? " --- |" : ""}`,
+  ];
+  for (const item of items) {
+    const usage = usages ? ` ${item.usageCount ?? "—"} |` : "";
+    lines.push(
+      `| \`${item.kind}\` | \`${item.qualifiedName}\` | \`${item.file}\` | ${item.line} |${usage}`,
+    );
+  }
+  return lines;
+}
+
 export function renderMarkdown(
   nameGroups: Array<[string, DeclarationRecord[]]>,
   shapeGroups: Array<[string, DeclarationRecord[]]>,
   meta: ReportMeta,
+  sections: ReportSections = {},
 ): string {
+  const similarGroups = sections.similarGroups ?? [];
   const lines: string[] = [];
 
   // Header
@@ -229,15 +943,89 @@ export function renderMarkdown(
   lines.push("| --- | --- |");
   lines.push(`| Files scanned | ${meta.filesScanned} |`);
   lines.push(`| Declarations found | ${meta.declarationsScanned} |`);
-  lines.push(`| Source | ${meta.fileSource} |`);
+  for (const source of formatFileSources(meta.fileSources)) {
+    lines.push(`| Source | ${source} |`);
+  }
   if (meta.mode === "name" || meta.mode === "both") {
     lines.push(`| Duplicate name groups | ${nameGroups.length} |`);
   }
   if (meta.mode === "shape" || meta.mode === "both") {
     lines.push(`| Duplicate shape groups | ${shapeGroups.length} |`);
   }
+  if (meta.mode === "similar") {
+    lines.push(`| Similar type groups | ${similarGroups.length} |`);
+  }
+  const visibilityCounts = countByVisibility(
+    reportedGroups(nameGroups, shapeGroups, meta.mode),
+  );
+  if (visibilityCounts) {
+    lines.push(`| Public API groups | ${visibilityCounts.public} |`);
+    lines.push(`| Internal groups | ${visibilityCounts.internal} |`);
+  }
+  if (sections.packageMatrix) {
+    lines.push(
+      `| Workspace packages | ${sections.packageMatrix.packages.length} |`,
+    );
+  }
+  const packageCounts = countByPackageScope(
+    reportedGroups(nameGroups, shapeGroups, meta.mode),
+  );
+  if (packageCounts) {
+    lines.push(`| Cross-package groups | ${packageCounts["cross-package"]} |`);
+    lines.push(
+      `| Within-package groups | ${packageCounts["within-package"]} |`,
+    );
+  }
+  if (sections.semanticGroups) {
+    lines.push(`| Semantic groups | ${sections.semanticGroups.length} |`);
+  }
+  if (sections.subsetRelations) {
+    lines.push(`| Subset relations | ${sections.subsetRelations.length} |`);
+  }
+  if (sections.schemaFindings) {
+    lines.push(`| Schema findings | ${sections.schemaFindings.length} |`);
+  }
+  if (sections.declarationMerges) {
+    lines.push(
+      `| Declaration merges | ${sections.declarationMerges.length} |`,
+    );
+  }
+  if (sections.barrelConflicts) {
+    lines.push(`| Barrel conflicts | ${sections.barrelConflicts.length} |`);
+  }
+  if (sections.valueSetGroups) {
+    lines.push(`| Value-set groups | ${sections.valueSetGroups.length} |`);
+  }
+  if (sections.enumConflicts) {
+    lines.push(`| Enum value conflicts | ${sections.enumConflicts.length} |`);
+  }
+  if (sections.divergences) {
+    lines.push(`| Divergent names | ${sections.divergences.length} |`);
+  }
   lines.push("");
 
+  // Package-by-package matrix
+  if (sections.packageMatrix) {
+    const { packages, counts } = sections.packageMatrix;
+    lines.push("## Package Matrix");
+    lines.push("");
+    lines.push(
+      "Duplicate groups per pair of workspace packages. The diagonal counts groups within one package.",
+    );
+    lines.push("");
+    lines.push(
+      `| Package | ${packages.map((p) => `\`${p.name}\``).join(" | ")} |`,
+    );
+    lines.push(`| --- |${packages.map(() => " --- |").join("")}`);
+    packages.forEach((pkg, i) => {
+      const cells = packages.map((_, j) => counts[i]?.[j] || "—");
+      lines.push(
+        `| \`${pkg.name}\` (\`${pkg.dir}\`) | ${cells.join(" | ")} |`,
+      );
+    });
+    lines.push("");
+  }
+
   // Name duplicates
   if (meta.mode === "name" || meta.mode === "both") {
     lines.push("## Duplicate Type Names");
@@ -248,18 +1036,82 @@ export function renderMarkdown(
       lines.push("");
     } else {
       for (const [name, items] of nameGroups) {
-        lines.push(`### \`${name}\` (${items.length} occurrences)`);
+        const visibility = groupVisibility(items);
+        const packages = describePackages(items, (n) => `\`${n}\``);
+        const spellings = groupSpellings(items);
+        const spelled = spellings
+          ? ` — ${spellings.map((n) => `\`${n}\``).join(", ")}`
+          : "";
+        lines.push(
+          `### \`${name}\`${spelled} (${formatOccurrences(items)})${visibility ? ` · ${visibility}` : ""}${packages ? ` · ${packages}` : ""}`,
+        );
         lines.push("");
-        lines.push("| Kind | File | Line |");
-        lines.push("| --- | --- | --- |");
-        for (const item of items) {
-          lines.push(`| \`${item.kind}\` | \`${item.file}\` | ${item.line} |`);
-        }
+        lines.push(
+          ...renderDeclarationTable(items, "Qualified name"),
+        );
         lines.push("");
       }
     }
   }
 
+  // Enum value conflicts
+  if (sections.enumConflicts) {
+    lines.push("## Enum Value Conflicts");
+    lines.push("");
+    lines.push(
+      "Same-named enums compared member by member with the first one: `-` missing members, `+` added members, and members with a different value.",
+    );
+    lines.push("");
+    lines.push("| Enum | Reference | Location | Differences |");
+    lines.push("| --- | --- | --- | --- |");
+    for (const conflict of sections.enumConflicts) {
+      const { reference } = conflict;
+      for (const entry of conflict.entries) {
+        const item = entry.declaration;
+        lines.push(
+          `| \`${conflict.name}\` | \`${reference.file}:${reference.line}\` | \`${item.file}:${item.line}\` | \`${formatEnumDiff(entry)}\` |`,
+        );
+      }
+    }
+    lines.push("");
+  }
+
+  // Same name, different shapes
+  if (sections.divergences) {
+    lines.push("## Divergent Declarations");
+    lines.push("");
+    lines.push(
+      "Same-named declarations that have drifted into different shapes, diffed member by member against the most common variant.",
+    );
+    lines.push("");
+
+    for (const divergence of sections.divergences) {
+      lines.push(
+        `### \`${divergence.name}\` (${divergence.variants.length} shape variants)`,
+      );
+      lines.push("");
+      lines.push("| Variant | Declarations | Changes from variant 1 |");
+      lines.push("| --- | --- | --- |");
+      divergence.variants.forEach((variant, i) => {
+        const locations = variant.declarations
+          .map((d) => `\`${d.file}:${d.line}\``)
+          .join(", ");
+        const changes =
+          i === 0
+            ? "—"
+            : variant.changes
+              ? variant.changes
+                  .map((c) => `\`${formatMemberChange(c)}\``)
+                  .join(", ")
+              : formatVariantChanges(null);
+        lines.push(
+          `| ${i + 1}${i === 0 ? " (baseline)" : ""} | ${locations} | ${changes} |`,
+        );
+      });
+      lines.push("");
+    }
+  }
+
   // Shape duplicates
   if (meta.mode === "shape" || meta.mode === "both") {
     lines.push("## Duplicate Type Shapes");
@@ -270,22 +1122,32 @@ export function renderMarkdown(
       lines.push("");
     } else {
       let shapeIndex = 0;
-      for (const [, items] of shapeGroups) {
+      for (const [shape, items] of shapeGroups) {
         shapeIndex++;
         const names = [...new Set(items.map((i) => i.name))];
         const namesBadge = names.map((n) => `\`${n}\``).join(", ");
+        const visibility = groupVisibility(items);
+        const packages = describePackages(items, (n) => `\`${n}\``);
 
         lines.push(
-          `### Shape #${shapeIndex} — ${namesBadge} (${items.length} occurrences)`,
+          `### Shape #${shapeIndex} — ${namesBadge} (${formatOccurrences(items)})${visibility ? ` · ${visibility}` : ""}${packages ? ` · ${packages}` : ""}`,
         );
         lines.push("");
-        lines.push("| Kind | Name | File | Line |");
-        lines.push("| --- | --- | --- | --- |");
-        for (const item of items) {
+        const matches = sections.nestedShapeMatches?.get(shape);
+        if (matches && matches.length > 0) {
           lines.push(
-            `| \`${item.kind}\` | \`${item.name}\` | \`${item.file}\` | ${item.line} |`,
+            `Matched via nested duplicates: ${formatNestedMatches(matches, shapeGroups, "Shape #").join("; ")}`,
           );
+          lines.push("");
         }
+        const expansions = formatExpansions(items);
+        if (expansions.length > 0) {
+          lines.push(
+            `Matched after expanding utility types: ${expansions.map((e) => `\`${e}\``).join("; ")}`,
+          );
+          lines.push("");
+        }
+        lines.push(...renderDeclarationTable(items, "Name"));
         lines.push("");
 
         const representative = items[0];
@@ -303,6 +1165,189 @@ export function renderMarkdown(
     }
   }
 
+  // Similar (near-duplicate) types
+  if (meta.mode === "similar") {
+    lines.push("## Similar Types");
+    lines.push("");
+
+    if (similarGroups.length === 0) {
+      lines.push("✅ No similar types found.");
+      lines.push("");
+    } else {
+      let groupIndex = 0;
+      for (const group of similarGroups) {
+        groupIndex++;
+        const names = [
+          ...new Set(group.entries.map((e) => e.declaration.name)),
+        ];
+        const namesBadge = names.map((n) => `\`${n}\``).join(", ");
+
+        lines.push(
+          `### Similar #${groupIndex} — ${namesBadge} (score ${group.score.toFixed(2)})`,
+        );
+        lines.push("");
+        lines.push("| Kind | Name | File | Line | Differs by |");
+        lines.push("| --- | --- | --- | --- | --- |");
+        for (const entry of group.entries) {
+          const item = entry.declaration;
+          const diff = formatMemberDiff(entry);
+          lines.push(
+            `| \`${item.kind}\` | \`${item.qualifiedName}\` | \`${item.file}\` | ${item.line} | ${diff ? `\`${diff}\`` : "—"} |`,
+          );
+        }
+        lines.push("");
+        lines.push(
+          `Shared members: ${group.sharedMembers.map((m) => `\`${m}\``).join(", ") || "none"}`,
+        );
+        lines.push("");
+      }
+    }
+  }
+
+  // Type-checker equivalence
+  if (sections.semanticGroups) {
+    lines.push("## Semantically Equivalent Types");
+    lines.push("");
+
+    if (sections.semanticGroups.length === 0) {
+      lines.push("✅ No semantic duplicates found.");
+      lines.push("");
+    } else {
+      let groupIndex = 0;
+      for (const [members, items] of sections.semanticGroups) {
+        groupIndex++;
+        const names = [...new Set(items.map((i) => i.name))];
+        const namesBadge = names.map((n) => `\`${n}\``).join(", ");
+
+        lines.push(
+          `### Semantic #${groupIndex} — ${namesBadge} (${formatOccurrences(items)})`,
+        );
+        lines.push("");
+        lines.push(...renderDeclarationTable(items, "Name"));
+        lines.push("");
+        lines.push(`Members: \`${members}\``);
+        lines.push("");
+      }
+    }
+  }
+
+  // Subset / superset relations
+  if (sections.subsetRelations) {
+    lines.push("## Subset Types");
+    lines.push("");
+
+    if (sections.subsetRelations.length === 0) {
+      lines.push("✅ No subset types found.");
+      lines.push("");
+    } else {
+      lines.push("| Subset | Superset | Shared | Suggested refactor |");
+      lines.push("| --- | --- | --- | --- |");
+      for (const relation of sections.subsetRelations) {
+        const { subset, superset } = relation;
+        const total =
+          relation.sharedMembers.length + relation.extraMembers.length;
+        lines.push(
+          `| \`${subset.qualifiedName}\` (\`${subset.file}:${subset.line}\`) | \`${superset.qualifiedName}\` (\`${superset.file}:${superset.line}\`) | ${relation.sharedMembers.length} of ${total} | ${relation.suggestion ? `\`${relation.suggestion.text}\`` : "—"} |`,
+        );
+      }
+      lines.push("");
+    }
+  }
+
+  // Schema ↔ type findings
+  if (sections.schemaFindings) {
+    lines.push("## Schema Findings");
+    lines.push("");
+
+    if (sections.schemaFindings.length === 0) {
+      lines.push("✅ No schema duplicates or drift found.");
+      lines.push("");
+    } else {
+      lines.push("| Finding | Schema | Type | Differences |");
+      lines.push("| --- | --- | --- | --- |");
+      for (const finding of sections.schemaFindings) {
+        const { schema, declaration } = finding;
+        const differences =
+          finding.kind === "drift"
+            ? `\`${formatSchemaDrift(finding)}\``
+            : "—";
+        lines.push(
+          `| ${finding.kind} | \`${schema.qualifiedName}\` (${schema.kind}, \`${schema.file}:${schema.line}\`) | \`${declaration.qualifiedName}\` (${declaration.kind}, \`${declaration.file}:${declaration.line}\`) | ${differences} |`,
+        );
+      }
+      lines.push("");
+    }
+  }
+
+  // Declaration merges
+  if (sections.declarationMerges) {
+    lines.push("## Declaration Merges");
+    lines.push("");
+
+    if (sections.declarationMerges.length === 0) {
+      lines.push("✅ No merged declarations found.");
+      lines.push("");
+    } else {
+      lines.push("| Name | Container | Declarations |");
+      lines.push("| --- | --- | --- |");
+      for (const merge of sections.declarationMerges) {
+        const file = merge.declarations[0]?.file ?? "";
+        const locations = merge.declarations
+          .map((d) => `\`${d.file}:${d.line}\``)
+          .join(", ");
+        lines.push(
+          `| \`${merge.name}\` | ${formatContainer(merge.container, file)} | ${locations} |`,
+        );
+      }
+      lines.push("");
+    }
+  }
+
+  // Barrel conflicts
+  if (sections.barrelConflicts) {
+    lines.push("## Barrel Conflicts");
+    lines.push("");
+    lines.push(
+      "Names that several `export *` statements of one barrel expose from different declarations. TypeScript leaves them out of the barrel.",
+    );
+    lines.push("");
+    lines.push("| Barrel | Name | Sources |");
+    lines.push("| --- | --- | --- |");
+    for (const conflict of sections.barrelConflicts) {
+      const sources = conflict.sources
+        .map((s) => `\`${formatBarrelSource(s, conflict.name)}\``)
+        .join(", ");
+      lines.push(
+        `| \`${conflict.file}\` | \`${conflict.name}\` | ${sources} |`,
+      );
+    }
+    lines.push("");
+  }
+
+  // Value-set equivalents
+  if (sections.valueSetGroups) {
+    lines.push("## Value-Set Equivalents");
+    lines.push("");
+
+    let groupIndex = 0;
+    for (const group of sections.valueSetGroups) {
+      groupIndex++;
+      const names = [...new Set(group.declarations.map((d) => d.name))];
+      const namesBadge = names.map((n) => `\`${n}\``).join(", ");
+
+      lines.push(
+        `### Values #${groupIndex} — ${namesBadge} (${describeValueForms(group.forms)})`,
+      );
+      lines.push("");
+      lines.push(...renderDeclarationTable(group.declarations, "Name"));
+      lines.push("");
+      lines.push(
+        `Values: ${group.values.map((v) => `\`${v}\``).join(", ")}`,
+      );
+      lines.push("");
+    }
+  }
+
   // Footer
   lines.push("---");
   lines.push(
@@ -0,0 +1,170 @@
+import ts from "typescript";
+
+import { buildTypeShape, type ShapeContext } from "./shape.js";
+import type { ShapeMember, ShapeNode, ShapeParameter } from "./types.js";
+
+/** A `@typedef` or `@callback` tag and the node its comment is attached to. */
+export interface JsDocDeclaration {
+  tag: ts.JSDocTypedefTag | ts.JSDocCallbackTag;
+  name: string;
+  host: ts.Node;
+}
+
+const ANY: ShapeNode = { kind: "keyword", text: "any" };
+
+// ---------------------------------------------------------------------------
+// Tags
+// ---------------------------------------------------------------------------
+
+/**
+ * Nodes a `@typedef` comment can hang off: statements, class members and the
+ * end-of-file token. Only these are scanned, `getChildren` isn't cheap.
+ */
+function isJsDocHost(node: ts.Node): boolean {
+  return (
+    ts.isStatement(node) ||
+    ts.isClassElement(node) ||
+    node.kind === ts.SyntaxKind.EndOfFileToken
+  );
+}
+
+/**
+ * JSDoc comments attached to a node. `forEachChild` skips them, but
+ * `getChildren` lists every one — `getJSDocCommentsAndTags` would drop all
+ * but the last of several comments before one statement.
+ */
+function jsDocComments(node: ts.Node, sourceFile: ts.SourceFile): ts.JSDoc[] {
+  return isJsDocHost(node)
+    ? node.getChildren(sourceFile).filter(ts.isJSDoc)
+    : [];
+}
+
+/**
+ * Every named `@typedef` and `@callback` of a JavaScript file, in source
+ * order. Comments that precede no statement hang off the end-of-file token.
+ */
+export function collectJsDocDeclarations(
+  sourceFile: ts.SourceFile,
+): JsDocDeclaration[] {
+  const declarations: JsDocDeclaration[] = [];
+
+  const visit = (node: ts.Node): void => {
+    for (const comment of jsDocComments(node, sourceFile)) {
+      for (const tag of comment.tags ?? []) {
+        if (
+          (ts.isJSDocTypedefTag(tag) || ts.isJSDocCallbackTag(tag)) &&
+          tag.name &&
+          ts.isIdentifier(tag.name)
+        ) {
+          declarations.push({ tag, name: tag.name.text, host: node });
+        }
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return declarations;
+}
+
+/** The tag's source without comment decoration (` * `, `*\/`). */
+export function jsDocSnippet(
+  tag: ts.JSDocTag,
+  sourceFile: ts.SourceFile,
+): string {
+  return sourceFile.text
+    .slice(tag.getStart(sourceFile), tag.end)
+    .replace(/\*\/\s*$/, "")
+    .replace(/^[ \t]*\*(?!\/)[ \t]?/gm, "")
+    .trim();
+}
+
+// ---------------------------------------------------------------------------
+// Shapes
+// ---------------------------------------------------------------------------
+
+/** Shape of a `{Type}` expression or of an `@property` block. */
+function buildJsDocTypeShape(
+  node: ts.JSDocTypeExpression | ts.JSDocTypeLiteral | undefined,
+  ctx: ShapeContext,
+): ShapeNode {
+  if (!node) return ANY;
+  if (ts.isJSDocTypeExpression(node)) {
+    return ts.isJSDocTypeLiteral(node.type)
+      ? buildJsDocTypeShape(node.type, ctx)
+      : buildTypeShape(node.type, ctx);
+  }
+
+  const object: ShapeNode = {
+    kind: "object",
+    members: (node.jsDocPropertyTags ?? []).map((tag) =>
+      buildPropertyMember(tag, ctx),
+    ),
+  };
+  return node.isArrayType ? { kind: "array", element: object } : object;
+}
+
+/**
+ * `@property {string} [name]`: brackets and `{string=}` make it optional;
+ * nested `owner.name` tags were already folded into `owner`'s type.
+ */
+function buildPropertyMember(
+  tag: ts.JSDocPropertyLikeTag,
+  ctx: ShapeContext,
+): ShapeMember {
+  const type = tag.typeExpression;
+  return {
+    kind: "property",
+    name: ts.isIdentifier(tag.name) ? tag.name.text : tag.name.right.text,
+    optional:
+      tag.isBracketed ||
+      (!!type &&
+        ts.isJSDocTypeExpression(type) &&
+        ts.isJSDocOptionalType(type.type)),
+    readonly: false,
+    type: buildJsDocTypeShape(type, ctx),
+  };
+}
+
+function buildCallbackParameter(
+  tag: ts.JSDocParameterTag,
+  ctx: ShapeContext,
+): ShapeParameter {
+  const type = tag.typeExpression?.type;
+  return {
+    type: type ? buildTypeShape(type, ctx) : ANY,
+    optional: tag.isBracketed || (!!type && ts.isJSDocOptionalType(type)),
+    rest: !!type && ts.isJSDocVariadicType(type),
+  };
+}
+
+/**
+ * Shape of a `@typedef` or `@callback`, in the same model as TypeScript
+ * declarations: `@typedef {Object} User` with `@property` tags is an object
+ * type, and `@callback` with `@param` / `@returns` is a function type.
+ */
+export function buildJsDocShape(
+  declaration: JsDocDeclaration,
+  sourceFile: ts.SourceFile,
+): ShapeNode {
+  const ctx: ShapeContext = {
+    sourceFile,
+    selfName: declaration.name,
+    typeParameterScopes: [],
+  };
+  const { tag } = declaration;
+
+  if (ts.isJSDocTypedefTag(tag)) {
+    return buildJsDocTypeShape(tag.typeExpression, ctx);
+  }
+  const returns = tag.typeExpression.type?.typeExpression;
+  return {
+    kind: "function",
+    construct: false,
+    typeParameters: [],
+    parameters: tag.typeExpression.parameters.map((p) =>
+      buildCallbackParameter(p, ctx),
+    ),
+    returns: returns ? buildTypeShape(returns.type, ctx) : ANY,
+  };
+}
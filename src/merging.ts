@@ -0,0 +1,152 @@
+import path from "node:path";
+
+import { memberNames } from "./analyzer.js";
+import { makeIntersection, serializeShape } from "./shape.js";
+import type {
+  DeclarationMerge,
+  DeclarationRecord,
+  ShapeNode,
+  ShapeStrategy,
+} from "./types.js";
+import { groupBy } from "./utils.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Resolve a relative augmentation (`declare module "./user"`) against the
+ * declaring file so augmentations from different folders compare equal.
+ */
+function resolveModuleName(moduleName: string, file: string): string {
+  if (!moduleName.startsWith(".")) return moduleName;
+  return path.posix
+    .join(path.posix.dirname(file), moduleName)
+    .replace(/\.(d\.)?[cm]?tsx?$/, "");
+}
+
+/**
+ * Key of the declaration space a record's name lives in: the global scope,
+ * an augmented module, or a single file, plus the namespace path. Locals and
+ * re-exports never merge and get `null`.
+ */
+export function mergeScopeKey(declaration: DeclarationRecord): string | null {
+  const { container } = declaration;
+  if (declaration.isReExport || container.kind === "local") return null;
+
+  let scope: string;
+  if (container.kind === "global") {
+    scope = "global";
+  } else if (container.kind === "module") {
+    scope = `module:${resolveModuleName(container.module ?? "", declaration.file)}`;
+  } else {
+    scope = `file:${declaration.file}`;
+  }
+  return [scope, ...container.namespaces, declaration.name].join("::");
+}
+
+/**
+ * Split same-scope declarations into the sets TypeScript merges: interfaces
+ * (with at most one class) and enums. Type aliases and other kinds never
+ * merge.
+ */
+function mergeableSets(items: DeclarationRecord[]): DeclarationRecord[][] {
+  const interfaces = items.filter(
+    (d) => d.kind === "interface" || d.kind === "class",
+  );
+  const enums = items.filter((d) => d.kind === "enum");
+  const classes = interfaces.filter((d) => d.kind === "class").length;
+
+  return [classes <= 1 ? interfaces : [], enums].filter(
+    (set) => set.length > 1,
+  );
+}
+
+/** Combine the parts of a merge into one logical declaration. */
+function combine(
+  parts: DeclarationRecord[],
+  shapeStrategy: ShapeStrategy,
+): DeclarationRecord {
+  const primary = parts.find((d) => d.kind === "class") ?? parts[0];
+  if (!primary) throw new Error("Cannot combine an empty merge");
+
+  const shapes = parts.flatMap((d) => (d.shape ? [d.shape] : []));
+  let shape: ShapeNode | null = null;
+  if (shapes.length === parts.length) {
+    shape =
+      primary.kind === "enum"
+        ? {
+            kind: "enum",
+            members: shapes.flatMap((s) =>
+              s.kind === "enum" ? s.members : [],
+            ),
+          }
+        : makeIntersection(shapes);
+  }
+
+  const members = parts.flatMap((d) => d.members);
+  const propertyNames = memberNames(members);
+
+  return {
+    ...primary,
+    normalizedShape:
+      shape && shapeStrategy === "ast"
+        ? serializeShape(shape)
+        : parts.map((d) => d.normalizedShape).join(" & "),
+    shape,
+    members,
+    propertyCount: propertyNames.length,
+    propertyNames,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Declaration merging
+// ---------------------------------------------------------------------------
+
+/**
+ * Collapse declarations that TypeScript merges into one logical declaration:
+ * repeated `interface Window` blocks inside `declare global`, augmentations
+ * of the same `declare module "x"`, and interfaces / enums / classes
+ * redeclared in the same file or namespace. The merged declaration keeps the
+ * first part's location (the class, if any) and the combined members.
+ */
+export function mergeDeclarations(
+  declarations: DeclarationRecord[],
+  shapeStrategy: ShapeStrategy = "ast",
+): { declarations: DeclarationRecord[]; merges: DeclarationMerge[] } {
+  const mergeable = declarations.filter((d) => mergeScopeKey(d) !== null);
+  const byScope = groupBy(mergeable, (d) => mergeScopeKey(d) ?? "");
+
+  const replacements = new Map<DeclarationRecord, DeclarationRecord | null>();
+  const merges: DeclarationMerge[] = [];
+
+  for (const items of byScope.values()) {
+    for (const parts of mergeableSets(items)) {
+      const combined = combine(parts, shapeStrategy);
+      parts.forEach((part, i) => {
+        replacements.set(part, i === 0 ? combined : null);
+      });
+      merges.push({
+        name: combined.name,
+        container: combined.container,
+        declarations: parts,
+      });
+    }
+  }
+
+  const logical: DeclarationRecord[] = [];
+  for (const d of declarations) {
+    const replacement = replacements.has(d) ? replacements.get(d) : d;
+    if (replacement) logical.push(replacement);
+  }
+
+  return {
+    declarations: logical,
+    merges: merges.sort(
+      (a, b) =>
+        a.name.localeCompare(b.name) ||
+        b.declarations.length - a.declarations.length,
+    ),
+  };
+}
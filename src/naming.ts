@@ -0,0 +1,161 @@
+/** A name normalisation step for naming-convention-insensitive grouping. */
+export interface NameRule {
+  /** The rule as written on the command line, e.g. `case` or `suffix:Dto`. */
+  spec: string;
+  description: string;
+  apply: (name: string) => string;
+}
+
+/** Rules `default` stands for. */
+export const DEFAULT_NAME_RULES = [
+  "prefix:I",
+  "prefix:T",
+  "suffix:Dto",
+  "suffix:Type",
+  "suffix:Props",
+  "suffix:Model",
+  "words",
+  "case",
+] as const;
+
+const SEPARATORS = /^[_-]+|[_-]+$/g;
+
+/**
+ * Segments of a qualified name: `<local in Class.method>` scopes and
+ * `"module.name"` specifiers are one segment each, dots and all.
+ */
+const NAME_SEGMENT = /<[^>]*>|"[^"]*"|[^.]+/g;
+
+// ---------------------------------------------------------------------------
+// Rules
+// ---------------------------------------------------------------------------
+
+/**
+ * Strip a prefix that starts the name as its own word: `IUser` and `I_User`
+ * lose the `I`, but `IDCard` and `Item` don't.
+ */
+function prefixRule(prefix: string): NameRule {
+  return {
+    spec: `prefix:${prefix}`,
+    description: `Strip a leading "${prefix}" word (${prefix}User → User)`,
+    apply: (name) => {
+      const rest = name.slice(prefix.length);
+      const isWord = /^[_-]|^[A-Z][a-z\d]/.test(rest);
+      const stripped = rest.replace(SEPARATORS, "");
+      return name.startsWith(prefix) && isWord && stripped ? stripped : name;
+    },
+  };
+}
+
+/**
+ * Strip a trailing word, in any case: `UserDto`, `UserDTO` and `user_dto`
+ * lose the `Dto`, but `Undo` doesn't.
+ */
+function suffixRule(suffix: string): NameRule {
+  return {
+    spec: `suffix:${suffix}`,
+    description: `Strip a trailing "${suffix}" word in any case (User${suffix} → User)`,
+    apply: (name) => {
+      const start = name.length - suffix.length;
+      if (name.slice(start).toLowerCase() !== suffix.toLowerCase()) return name;
+      const before = name.charAt(start - 1);
+      const isWord =
+        /[_-]/.test(before) ||
+        (/[a-z\d]/.test(before) && /[A-Z]/.test(name.charAt(start)));
+      const stripped = name.slice(0, start).replace(SEPARATORS, "");
+      return isWord && stripped ? stripped : name;
+    },
+  };
+}
+
+const WORDS_RULE: NameRule = {
+  spec: "words",
+  description:
+    "Unify snake_case, kebab-case and camelCase words (user_dto, userDTO → UserDto)",
+  apply: (name) =>
+    name
+      .replace(/([a-z\d])([A-Z])/g, "$1 $2")
+      .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+      .split(/[\s_-]+/)
+      .filter(Boolean)
+      .map((word) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+      .join(""),
+};
+
+const CASE_RULE: NameRule = {
+  spec: "case",
+  description: "Ignore case (UserDTO → userdto)",
+  apply: (name) => name.toLowerCase(),
+};
+
+/** Affixes see the original casing and separators, so they run first. */
+function rulePhase(rule: NameRule): number {
+  if (rule.spec === "words") return 1;
+  if (rule.spec === "case") return 2;
+  return 0;
+}
+
+// ---------------------------------------------------------------------------
+// Parsing & normalisation
+// ---------------------------------------------------------------------------
+
+/**
+ * Build rules from specs: `case`, `words`, `prefix:<text>`, `suffix:<text>`,
+ * or `default` for all built-in ones. Throws on unknown specs.
+ */
+export function parseNameRules(specs: readonly string[]): NameRule[] {
+  const expanded = specs.flatMap((spec) =>
+    spec === "default" ? [...DEFAULT_NAME_RULES] : [spec.trim()],
+  );
+
+  const rules = new Map<string, NameRule>();
+  for (const spec of expanded) {
+    if (!spec || rules.has(spec)) continue;
+    const colon = spec.indexOf(":");
+    const kind = colon === -1 ? spec : spec.slice(0, colon);
+    const affix = colon === -1 ? "" : spec.slice(colon + 1);
+    const rule =
+      spec === "words"
+        ? WORDS_RULE
+        : spec === "case"
+          ? CASE_RULE
+          : kind === "prefix" && affix
+            ? prefixRule(affix)
+            : kind === "suffix" && affix
+              ? suffixRule(affix)
+              : null;
+    if (!rule) {
+      throw new Error(
+        `Invalid name rule: ${spec}. Expected: default, case, words, prefix:<text> or suffix:<text>`,
+      );
+    }
+    rules.set(spec, rule);
+  }
+
+  return [...rules.values()].sort((a, b) => rulePhase(a) - rulePhase(b));
+}
+
+/**
+ * Normalise a (possibly qualified) name for grouping: affix rules first, in
+ * the order given, then `words`, then `case`. Each segment of `Api.UserDto`
+ * is normalised on its own; `<local in Class.method>` scopes and quoted
+ * module names are kept as they are.
+ */
+export function normalizeName(
+  name: string,
+  rules: readonly NameRule[],
+): string {
+  if (rules.length === 0) return name;
+  return (name.match(NAME_SEGMENT) ?? [])
+    .map((segment) =>
+      segment.startsWith("<") || segment.startsWith('"')
+        ? segment
+        : rules.reduce((result, rule) => rule.apply(result), segment),
+    )
+    .join(".");
+}
+
+/** The built-in rules with their descriptions, for `--list-name-rules`. */
+export function listNameRules(): NameRule[] {
+  return parseNameRules(["default"]);
+}
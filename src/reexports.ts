@@ -0,0 +1,194 @@
+import { resolveModuleSpecifier } from "./surface.js";
+import type {
+  BarrelConflict,
+  BarrelConflictSource,
+  DeclarationRecord,
+  ModuleExports,
+  ModuleResolution,
+  ReExportSite,
+} from "./types.js";
+
+/** The module that declares an exported name, and its name there. */
+export interface ExportOrigin {
+  file: string;
+  name: string;
+}
+
+// ---------------------------------------------------------------------------
+// Re-export chains
+// ---------------------------------------------------------------------------
+
+/**
+ * Follow an export of `file` through `export ... from`, re-exported imports
+ * and `export *` to the module that declares it. Returns `null` for names
+ * that leave the scanned files, namespace re-exports, and names that
+ * several `export *` statements expose from different declarations.
+ */
+export function resolveExportOrigin(
+  file: string,
+  name: string,
+  modules: ReadonlyMap<string, ModuleExports>,
+  resolution: ModuleResolution | null = null,
+  seen: Set<string> = new Set(),
+): ExportOrigin | null {
+  const key = `${file}::${name}`;
+  if (seen.has(key)) return null;
+  seen.add(key);
+
+  const mod = modules.get(file);
+  if (!mod) return null;
+
+  const local = mod.local.get(name);
+  if (local) return { file, name: local };
+
+  const named = mod.named.get(name);
+  if (named) {
+    if (named.name === "*") return null;
+    const target = resolveModuleSpecifier(
+      file,
+      named.specifier,
+      modules,
+      resolution,
+    );
+    return target
+      ? resolveExportOrigin(target, named.name, modules, resolution, seen)
+      : null;
+  }
+
+  if (name === "default") return null;
+  const origins = new Map<string, ExportOrigin>();
+  for (const specifier of mod.star) {
+    const target = resolveModuleSpecifier(file, specifier, modules, resolution);
+    const origin =
+      target &&
+      resolveExportOrigin(target, name, modules, resolution, new Set(seen));
+    if (origin) origins.set(`${origin.file}::${origin.name}`, origin);
+  }
+  return origins.size === 1 ? ([...origins.values()][0] ?? null) : null;
+}
+
+/** Every name a module exports, following `export *` (never `default`). */
+function exportedNames(
+  file: string,
+  modules: ReadonlyMap<string, ModuleExports>,
+  resolution: ModuleResolution | null,
+  seen: Set<string> = new Set(),
+): Set<string> {
+  const names = new Set<string>();
+  const mod = modules.get(file);
+  if (!mod || seen.has(file)) return names;
+  seen.add(file);
+
+  for (const name of [...mod.local.keys(), ...mod.named.keys()]) {
+    if (name !== "default") names.add(name);
+  }
+  for (const specifier of mod.star) {
+    const target = resolveModuleSpecifier(file, specifier, modules, resolution);
+    if (!target) continue;
+    for (const name of exportedNames(target, modules, resolution, seen)) {
+      names.add(name);
+    }
+  }
+  return names;
+}
+
+/**
+ * Collapse re-export records into the declaration they re-export. A record
+ * whose chain ends at a scanned declaration is dropped and listed in that
+ * declaration's `reExports`; unresolved ones (packages, functions, values)
+ * are kept as they are.
+ */
+export function collapseReExports(
+  declarations: DeclarationRecord[],
+  modules: ReadonlyMap<string, ModuleExports>,
+  resolution: ModuleResolution | null = null,
+): DeclarationRecord[] {
+  const origins = new Map<string, DeclarationRecord>();
+  for (const d of declarations) {
+    const key = `${d.file}::${d.name}`;
+    if (
+      !d.isReExport &&
+      d.container.kind === "file" &&
+      d.container.namespaces.length === 0 &&
+      !origins.has(key)
+    ) {
+      origins.set(key, d);
+    }
+  }
+
+  const sites = new Map<DeclarationRecord, ReExportSite[]>();
+  const collapsed = new Set<DeclarationRecord>();
+  for (const d of declarations) {
+    if (!d.isReExport) continue;
+    const origin = resolveExportOrigin(d.file, d.name, modules, resolution);
+    const target = origin && origins.get(`${origin.file}::${origin.name}`);
+    if (!target) continue;
+
+    collapsed.add(d);
+    const list = sites.get(target) ?? [];
+    list.push({ file: d.file, line: d.line, name: d.name });
+    sites.set(target, list);
+  }
+
+  return declarations.flatMap((d) => {
+    if (collapsed.has(d)) return [];
+    const reExports = sites.get(d);
+    return reExports ? [{ ...d, reExports }] : [d];
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Barrel conflicts
+// ---------------------------------------------------------------------------
+
+/**
+ * Find names that two `export *` statements of the same barrel expose from
+ * different declarations. Names the barrel exports itself shadow the star
+ * exports and don't conflict.
+ */
+export function findBarrelConflicts(
+  modules: ReadonlyMap<string, ModuleExports>,
+  resolution: ModuleResolution | null = null,
+): BarrelConflict[] {
+  const conflicts: BarrelConflict[] = [];
+
+  for (const mod of modules.values()) {
+    if (mod.star.length < 2) continue;
+
+    const sourcesByName = new Map<string, Map<string, BarrelConflictSource>>();
+    for (const specifier of mod.star) {
+      const target = resolveModuleSpecifier(
+        mod.file,
+        specifier,
+        modules,
+        resolution,
+      );
+      if (!target) continue;
+
+      for (const name of exportedNames(target, modules, resolution)) {
+        if (mod.local.has(name) || mod.named.has(name)) continue;
+        const origin = resolveExportOrigin(target, name, modules, resolution);
+        if (!origin) continue;
+
+        const sources = sourcesByName.get(name) ?? new Map();
+        const key = `${origin.file}::${origin.name}`;
+        if (!sources.has(key)) sources.set(key, { specifier, ...origin });
+        sourcesByName.set(name, sources);
+      }
+    }
+
+    for (const [name, sources] of sourcesByName) {
+      if (sources.size > 1) {
+        conflicts.push({
+          file: mod.file,
+          name,
+          sources: [...sources.values()],
+        });
+      }
+    }
+  }
+
+  return conflicts.sort(
+    (a, b) => a.file.localeCompare(b.file) || a.name.localeCompare(b.name),
+  );
+}
@@ -3,24 +3,140 @@ import { promises as fs } from "node:fs";
 import path from "node:path";
 import ts from "typescript";
 
-import { DEFAULT_IGNORED_DIRS, TYPE_EXTENSIONS } from "./constants.js";
-import { matchesExclude, toPosix } from "./utils.js";
+import {
+  COMPONENT_EXTENSIONS,
+  DEFAULT_IGNORED_DIRS,
+  IGNORE_FILES,
+  SCRIPT_EXTENSIONS,
+  TYPE_EXTENSIONS,
+} from "./constants.js";
+import type { ModuleResolution, TsConfigProject } from "./types.js";
+import {
+  compilePathPattern,
+  compilePathPatterns,
+  lastMatchingPattern,
+  matchesPathPatterns,
+  type PathPattern,
+  toPosix,
+} from "./utils.js";
+
+/** Patterns of the ignore files in one folder, relative to that folder. */
+interface IgnoreRules {
+  dir: string;
+  patterns: PathPattern[];
+}
 
 // ---------------------------------------------------------------------------
 // File discovery
 // ---------------------------------------------------------------------------
 
 /**
- * Walk a directory tree and collect TypeScript source file paths.
+ * Whether a file is scanned: TypeScript sources and components, plus
+ * JavaScript ones with `includeJs`.
+ */
+function isScannedFile(file: string, includeJs: boolean): boolean {
+  if (file.endsWith(".d.ts")) return true;
+  const ext = path.extname(file);
+  return (
+    TYPE_EXTENSIONS.has(ext) ||
+    COMPONENT_EXTENSIONS.has(ext) ||
+    (includeJs && SCRIPT_EXTENSIONS.has(ext))
+  );
+}
+
+/** How to parse a scanned file; JSDoc only declares types in JS files. */
+export function scriptKindFor(file: string): ts.ScriptKind {
+  switch (path.extname(file)) {
+    case ".tsx":
+      return ts.ScriptKind.TSX;
+    case ".jsx":
+      return ts.ScriptKind.JSX;
+    case ".js":
+    case ".mjs":
+    case ".cjs":
+      return ts.ScriptKind.JS;
+    default:
+      return ts.ScriptKind.TS;
+  }
+}
+
+/**
+ * Read the `.gitignore` / `.typehuntignore` files of a folder. Blank lines
+ * and `#` comments are skipped; the rest are patterns as `.gitignore` has
+ * them (see `compilePathPattern`).
+ */
+async function readIgnoreRules(dir: string): Promise<IgnoreRules | null> {
+  const patterns: PathPattern[] = [];
+  for (const name of IGNORE_FILES) {
+    const text = await fs
+      .readFile(path.join(dir, name), "utf8")
+      .catch(() => null);
+    for (const line of text?.split(/\r?\n/) ?? []) {
+      const pattern = line.startsWith("#") ? null : compilePathPattern(line);
+      if (pattern) patterns.push(pattern);
+    }
+  }
+  return patterns.length > 0 ? { dir, patterns } : null;
+}
+
+/**
+ * Folders between the working directory and `rootDir` (both included), so
+ * ignore files above the scanned root apply too.
+ */
+function ancestorDirs(rootDir: string): string[] {
+  const cwd = process.cwd();
+  const rel = path.relative(cwd, rootDir);
+  if (rel.startsWith("..") || path.isAbsolute(rel)) return [rootDir];
+
+  const dirs = [cwd];
+  for (const segment of rel.split(path.sep).filter(Boolean)) {
+    dirs.push(path.join(dirs[dirs.length - 1] ?? cwd, segment));
+  }
+  return dirs;
+}
+
+/** Whether ignore rules exclude a path; deeper ignore files win. */
+function isIgnored(
+  fullPath: string,
+  isDirectory: boolean,
+  rules: readonly IgnoreRules[],
+): boolean {
+  let ignored = false;
+  for (const { dir, patterns } of rules) {
+    const rel = toPosix(path.relative(dir, fullPath));
+    const last = lastMatchingPattern(rel, patterns, isDirectory);
+    if (last) ignored = !last.negated;
+  }
+  return ignored;
+}
+
+/**
+ * Walk a directory tree and collect TypeScript source file paths, plus
+ * JavaScript ones with `includeJs`.
  * Used when `--tsconfig` is NOT provided.
+ *
+ * `--exclude` and `--include` globs match paths relative to the working
+ * directory; with `include`, only files matching one of them are listed.
+ * `.gitignore` and `.typehuntignore` files apply to their folder and
+ * everything below it, at any depth.
  */
 export async function getTypeFilesFromDirectory(
   rootDir: string,
   extraExclude: string[],
+  includeJs = false,
+  include: string[] = [],
 ): Promise<string[]> {
   const results: string[] = [];
+  const excludePatterns = compilePathPatterns(extraExclude);
+  const includePatterns = compilePathPatterns(include);
+  // A negated exclude can re-include files below an excluded folder, so
+  // folders are only skipped as a whole when there is none.
+  const pruneExcluded = excludePatterns.every((p) => !p.negated);
 
-  async function walk(currentDir: string): Promise<void> {
+  async function walk(
+    currentDir: string,
+    inherited: readonly IgnoreRules[],
+  ): Promise<void> {
     let entries: Dirent[];
     try {
       entries = await fs.readdir(currentDir, { withFileTypes: true });
@@ -28,45 +144,87 @@ export async function getTypeFilesFromDirectory(
       return;
     }
 
+    const own = await readIgnoreRules(currentDir);
+    const rules = own ? [...inherited, own] : inherited;
+
     for (const entry of entries) {
       const fullPath = path.join(currentDir, entry.name);
 
       if (entry.isSymbolicLink()) continue;
 
       const rel = toPosix(path.relative(process.cwd(), fullPath));
+      const isDirectory = entry.isDirectory();
 
-      if (entry.isDirectory() && DEFAULT_IGNORED_DIRS.has(entry.name)) continue;
-
-      if (matchesExclude(rel, extraExclude)) continue;
-
-      if (entry.isDirectory()) {
-        await walk(fullPath);
-        continue;
-      }
+      if (isDirectory && DEFAULT_IGNORED_DIRS.has(entry.name)) continue;
 
-      if (!entry.isFile()) continue;
+      if (isIgnored(fullPath, isDirectory, rules)) continue;
 
-      if (entry.name.endsWith(".d.ts")) {
-        results.push(fullPath);
+      if (isDirectory) {
+        if (pruneExcluded && matchesPathPatterns(rel, excludePatterns, true)) {
+          continue;
+        }
+        await walk(fullPath, rules);
         continue;
       }
 
-      const ext = path.extname(entry.name);
-      if (TYPE_EXTENSIONS.has(ext)) {
+      if (
+        entry.isFile() &&
+        isScannedFile(entry.name, includeJs) &&
+        !matchesPathPatterns(rel, excludePatterns) &&
+        (includePatterns.length === 0 ||
+          matchesPathPatterns(rel, includePatterns))
+      ) {
         results.push(fullPath);
       }
     }
   }
 
-  await walk(rootDir);
+  const ancestors = ancestorDirs(rootDir).slice(0, -1);
+  const inherited: IgnoreRules[] = [];
+  for (const dir of ancestors) {
+    const rules = await readIgnoreRules(dir);
+    if (rules) inherited.push(rules);
+  }
+
+  await walk(rootDir, inherited);
   return results;
 }
 
 /**
- * Use `tsconfig.json` to resolve the file list.
- * This respects `include`, `exclude`, `files`, and `extends`.
+ * Narrow a tsconfig's file list by `--exclude` and `--include` globs, matched
+ * against paths relative to the working directory.
  */
-export function getTypeFilesFromTsConfig(tsconfigPath: string): string[] {
+export function applyPathFilters(
+  files: string[],
+  exclude: string[],
+  include: string[],
+): string[] {
+  const excludePatterns = compilePathPatterns(exclude);
+  const includePatterns = compilePathPatterns(include);
+  if (excludePatterns.length === 0 && includePatterns.length === 0) {
+    return files;
+  }
+
+  return files.filter((file) => {
+    const rel = toPosix(path.relative(process.cwd(), file));
+    return (
+      !matchesPathPatterns(rel, excludePatterns) &&
+      (includePatterns.length === 0 ||
+        matchesPathPatterns(rel, includePatterns))
+    );
+  });
+}
+
+/**
+ * Read and parse a `tsconfig.json`, resolving `extends`.
+ * Fatal errors throw; non-fatal diagnostics are left in `parsed.errors`.
+ */
+export function parseTsConfig(
+  tsconfigPath: string,
+  host: ts.ParseConfigHost = ts.sys,
+  existingOptions?: ts.CompilerOptions,
+  extraFileExtensions?: readonly ts.FileExtensionInfo[],
+): ts.ParsedCommandLine {
   const absolutePath = path.resolve(process.cwd(), tsconfigPath);
   const configDir = path.dirname(absolutePath);
 
@@ -84,24 +242,106 @@ export function getTypeFilesFromTsConfig(tsconfigPath: string): string[] {
     throw new Error(`Failed to parse ${tsconfigPath}: ${message}`);
   }
 
-  const parsed = ts.parseJsonConfigFileContent(
+  return ts.parseJsonConfigFileContent(
     config,
-    ts.sys,
+    host,
     configDir,
-    undefined,
+    existingOptions,
     absolutePath,
+    undefined,
+    extraFileExtensions,
   );
+}
 
-  if (parsed.errors.length > 0) {
-    const messages = parsed.errors
-      .map((d) => ts.flattenDiagnosticMessageText(d.messageText, "\n"))
-      .join("\n");
-    console.error(`tsconfig warnings:\n${messages}`);
-  }
+/**
+ * Use `tsconfig.json` to resolve the file list, following project
+ * `references` depth-first, so a solution-style config with `"files": []`
+ * lists the files of the projects it references.
+ * This respects `include`, `exclude`, `files`, and `extends`, and lists
+ * `.vue` / `.svelte` / `.astro` files that `include` matches. With
+ * `includeJs`, JavaScript files are listed as if `allowJs` were set.
+ *
+ * Returns every project reached, the given one first; a file listed by
+ * several projects belongs to the first. Circular references are reported
+ * and skipped.
+ */
+export function getTsConfigProjects(
+  tsconfigPath: string,
+  includeJs = false,
+): TsConfigProject[] {
+  const projects: TsConfigProject[] = [];
+  const listed = new Set<string>();
+  const done = new Set<string>();
+  const stack: string[] = [];
+  const relative = (file: string) =>
+    toPosix(path.relative(process.cwd(), file));
+
+  const visit = (configPath: string): void => {
+    const absolutePath = path.resolve(process.cwd(), configPath);
+    const cycleStart = stack.indexOf(absolutePath);
+    if (cycleStart !== -1) {
+      const cycle = [...stack.slice(cycleStart), absolutePath];
+      console.error(
+        `Skipping circular project reference: ${cycle.map(relative).join(" → ")}`,
+      );
+      return;
+    }
+    if (done.has(absolutePath)) return;
+
+    const parsed = parseTsConfig(
+      absolutePath,
+      ts.sys,
+      includeJs ? { allowJs: true } : undefined,
+      [...COMPONENT_EXTENSIONS].map((extension) => ({
+        extension,
+        isMixedContent: true,
+        scriptKind: ts.ScriptKind.Deferred,
+      })),
+    );
+
+    if (parsed.errors.length > 0) {
+      const messages = parsed.errors
+        .map((d) => ts.flattenDiagnosticMessageText(d.messageText, "\n"))
+        .join("\n");
+      console.error(
+        `tsconfig warnings (${relative(absolutePath)}):\n${messages}`,
+      );
+    }
+
+    const files = parsed.fileNames
+      .map((f) => path.resolve(f))
+      .filter((f) => isScannedFile(f, includeJs) && !listed.has(f));
+    for (const file of files) listed.add(file);
+    projects.push({ tsconfig: relative(absolutePath), files });
 
-  return parsed.fileNames.filter((f) => {
-    if (f.endsWith(".d.ts")) return true;
-    const ext = path.extname(f);
-    return TYPE_EXTENSIONS.has(ext);
+    stack.push(absolutePath);
+    for (const reference of parsed.projectReferences ?? []) {
+      visit(ts.resolveProjectReferencePath(reference));
+    }
+    stack.pop();
+    done.add(absolutePath);
+  };
+
+  visit(tsconfigPath);
+  return projects;
+}
+
+/**
+ * Read `baseUrl` / `paths` from a tsconfig (resolving `extends`) for
+ * resolving bare module specifiers.
+ */
+export function getModuleResolution(tsconfigPath: string): ModuleResolution {
+  // Only compiler options are needed, so skip expanding `include` globs.
+  const { options } = parseTsConfig(tsconfigPath, {
+    ...ts.sys,
+    readDirectory: () => [],
   });
+  const configDir = path.dirname(path.resolve(process.cwd(), tsconfigPath));
+  const relative = (dir: string) => toPosix(path.relative(process.cwd(), dir));
+
+  return {
+    baseUrl: options.baseUrl ? relative(options.baseUrl) : null,
+    pathsBase: relative(options.baseUrl ?? configDir),
+    paths: options.paths ?? {},
+  };
 }
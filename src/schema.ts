@@ -0,0 +1,707 @@
+import ts from "typescript";
+
+import { makeIntersection, memberNameText, serializeMember } from "./shape.js";
+import type {
+  DeclarationRecord,
+  SchemaFinding,
+  SchemaKind,
+  ShapeMember,
+  ShapeNode,
+} from "./types.js";
+import { SCHEMA_KINDS } from "./types.js";
+import { normalizeWhitespace } from "./utils.js";
+
+/** Module specifiers that identify each schema library. */
+const SCHEMA_MODULES: Record<SchemaKind, RegExp> = {
+  zod: /^zod(\/.*)?$/,
+  valibot: /^valibot$/,
+  yup: /^yup$/,
+};
+
+/** Local names bound to a schema library in one file. */
+export interface SchemaImports {
+  /** `z`, `v`, `yup`, … → library (namespace-style access: `z.object()`). */
+  namespaces: Map<string, SchemaKind>;
+  /** Named imports such as `import { object } from "yup"`: local → [library, imported name]. */
+  functions: Map<string, [SchemaKind, string]>;
+}
+
+/** A converted schema: its static type and whether the key may be omitted. */
+interface SchemaType {
+  type: ShapeNode;
+  optional: boolean;
+}
+
+interface SchemaContext {
+  kind: SchemaKind;
+  imports: SchemaImports;
+  sourceFile: ts.SourceFile;
+}
+
+interface SchemaCall {
+  name: string;
+  args: readonly ts.Expression[];
+}
+
+// ---------------------------------------------------------------------------
+// Import detection
+// ---------------------------------------------------------------------------
+
+function schemaModuleKind(specifier: string): SchemaKind | null {
+  return (
+    SCHEMA_KINDS.find((kind) => SCHEMA_MODULES[kind].test(specifier)) ?? null
+  );
+}
+
+/**
+ * Find the identifiers a file uses to reach zod, valibot or yup:
+ * `import { z } from "zod"`, `import * as v from "valibot"`,
+ * `import yup from "yup"` and named builder imports.
+ */
+export function collectSchemaImports(sourceFile: ts.SourceFile): SchemaImports {
+  const imports: SchemaImports = {
+    namespaces: new Map(),
+    functions: new Map(),
+  };
+
+  for (const statement of sourceFile.statements) {
+    if (
+      !ts.isImportDeclaration(statement) ||
+      !ts.isStringLiteral(statement.moduleSpecifier) ||
+      !statement.importClause
+    ) {
+      continue;
+    }
+    const kind = schemaModuleKind(statement.moduleSpecifier.text);
+    if (!kind) continue;
+
+    const { name, namedBindings } = statement.importClause;
+    if (name) imports.namespaces.set(name.text, kind);
+    if (namedBindings && ts.isNamespaceImport(namedBindings)) {
+      imports.namespaces.set(namedBindings.name.text, kind);
+    } else if (namedBindings) {
+      for (const element of namedBindings.elements) {
+        const imported = (element.propertyName ?? element.name).text;
+        if (imported === "z") {
+          imports.namespaces.set(element.name.text, kind);
+        } else {
+          imports.functions.set(element.name.text, [kind, imported]);
+        }
+      }
+    }
+  }
+
+  return imports;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const KEYWORD_BUILDERS = new Set([
+  "string",
+  "number",
+  "boolean",
+  "bigint",
+  "symbol",
+  "any",
+  "unknown",
+  "undefined",
+  "void",
+  "never",
+]);
+
+function keyword(text: string): ShapeNode {
+  return { kind: "keyword", text };
+}
+
+const NULL: ShapeNode = { kind: "literal", text: "null" };
+
+function opaque(node: ts.Node, sourceFile: ts.SourceFile): ShapeNode {
+  return {
+    kind: "opaque",
+    text: normalizeWhitespace(node.getText(sourceFile)),
+  };
+}
+
+function union(types: ShapeNode[]): ShapeNode {
+  const flat = types.flatMap((t) => (t.kind === "union" ? t.types : [t]));
+  const [only] = flat;
+  return flat.length === 1 && only ? only : { kind: "union", types: flat };
+}
+
+/** Type of a schema used outside an object key: optional becomes `| undefined`. */
+function valueType(schema: SchemaType): ShapeNode {
+  return schema.optional
+    ? union([schema.type, keyword("undefined")])
+    : schema.type;
+}
+
+function literalType(
+  expr: ts.Expression | undefined,
+  ctx: SchemaContext,
+): ShapeNode {
+  if (!expr) return keyword("unknown");
+  if (ts.isStringLiteral(expr) || ts.isNoSubstitutionTemplateLiteral(expr)) {
+    return { kind: "literal", text: JSON.stringify(expr.text) };
+  }
+  if (ts.isNumericLiteral(expr)) {
+    return { kind: "literal", text: String(Number(expr.text)) };
+  }
+  if (
+    ts.isPrefixUnaryExpression(expr) &&
+    expr.operator === ts.SyntaxKind.MinusToken &&
+    ts.isNumericLiteral(expr.operand)
+  ) {
+    return { kind: "literal", text: String(-Number(expr.operand.text)) };
+  }
+  if (
+    expr.kind === ts.SyntaxKind.TrueKeyword ||
+    expr.kind === ts.SyntaxKind.FalseKeyword
+  ) {
+    return { kind: "literal", text: expr.getText(ctx.sourceFile) };
+  }
+  if (expr.kind === ts.SyntaxKind.NullKeyword) return NULL;
+  return opaque(expr, ctx.sourceFile);
+}
+
+function arrayElements(
+  expr: ts.Expression | undefined,
+): readonly ts.Expression[] | null {
+  return expr && ts.isArrayLiteralExpression(expr) ? expr.elements : null;
+}
+
+/** Union of literals for `z.enum([...])`, `v.picklist([...])`, `.oneOf([...])`. */
+function literalUnion(
+  expr: ts.Expression | undefined,
+  ctx: SchemaContext,
+): ShapeNode {
+  if (!expr) return keyword("unknown");
+  const elements = arrayElements(expr);
+  return elements
+    ? union(elements.map((e) => literalType(e, ctx)))
+    : opaque(expr, ctx.sourceFile);
+}
+
+/** Convert a list of schemas given as an array literal. */
+function schemaList(
+  expr: ts.Expression | undefined,
+  ctx: SchemaContext,
+): ShapeNode[] | null {
+  const elements = arrayElements(expr);
+  return elements
+    ? elements.map((e) => valueType(convertSchema(e, ctx)))
+    : null;
+}
+
+function objectMembers(
+  expr: ts.Expression | undefined,
+  ctx: SchemaContext,
+): ShapeMember[] | null {
+  if (!expr || !ts.isObjectLiteralExpression(expr)) return null;
+
+  const members: ShapeMember[] = [];
+  for (const property of expr.properties) {
+    let value: SchemaType;
+    if (ts.isPropertyAssignment(property)) {
+      value = convertSchema(property.initializer, ctx);
+    } else if (ts.isShorthandPropertyAssignment(property)) {
+      value = convertSchema(property.name, ctx);
+    } else {
+      continue;
+    }
+    members.push({
+      kind: "property",
+      name: memberNameText(property.name, ctx.sourceFile),
+      optional: value.optional,
+      readonly: false,
+      type: value.type,
+    });
+  }
+  return members;
+}
+
+/** `{ a: true, b: true }` (zod/valibot masks) or `["a", "b"]` (yup). */
+function maskKeys(
+  expr: ts.Expression | undefined,
+  ctx: SchemaContext,
+): Set<string> | null {
+  if (!expr) return null;
+  if (ts.isObjectLiteralExpression(expr)) {
+    return new Set(
+      expr.properties.flatMap((p) =>
+        p.name ? [memberNameText(p.name, ctx.sourceFile)] : [],
+      ),
+    );
+  }
+  const elements = arrayElements(expr);
+  return elements
+    ? new Set(elements.filter(ts.isStringLiteralLike).map((e) => e.text))
+    : null;
+}
+
+function mapObject(
+  type: ShapeNode,
+  fn: (members: ShapeMember[]) => ShapeMember[],
+): ShapeNode | null {
+  return type.kind === "object"
+    ? { kind: "object", members: fn(type.members) }
+    : null;
+}
+
+/** Merge extra members into an object schema; later keys override. */
+function extendObject(type: ShapeNode, members: ShapeMember[]): ShapeNode {
+  const names = new Set(members.map((m) => m.name));
+  return (
+    mapObject(type, (existing) => [
+      ...existing.filter((m) => !names.has(m.name)),
+      ...members,
+    ]) ?? makeIntersection([type, { kind: "object", members }])
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Schema → shape conversion
+// ---------------------------------------------------------------------------
+
+/**
+ * Split `z.object({...}).extend({...}).optional()` into its base builder call
+ * and the chained method calls. Returns the base as a reference name when the
+ * chain starts from another schema constant.
+ */
+function unwindChain(
+  expr: ts.Expression,
+  ctx: SchemaContext,
+): { base: SchemaCall | string; chain: SchemaCall[] } | null {
+  const chain: SchemaCall[] = [];
+  let current = expr;
+
+  for (;;) {
+    if (ts.isCallExpression(current)) {
+      const callee = current.expression;
+      if (ts.isPropertyAccessExpression(callee)) {
+        const call = { name: callee.name.text, args: current.arguments };
+        if (
+          ts.isIdentifier(callee.expression) &&
+          ctx.imports.namespaces.get(callee.expression.text) === ctx.kind
+        ) {
+          return { base: call, chain };
+        }
+        chain.unshift(call);
+        current = callee.expression;
+        continue;
+      }
+      if (ts.isIdentifier(callee)) {
+        const imported = ctx.imports.functions.get(callee.text);
+        if (imported && imported[0] === ctx.kind) {
+          return {
+            base: { name: imported[1], args: current.arguments },
+            chain,
+          };
+        }
+      }
+      return null;
+    }
+    if (ts.isIdentifier(current)) return { base: current.text, chain };
+    return null;
+  }
+}
+
+/** Shape of a base builder call such as `z.string()` or `v.object({...})`. */
+function baseSchema(call: SchemaCall, ctx: SchemaContext): SchemaType {
+  const [first, second] = call.args;
+  // yup fields are `T | undefined` until `.required()` / `.defined()`.
+  const optional = ctx.kind === "yup" && call.name !== "object";
+  const result = (type: ShapeNode | null): SchemaType => ({
+    type: type ?? { kind: "opaque", text: call.name },
+    optional,
+  });
+
+  if (KEYWORD_BUILDERS.has(call.name)) return result(keyword(call.name));
+
+  switch (call.name) {
+    case "null":
+    case "null_":
+      return result(NULL);
+    case "mixed":
+      return result(keyword("unknown"));
+    case "date":
+      return result({ kind: "ref", name: "Date", args: [] });
+    case "literal":
+      return result(literalType(first, ctx));
+    case "object":
+    case "strictObject":
+    case "looseObject":
+      return result({
+        kind: "object",
+        members: objectMembers(first, ctx) ?? [],
+      });
+    case "array":
+      return result({
+        kind: "array",
+        element: first
+          ? valueType(convertSchema(first, ctx))
+          : keyword("unknown"),
+      });
+    case "tuple": {
+      const elements = schemaList(first, ctx);
+      return result(
+        elements && {
+          kind: "tuple",
+          elements: elements.map((type) => ({
+            type,
+            optional: false,
+            rest: false,
+          })),
+        },
+      );
+    }
+    case "union": {
+      const types = schemaList(first, ctx);
+      return result(types && union(types));
+    }
+    case "intersection":
+      return result(
+        first && second
+          ? makeIntersection([
+              valueType(convertSchema(first, ctx)),
+              valueType(convertSchema(second, ctx)),
+            ])
+          : null,
+      );
+    case "intersect": {
+      const types = schemaList(first, ctx);
+      return result(types && makeIntersection(types));
+    }
+    case "enum":
+    case "picklist":
+      // `v.enum(Direction)` wraps a TS enum; `z.enum([...])` lists literals.
+      return result(
+        first && ts.isIdentifier(first)
+          ? { kind: "ref", name: first.text, args: [] }
+          : literalUnion(first, ctx),
+      );
+    case "nativeEnum":
+      return result(
+        first && ts.isIdentifier(first)
+          ? { kind: "ref", name: first.text, args: [] }
+          : null,
+      );
+    case "record": {
+      const [key, value] = second ? [first, second] : [undefined, first];
+      return result({
+        kind: "ref",
+        name: "Record",
+        args: [
+          key ? valueType(convertSchema(key, ctx)) : keyword("string"),
+          value ? valueType(convertSchema(value, ctx)) : keyword("unknown"),
+        ],
+      });
+    }
+    case "optional":
+    case "exactOptional":
+      return first
+        ? { ...convertSchema(first, ctx), optional: true }
+        : result(null);
+    case "nullable":
+      return first
+        ? applyModifier(
+            convertSchema(first, ctx),
+            { name: "nullable", args: [] },
+            ctx,
+          )
+        : result(null);
+    case "nullish":
+      return first
+        ? applyModifier(
+            convertSchema(first, ctx),
+            { name: "nullish", args: [] },
+            ctx,
+          )
+        : result(null);
+    case "pipe":
+      return first ? convertSchema(first, ctx) : result(null);
+  }
+
+  return result(null);
+}
+
+/**
+ * Apply a chained method. Methods that only refine values (`.min()`,
+ * `.email()`, `.describe()`, …) leave the type unchanged.
+ */
+function applyModifier(
+  schema: SchemaType,
+  call: SchemaCall,
+  ctx: SchemaContext,
+): SchemaType {
+  const [first] = call.args;
+  const { type } = schema;
+
+  switch (call.name) {
+    case "optional":
+      return { ...schema, optional: true };
+    case "required":
+    case "defined":
+      return {
+        type:
+          mapObject(type, (members) =>
+            members.map((m) => ({ ...m, optional: false })),
+          ) ?? type,
+        optional: false,
+      };
+    case "default":
+    case "catch":
+      return { ...schema, optional: false };
+    case "nullable":
+      return { ...schema, type: union([type, NULL]) };
+    case "nullish":
+      return { type: union([type, NULL]), optional: true };
+    case "array":
+      return {
+        type: { kind: "array", element: valueType(schema) },
+        optional: false,
+      };
+    case "of":
+      return first
+        ? {
+            ...schema,
+            type: {
+              kind: "array",
+              element: valueType(convertSchema(first, ctx)),
+            },
+          }
+        : schema;
+    case "or":
+      return first
+        ? {
+            ...schema,
+            type: union([type, valueType(convertSchema(first, ctx))]),
+          }
+        : schema;
+    case "and":
+    case "concat":
+      return first
+        ? {
+            ...schema,
+            type: makeIntersection([
+              type,
+              valueType(convertSchema(first, ctx)),
+            ]),
+          }
+        : schema;
+    case "extend":
+    case "shape": {
+      const members = objectMembers(first, ctx);
+      return members
+        ? { ...schema, type: extendObject(type, members) }
+        : schema;
+    }
+    case "merge":
+      return first
+        ? {
+            ...schema,
+            type: makeIntersection([
+              type,
+              valueType(convertSchema(first, ctx)),
+            ]),
+          }
+        : schema;
+    case "partial":
+      return {
+        ...schema,
+        type:
+          mapObject(type, (members) =>
+            members.map((m) => ({ ...m, optional: true })),
+          ) ?? type,
+      };
+    case "pick":
+    case "omit": {
+      const keys = maskKeys(first, ctx);
+      const keep = (m: ShapeMember) =>
+        keys?.has(m.name) === (call.name === "pick");
+      const picked = keys && mapObject(type, (members) => members.filter(keep));
+      return picked ? { ...schema, type: picked } : schema;
+    }
+    case "oneOf":
+      return { ...schema, type: literalUnion(first, ctx) };
+    case "transform":
+    case "preprocess":
+      return { ...schema, type: { kind: "opaque", text: call.name } };
+  }
+
+  return schema;
+}
+
+/** Convert a schema expression into the static type it validates. */
+function convertSchema(expr: ts.Expression, ctx: SchemaContext): SchemaType {
+  const unwound = unwindChain(expr, ctx);
+  if (!unwound) return { type: opaque(expr, ctx.sourceFile), optional: false };
+
+  let schema: SchemaType =
+    typeof unwound.base === "string"
+      ? { type: { kind: "ref", name: unwound.base, args: [] }, optional: false }
+      : baseSchema(unwound.base, ctx);
+
+  for (const call of unwound.chain) {
+    schema = applyModifier(schema, call, ctx);
+  }
+  return schema;
+}
+
+/**
+ * Recognise `const X = <schema builder chain>` and derive the structural
+ * shape the schema validates. The chain must start from a zod / valibot /
+ * yup builder imported in the file, or from a schema constant declared
+ * earlier in it (`BaseSchema.extend({...})`).
+ */
+export function buildSchemaShape(
+  node: ts.VariableDeclaration,
+  imports: SchemaImports,
+  known: Map<string, SchemaKind>,
+  sourceFile: ts.SourceFile,
+): { kind: SchemaKind; shape: ShapeNode } | null {
+  if (
+    !node.initializer ||
+    !ts.isIdentifier(node.name) ||
+    !(node.parent.flags & ts.NodeFlags.Const)
+  ) {
+    return null;
+  }
+
+  for (const kind of SCHEMA_KINDS) {
+    const ctx: SchemaContext = { kind, imports, sourceFile };
+    const unwound = unwindChain(node.initializer, ctx);
+    if (!unwound) continue;
+    if (typeof unwound.base === "string") {
+      if (known.get(unwound.base) !== kind || unwound.chain.length === 0) {
+        continue;
+      }
+    }
+    return { kind, shape: convertSchema(node.initializer, ctx).type };
+  }
+
+  return null;
+}
+
+export function isSchemaKind(kind: string): kind is SchemaKind {
+  return (SCHEMA_KINDS as readonly string[]).includes(kind);
+}
+
+/**
+ * Declarations without the schemas. A schema and the type inferred from it
+ * (`const User = z.object(...)`, `type User = z.infer<typeof User>`) share
+ * their name by design, so schemas stay out of name groups and only take
+ * part in shape groups and schema findings.
+ */
+export function withoutSchemas(
+  declarations: DeclarationRecord[],
+): DeclarationRecord[] {
+  return declarations.filter((d) => !isSchemaKind(d.kind));
+}
+
+// ---------------------------------------------------------------------------
+// Schema ↔ type findings
+// ---------------------------------------------------------------------------
+
+/** `UserSchema` / `userSchema` → `User`: the type name a schema mirrors. */
+export function schemaTypeName(name: string): string {
+  const base = name.replace(/Schema$/i, "") || name;
+  return base.charAt(0).toUpperCase() + base.slice(1);
+}
+
+function memberSignatures(
+  shape: ShapeNode | null,
+  rename?: (name: string) => string | undefined,
+): Map<string, string> | null {
+  if (!shape || shape.kind !== "object") return null;
+  return new Map(
+    shape.members.map((m) => [m.name, serializeMember(m, rename)]),
+  );
+}
+
+/**
+ * Pair runtime schemas with the static declarations they mirror.
+ *
+ * - **duplicate**: a schema shares a shape group with an interface, type or
+ *   class, i.e. the static type is written out twice.
+ * - **drift**: a schema and the declaration named after it (`UserSchema` ↔
+ *   `User`) are both plain objects but their members disagree. References
+ *   to other paired schemas are compared by their type name.
+ */
+export function findSchemaFindings(
+  declarations: DeclarationRecord[],
+  shapeGroups: Map<string, DeclarationRecord[]>,
+): SchemaFinding[] {
+  const findings: SchemaFinding[] = [];
+  const groupOf = new Map<DeclarationRecord, string>();
+
+  for (const [key, items] of shapeGroups) {
+    const schemas = items.filter((d) => isSchemaKind(d.kind));
+    const types = items.filter((d) => !isSchemaKind(d.kind) && !d.isReExport);
+    for (const d of items) groupOf.set(d, key);
+
+    for (const schema of schemas) {
+      for (const declaration of types) {
+        findings.push({
+          kind: "duplicate",
+          schema,
+          declaration,
+          onlyInSchema: [],
+          onlyInType: [],
+          changedMembers: [],
+        });
+      }
+    }
+  }
+
+  const schemas = declarations.filter((d) => isSchemaKind(d.kind));
+  const typesByName = new Map<string, DeclarationRecord[]>();
+  for (const d of declarations) {
+    if (isSchemaKind(d.kind) || d.isReExport) continue;
+    typesByName.set(d.name, [...(typesByName.get(d.name) ?? []), d]);
+  }
+
+  const renames = new Map<string, string>();
+  for (const schema of schemas) {
+    const typeName = schemaTypeName(schema.name);
+    if (typesByName.has(typeName)) renames.set(schema.name, typeName);
+  }
+  const rename = (name: string) => renames.get(name);
+
+  for (const schema of schemas) {
+    const schemaMembers = memberSignatures(schema.shape, rename);
+    if (!schemaMembers) continue;
+
+    for (const declaration of typesByName.get(schemaTypeName(schema.name)) ??
+      []) {
+      if (groupOf.get(schema) === groupOf.get(declaration)) continue;
+      const typeMembers = memberSignatures(declaration.shape);
+      if (!typeMembers) continue;
+
+      const names = [...schemaMembers.keys()];
+      const shared = names.filter((name) => typeMembers.has(name));
+      if (shared.length === 0) continue;
+
+      findings.push({
+        kind: "drift",
+        schema,
+        declaration,
+        onlyInSchema: names.filter((name) => !typeMembers.has(name)).sort(),
+        onlyInType: [...typeMembers.keys()]
+          .filter((name) => !schemaMembers.has(name))
+          .sort(),
+        changedMembers: shared
+          .filter((name) => schemaMembers.get(name) !== typeMembers.get(name))
+          .sort(),
+      });
+    }
+  }
+
+  return findings.sort(
+    (a, b) =>
+      a.kind.localeCompare(b.kind) ||
+      a.schema.name.localeCompare(b.schema.name) ||
+      a.declaration.name.localeCompare(b.declaration.name),
+  );
+}
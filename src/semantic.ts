@@ -0,0 +1,152 @@
+import path from "node:path";
+import ts from "typescript";
+
+import { TYPE_EXTENSIONS } from "./constants.js";
+import { parseTsConfig } from "./scanner.js";
+import type { DeclarationRecord } from "./types.js";
+import { toPosix } from "./utils.js";
+
+interface SemanticCandidate {
+  record: DeclarationRecord;
+  type: ts.Type;
+}
+
+// ---------------------------------------------------------------------------
+// Program construction
+// ---------------------------------------------------------------------------
+
+/**
+ * Build a type-checked program over the scanned TypeScript files using the
+ * compiler options of the given tsconfig. Component scripts and JavaScript
+ * files have no declarations the checker could compare, so they stay out.
+ */
+export function createSemanticProgram(
+  files: string[],
+  tsconfigPath: string,
+): ts.Program {
+  const { options } = parseTsConfig(tsconfigPath);
+  return ts.createProgram(
+    files.filter((file) => TYPE_EXTENSIONS.has(path.extname(file))),
+    { ...options, noEmit: true },
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Semantic grouping
+// ---------------------------------------------------------------------------
+
+function recordKey(file: string, line: number, name: string): string {
+  return `${file}:${line}:${name}`;
+}
+
+/**
+ * Resolve each interface / type alias record to its checker type. Generic
+ * declarations and types without properties are skipped.
+ */
+function collectCandidates(
+  program: ts.Program,
+  declarations: DeclarationRecord[],
+): SemanticCandidate[] {
+  const checker = program.getTypeChecker();
+  const records = new Map<string, DeclarationRecord>();
+  for (const d of declarations) {
+    if (d.kind === "interface" || d.kind === "type") {
+      records.set(recordKey(d.file, d.line, d.name), d);
+    }
+  }
+  const files = new Set(declarations.map((d) => d.file));
+
+  const candidates: SemanticCandidate[] = [];
+
+  for (const sourceFile of program.getSourceFiles()) {
+    const relativeFile = toPosix(
+      path.relative(process.cwd(), sourceFile.fileName),
+    );
+    if (!files.has(relativeFile)) continue;
+
+    const visit = (node: ts.Node): void => {
+      if (
+        (ts.isInterfaceDeclaration(node) || ts.isTypeAliasDeclaration(node)) &&
+        !node.typeParameters
+      ) {
+        const line =
+          sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile))
+            .line + 1;
+        const record = records.get(
+          recordKey(relativeFile, line, node.name.text),
+        );
+        const type = record ? checker.getTypeAtLocation(node.name) : null;
+        if (record && type && checker.getPropertiesOfType(type).length > 0) {
+          candidates.push({ record, type });
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+  }
+
+  return candidates;
+}
+
+/**
+ * Group declarations whose types are mutually assignable according to the
+ * type checker.
+ *
+ * Declarations are first bucketed by their property names (mutually
+ * assignable object types nearly always expose the same ones), and only
+ * compared within a bucket. Groups whose members all share one syntactic
+ * shape are dropped — those are already reported as shape duplicates.
+ * Each group is keyed by its property list.
+ */
+export function findSemanticGroups(
+  program: ts.Program,
+  declarations: DeclarationRecord[],
+  minCount: number,
+): Array<[string, DeclarationRecord[]]> {
+  const checker = program.getTypeChecker();
+  const buckets = new Map<string, SemanticCandidate[]>();
+
+  for (const candidate of collectCandidates(program, declarations)) {
+    const names = checker
+      .getPropertiesOfType(candidate.type)
+      .map((p) => p.name)
+      .sort();
+    const key = `{ ${names.join("; ")} }`;
+    const bucket = buckets.get(key);
+    if (bucket) {
+      bucket.push(candidate);
+    } else {
+      buckets.set(key, [candidate]);
+    }
+  }
+
+  const groups: Array<[string, DeclarationRecord[]]> = [];
+
+  for (const [key, bucket] of buckets) {
+    const clusters: Array<{ type: ts.Type; records: DeclarationRecord[] }> = [];
+
+    for (const candidate of bucket) {
+      const cluster = clusters.find(
+        (c) =>
+          checker.isTypeAssignableTo(candidate.type, c.type) &&
+          checker.isTypeAssignableTo(c.type, candidate.type),
+      );
+      if (cluster) {
+        cluster.records.push(candidate.record);
+      } else {
+        clusters.push({ type: candidate.type, records: [candidate.record] });
+      }
+    }
+
+    for (const cluster of clusters) {
+      const shapes = new Set(cluster.records.map((r) => r.normalizedShape));
+      if (cluster.records.length >= minCount && shapes.size > 1) {
+        groups.push([key, cluster.records]);
+      }
+    }
+  }
+
+  return groups.sort(
+    (a, b) => b[1].length - a[1].length || a[0].localeCompare(b[0]),
+  );
+}
@@ -0,0 +1,1099 @@
+import ts from "typescript";
+
+import type {
+  ShapeEnumMember,
+  ShapeMember,
+  ShapeNode,
+  ShapeParameter,
+  ShapeTupleElement,
+  ShapeTypeParameter,
+} from "./types.js";
+import { escapeRegExp, normalizeWhitespace } from "./utils.js";
+
+/** Placeholder substituted for self-references to the declaration name. */
+export const SELF_PLACEHOLDER = "__NAME__";
+
+export interface ShapeContext {
+  sourceFile: ts.SourceFile;
+  selfName: string;
+  /** Type parameter scopes (innermost last): source name → placeholder. */
+  typeParameterScopes: Array<Map<string, string>>;
+}
+
+// ---------------------------------------------------------------------------
+// Name helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Normalise a member name so that `a`, `"a"` and `'a'` compare equal.
+ * Computed names keep their (whitespace-normalised) expression text.
+ */
+export function memberNameText(
+  name: ts.PropertyName,
+  sourceFile: ts.SourceFile,
+): string {
+  if (ts.isIdentifier(name) || ts.isPrivateIdentifier(name)) return name.text;
+  if (ts.isStringLiteral(name) || ts.isNoSubstitutionTemplateLiteral(name)) {
+    return /^[A-Za-z_$][\w$]*$/.test(name.text)
+      ? name.text
+      : JSON.stringify(name.text);
+  }
+  if (ts.isNumericLiteral(name)) return String(Number(name.text));
+  return normalizeWhitespace(name.getText(sourceFile));
+}
+
+function entityNameText(name: ts.EntityName | ts.Expression): string {
+  if (ts.isIdentifier(name)) return name.text;
+  if (ts.isQualifiedName(name)) {
+    return `${entityNameText(name.left)}.${name.right.text}`;
+  }
+  if (ts.isPropertyAccessExpression(name)) {
+    return `${entityNameText(name.expression)}.${name.name.text}`;
+  }
+  return normalizeWhitespace(name.getText());
+}
+
+function isKeywordType(node: ts.TypeNode): boolean {
+  return (
+    (node.kind >= ts.SyntaxKind.FirstKeyword &&
+      node.kind <= ts.SyntaxKind.LastKeyword) ||
+    node.kind === ts.SyntaxKind.ThisType
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Type parameter scopes
+// ---------------------------------------------------------------------------
+
+/**
+ * Positional placeholder for a type parameter, so that `Box<T>` and
+ * `Wrapper<U>` canonicalise identically. Nested binders (generic signatures,
+ * mapped types) are qualified by their scope depth.
+ */
+export function typeParameterPlaceholder(depth: number, index: number): string {
+  return depth === 0 ? `$${index}` : `$${depth}.${index}`;
+}
+
+/** Enter a new scope binding the given type parameter names. */
+function withTypeParameters(ctx: ShapeContext, names: string[]): ShapeContext {
+  if (names.length === 0) return ctx;
+  const depth = ctx.typeParameterScopes.length;
+  const scope = new Map(
+    names.map((name, i) => [name, typeParameterPlaceholder(depth, i)]),
+  );
+  return { ...ctx, typeParameterScopes: [...ctx.typeParameterScopes, scope] };
+}
+
+function resolveTypeParameter(
+  name: string,
+  ctx: ShapeContext,
+): string | undefined {
+  for (let i = ctx.typeParameterScopes.length - 1; i >= 0; i--) {
+    const placeholder = ctx.typeParameterScopes[i]?.get(name);
+    if (placeholder) return placeholder;
+  }
+  return undefined;
+}
+
+function typeParameterNames(
+  typeParameters: ts.NodeArray<ts.TypeParameterDeclaration> | undefined,
+): string[] {
+  return (typeParameters ?? []).map((tp) => tp.name.text);
+}
+
+// ---------------------------------------------------------------------------
+// AST → shape model
+// ---------------------------------------------------------------------------
+
+function buildRef(
+  name: string,
+  typeArguments: ts.NodeArray<ts.TypeNode> | undefined,
+  ctx: ShapeContext,
+): ShapeNode {
+  const args = (typeArguments ?? []).map((t) => buildTypeShape(t, ctx));
+  const [first] = args;
+
+  const typeParameter =
+    args.length === 0 ? resolveTypeParameter(name, ctx) : undefined;
+  if (typeParameter) {
+    return { kind: "ref", name: typeParameter, args: [] };
+  }
+
+  if (name === "Array" && args.length === 1 && first) {
+    return { kind: "array", element: first };
+  }
+  if (name === "ReadonlyArray" && args.length === 1 && first) {
+    return {
+      kind: "operator",
+      operator: "readonly",
+      type: { kind: "array", element: first },
+    };
+  }
+
+  return {
+    kind: "ref",
+    name: name === ctx.selfName ? SELF_PLACEHOLDER : name,
+    args,
+  };
+}
+
+function buildLiteral(node: ts.LiteralTypeNode, ctx: ShapeContext): ShapeNode {
+  const literal = node.literal;
+  if (
+    ts.isStringLiteral(literal) ||
+    ts.isNoSubstitutionTemplateLiteral(literal)
+  ) {
+    return { kind: "literal", text: JSON.stringify(literal.text) };
+  }
+  if (ts.isNumericLiteral(literal)) {
+    return { kind: "literal", text: String(Number(literal.text)) };
+  }
+  return {
+    kind: "literal",
+    text: normalizeWhitespace(literal.getText(ctx.sourceFile)).replace(
+      /\s+/g,
+      "",
+    ),
+  };
+}
+
+function buildParameters(
+  parameters: ts.NodeArray<ts.ParameterDeclaration>,
+  ctx: ShapeContext,
+): ShapeParameter[] {
+  return parameters.map((p) => ({
+    type: p.type
+      ? buildTypeShape(p.type, ctx)
+      : { kind: "keyword", text: "any" },
+    optional: !!p.questionToken || !!p.initializer,
+    rest: !!p.dotDotDotToken,
+  }));
+}
+
+export function buildTypeParameters(
+  typeParameters: ts.NodeArray<ts.TypeParameterDeclaration> | undefined,
+  ctx: ShapeContext,
+): ShapeTypeParameter[] {
+  return (typeParameters ?? []).map((tp) => ({
+    name: resolveTypeParameter(tp.name.text, ctx) ?? tp.name.text,
+    constraint: tp.constraint ? buildTypeShape(tp.constraint, ctx) : null,
+    default: tp.default ? buildTypeShape(tp.default, ctx) : null,
+  }));
+}
+
+function buildSignature(
+  node: ts.SignatureDeclarationBase,
+  construct: boolean,
+  outer: ShapeContext,
+): ShapeNode {
+  const ctx = withTypeParameters(
+    outer,
+    typeParameterNames(node.typeParameters),
+  );
+  return {
+    kind: "function",
+    construct,
+    typeParameters: buildTypeParameters(node.typeParameters, ctx),
+    parameters: buildParameters(node.parameters, ctx),
+    returns: node.type
+      ? buildTypeShape(node.type, ctx)
+      : { kind: "keyword", text: "any" },
+  };
+}
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  return (
+    ts.canHaveModifiers(node) &&
+    (ts.getModifiers(node) ?? []).some((m) => m.kind === kind)
+  );
+}
+
+function hasReadonlyModifier(node: ts.Node): boolean {
+  return hasModifier(node, ts.SyntaxKind.ReadonlyKeyword);
+}
+
+function buildMember(
+  member: ts.TypeElement,
+  ctx: ShapeContext,
+): ShapeMember | null {
+  const sf = ctx.sourceFile;
+
+  if (ts.isPropertySignature(member)) {
+    return {
+      kind: "property",
+      name: memberNameText(member.name, sf),
+      optional: !!member.questionToken,
+      readonly: hasReadonlyModifier(member),
+      type: member.type
+        ? buildTypeShape(member.type, ctx)
+        : { kind: "keyword", text: "any" },
+    };
+  }
+  if (ts.isMethodSignature(member)) {
+    return {
+      kind: "method",
+      name: memberNameText(member.name, sf),
+      optional: !!member.questionToken,
+      readonly: false,
+      type: buildSignature(member, false, ctx),
+    };
+  }
+  if (ts.isCallSignatureDeclaration(member)) {
+    return {
+      kind: "call",
+      name: "",
+      optional: false,
+      readonly: false,
+      type: buildSignature(member, false, ctx),
+    };
+  }
+  if (ts.isConstructSignatureDeclaration(member)) {
+    return {
+      kind: "construct",
+      name: "",
+      optional: false,
+      readonly: false,
+      type: buildSignature(member, true, ctx),
+    };
+  }
+  if (ts.isIndexSignatureDeclaration(member)) {
+    const keyParam = member.parameters[0];
+    const keyType = keyParam?.type
+      ? serializeShape(buildTypeShape(keyParam.type, ctx))
+      : "any";
+    return {
+      kind: "index",
+      name: `[${keyType}]`,
+      optional: false,
+      readonly: hasReadonlyModifier(member),
+      type: buildTypeShape(member.type, ctx),
+    };
+  }
+  if (ts.isGetAccessorDeclaration(member)) {
+    return {
+      kind: "getter",
+      name: memberNameText(member.name, sf),
+      optional: false,
+      readonly: false,
+      type: member.type
+        ? buildTypeShape(member.type, ctx)
+        : { kind: "keyword", text: "any" },
+    };
+  }
+  if (ts.isSetAccessorDeclaration(member)) {
+    const param = member.parameters[0];
+    return {
+      kind: "setter",
+      name: memberNameText(member.name, sf),
+      optional: false,
+      readonly: false,
+      type: param?.type
+        ? buildTypeShape(param.type, ctx)
+        : { kind: "keyword", text: "any" },
+    };
+  }
+
+  return null;
+}
+
+export function buildMembers(
+  members: ts.NodeArray<ts.TypeElement>,
+  ctx: ShapeContext,
+): ShapeMember[] {
+  const result: ShapeMember[] = [];
+  for (const member of members) {
+    const built = buildMember(member, ctx);
+    if (built) result.push(built);
+  }
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Class members
+// ---------------------------------------------------------------------------
+
+/**
+ * Whether a class element (or constructor parameter property) is part of the
+ * public instance surface: not `static`, `private`, `protected` or `#private`.
+ */
+export function isPublicInstanceMember(
+  member: ts.ClassElement | ts.ParameterDeclaration,
+): boolean {
+  if (member.name && ts.isPrivateIdentifier(member.name)) return false;
+  return ![
+    ts.SyntaxKind.StaticKeyword,
+    ts.SyntaxKind.PrivateKeyword,
+    ts.SyntaxKind.ProtectedKeyword,
+  ].some((kind) => hasModifier(member, kind));
+}
+
+/**
+ * Class elements that describe the public instance shape. Constructor
+ * parameter properties count as properties; a method implementation is
+ * skipped when overload signatures for it exist.
+ */
+function publicClassMembers(
+  node: ts.ClassDeclaration,
+): Array<ts.ClassElement | ts.ParameterDeclaration> {
+  const sourceFile = node.getSourceFile();
+  const overloaded = new Set<string>();
+  for (const member of node.members) {
+    if (ts.isMethodDeclaration(member) && !member.body) {
+      overloaded.add(memberNameText(member.name, sourceFile));
+    }
+  }
+
+  const result: Array<ts.ClassElement | ts.ParameterDeclaration> = [];
+  for (const member of node.members) {
+    if (ts.isConstructorDeclaration(member)) {
+      for (const param of member.parameters) {
+        if (
+          ts.isParameterPropertyDeclaration(param, member) &&
+          isPublicInstanceMember(param)
+        ) {
+          result.push(param);
+        }
+      }
+      continue;
+    }
+    if (!isPublicInstanceMember(member)) continue;
+    if (
+      ts.isMethodDeclaration(member) &&
+      member.body &&
+      overloaded.has(memberNameText(member.name, sourceFile))
+    ) {
+      continue;
+    }
+    result.push(member);
+  }
+  return result;
+}
+
+function buildClassMember(
+  member: ts.ClassElement | ts.ParameterDeclaration,
+  ctx: ShapeContext,
+): ShapeMember | null {
+  const sf = ctx.sourceFile;
+
+  if (ts.isPropertyDeclaration(member) || ts.isParameter(member)) {
+    if (!ts.isPropertyName(member.name)) return null;
+    return {
+      kind: "property",
+      name: memberNameText(member.name, sf),
+      optional: !!member.questionToken,
+      readonly: hasReadonlyModifier(member),
+      type: member.type
+        ? buildTypeShape(member.type, ctx)
+        : { kind: "keyword", text: "any" },
+    };
+  }
+  if (ts.isMethodDeclaration(member)) {
+    return {
+      kind: "method",
+      name: memberNameText(member.name, sf),
+      optional: !!member.questionToken,
+      readonly: false,
+      type: buildSignature(member, false, ctx),
+    };
+  }
+  if (
+    ts.isGetAccessorDeclaration(member) ||
+    ts.isSetAccessorDeclaration(member) ||
+    ts.isIndexSignatureDeclaration(member)
+  ) {
+    return buildMember(member, ctx);
+  }
+
+  return null;
+}
+
+function buildClassMembers(
+  node: ts.ClassDeclaration,
+  ctx: ShapeContext,
+): ShapeMember[] {
+  const result: ShapeMember[] = [];
+  for (const member of publicClassMembers(node)) {
+    const built = buildClassMember(member, ctx);
+    if (built) result.push(built);
+  }
+  return result;
+}
+
+function buildTupleElement(
+  node: ts.TypeNode | ts.NamedTupleMember,
+  ctx: ShapeContext,
+): ShapeTupleElement {
+  if (ts.isNamedTupleMember(node)) {
+    return {
+      type: buildTypeShape(node.type, ctx),
+      optional: !!node.questionToken,
+      rest: !!node.dotDotDotToken,
+    };
+  }
+  if (ts.isOptionalTypeNode(node)) {
+    return {
+      type: buildTypeShape(node.type, ctx),
+      optional: true,
+      rest: false,
+    };
+  }
+  if (ts.isRestTypeNode(node)) {
+    return {
+      type: buildTypeShape(node.type, ctx),
+      optional: false,
+      rest: true,
+    };
+  }
+  return { type: buildTypeShape(node, ctx), optional: false, rest: false };
+}
+
+/** Render a mapped-type modifier token as `?`, `+?`, `-readonly`, etc. */
+function mappedModifier(
+  token: ts.Node | undefined,
+  modifier: "?" | "readonly",
+): string {
+  if (!token) return "";
+  if (token.kind === ts.SyntaxKind.PlusToken) return `+${modifier}`;
+  if (token.kind === ts.SyntaxKind.MinusToken) return `-${modifier}`;
+  return modifier;
+}
+
+function flatten(
+  kind: "union" | "intersection",
+  types: ShapeNode[],
+): ShapeNode[] {
+  return types.flatMap((t) => (t.kind === kind ? t.types : [t]));
+}
+
+/**
+ * Build an intersection, merging object-literal constituents into a single
+ * object when their member names don't collide (`{ a } & { b }` ≡ `{ a; b }`).
+ */
+export function makeIntersection(types: ShapeNode[]): ShapeNode {
+  const flat = flatten("intersection", types);
+  const objects = flat.filter(
+    (t): t is Extract<ShapeNode, { kind: "object" }> => t.kind === "object",
+  );
+
+  let constituents = flat;
+  if (objects.length > 1) {
+    const members = objects.flatMap((o) => o.members);
+    const names = members.map((m) => `${m.kind}:${m.name}`);
+    if (new Set(names).size === names.length) {
+      constituents = [
+        ...flat.filter((t) => t.kind !== "object"),
+        { kind: "object", members },
+      ];
+    }
+  }
+
+  const [only] = constituents;
+  if (constituents.length === 1 && only) return only;
+  return { kind: "intersection", types: constituents };
+}
+
+/** Build the canonical shape model for a type node. */
+export function buildTypeShape(
+  node: ts.TypeNode,
+  ctx: ShapeContext,
+): ShapeNode {
+  if (ts.isParenthesizedTypeNode(node)) {
+    return buildTypeShape(node.type, ctx);
+  }
+  if (ts.isUnionTypeNode(node)) {
+    return {
+      kind: "union",
+      types: flatten(
+        "union",
+        node.types.map((t) => buildTypeShape(t, ctx)),
+      ),
+    };
+  }
+  if (ts.isIntersectionTypeNode(node)) {
+    return makeIntersection(node.types.map((t) => buildTypeShape(t, ctx)));
+  }
+  if (ts.isTypeLiteralNode(node)) {
+    return { kind: "object", members: buildMembers(node.members, ctx) };
+  }
+  if (ts.isArrayTypeNode(node)) {
+    return { kind: "array", element: buildTypeShape(node.elementType, ctx) };
+  }
+  if (ts.isTupleTypeNode(node)) {
+    return {
+      kind: "tuple",
+      elements: node.elements.map((e) => buildTupleElement(e, ctx)),
+    };
+  }
+  if (ts.isTypeReferenceNode(node)) {
+    return buildRef(entityNameText(node.typeName), node.typeArguments, ctx);
+  }
+  if (ts.isExpressionWithTypeArguments(node)) {
+    return buildRef(entityNameText(node.expression), node.typeArguments, ctx);
+  }
+  if (ts.isFunctionTypeNode(node)) {
+    return buildSignature(node, false, ctx);
+  }
+  if (ts.isConstructorTypeNode(node)) {
+    return buildSignature(node, true, ctx);
+  }
+  if (ts.isTypeOperatorNode(node)) {
+    return {
+      kind: "operator",
+      operator: ts.tokenToString(node.operator) ?? "",
+      type: buildTypeShape(node.type, ctx),
+    };
+  }
+  if (ts.isIndexedAccessTypeNode(node)) {
+    return {
+      kind: "indexed",
+      object: buildTypeShape(node.objectType, ctx),
+      index: buildTypeShape(node.indexType, ctx),
+    };
+  }
+  if (ts.isConditionalTypeNode(node)) {
+    return {
+      kind: "conditional",
+      check: buildTypeShape(node.checkType, ctx),
+      extends: buildTypeShape(node.extendsType, ctx),
+      trueType: buildTypeShape(node.trueType, ctx),
+      falseType: buildTypeShape(node.falseType, ctx),
+    };
+  }
+  if (ts.isMappedTypeNode(node)) {
+    const param = node.typeParameter;
+    const inner = withTypeParameters(ctx, [param.name.text]);
+    return {
+      kind: "mapped",
+      parameter: resolveTypeParameter(param.name.text, inner) ?? "",
+      constraint: param.constraint
+        ? buildTypeShape(param.constraint, ctx)
+        : { kind: "keyword", text: "unknown" },
+      nameType: node.nameType ? buildTypeShape(node.nameType, inner) : null,
+      optional: mappedModifier(node.questionToken, "?"),
+      readonly: mappedModifier(node.readonlyToken, "readonly"),
+      type: node.type ? buildTypeShape(node.type, inner) : null,
+    };
+  }
+  if (ts.isLiteralTypeNode(node)) {
+    return buildLiteral(node, ctx);
+  }
+  // JSDoc types: `*`, `?`, `?T` / `T?`, `!T`, `T=` and `...T`.
+  if (ts.isJSDocAllType(node)) {
+    return { kind: "keyword", text: "any" };
+  }
+  if (ts.isJSDocUnknownType(node)) {
+    return { kind: "keyword", text: "unknown" };
+  }
+  if (ts.isJSDocNullableType(node)) {
+    return {
+      kind: "union",
+      types: flatten("union", [
+        buildTypeShape(node.type, ctx),
+        { kind: "literal", text: "null" },
+      ]),
+    };
+  }
+  if (ts.isJSDocNonNullableType(node) || ts.isJSDocOptionalType(node)) {
+    return buildTypeShape(node.type, ctx);
+  }
+  if (ts.isJSDocVariadicType(node)) {
+    return { kind: "array", element: buildTypeShape(node.type, ctx) };
+  }
+  if (isKeywordType(node)) {
+    return { kind: "keyword", text: node.getText(ctx.sourceFile) };
+  }
+
+  // Anything else (typeof queries, template literals, import types, infer…)
+  // is compared by its normalised source text, with known names substituted.
+  const replacements = new Map<string, string>([
+    [ctx.selfName, SELF_PLACEHOLDER],
+  ]);
+  for (const scope of ctx.typeParameterScopes) {
+    for (const [name, placeholder] of scope)
+      replacements.set(name, placeholder);
+  }
+
+  let text = normalizeWhitespace(node.getText(ctx.sourceFile));
+  for (const [name, placeholder] of replacements) {
+    text = text.replace(
+      new RegExp(`\\b${escapeRegExp(name)}\\b`, "g"),
+      placeholder,
+    );
+  }
+  return { kind: "opaque", text };
+}
+
+// ---------------------------------------------------------------------------
+// Enum members & constant values
+// ---------------------------------------------------------------------------
+
+const NUMERIC_OPERATORS: Partial<
+  Record<ts.BinaryOperator, (a: number, b: number) => number>
+> = {
+  [ts.SyntaxKind.PlusToken]: (a, b) => a + b,
+  [ts.SyntaxKind.MinusToken]: (a, b) => a - b,
+  [ts.SyntaxKind.AsteriskToken]: (a, b) => a * b,
+  [ts.SyntaxKind.SlashToken]: (a, b) => a / b,
+  [ts.SyntaxKind.PercentToken]: (a, b) => a % b,
+  [ts.SyntaxKind.AsteriskAsteriskToken]: (a, b) => a ** b,
+  [ts.SyntaxKind.LessThanLessThanToken]: (a, b) => a << b,
+  [ts.SyntaxKind.GreaterThanGreaterThanToken]: (a, b) => a >> b,
+  [ts.SyntaxKind.GreaterThanGreaterThanGreaterThanToken]: (a, b) => a >>> b,
+  [ts.SyntaxKind.BarToken]: (a, b) => a | b,
+  [ts.SyntaxKind.AmpersandToken]: (a, b) => a & b,
+  [ts.SyntaxKind.CaretToken]: (a, b) => a ^ b,
+};
+
+/** The number a literal type text stands for, or null for strings etc. */
+function numericValue(value: string): number | null {
+  if (value.startsWith('"') || value === "true" || value === "false") {
+    return null;
+  }
+  const n = Number(value);
+  return Number.isNaN(n) ? null : n;
+}
+
+/**
+ * Evaluate a constant expression the way TypeScript evaluates enum
+ * initializers: literals, unary and binary arithmetic, string concatenation
+ * and references to already evaluated names (`known`, e.g. earlier members
+ * of the same enum). Returns the literal type text (`"a"`, `1`, `true`), or
+ * null for anything only known at runtime.
+ */
+export function evaluateConstant(
+  expr: ts.Expression,
+  known: ReadonlyMap<string, string> = new Map(),
+): string | null {
+  if (ts.isParenthesizedExpression(expr)) {
+    return evaluateConstant(expr.expression, known);
+  }
+  if (ts.isStringLiteral(expr) || ts.isNoSubstitutionTemplateLiteral(expr)) {
+    return JSON.stringify(expr.text);
+  }
+  if (ts.isNumericLiteral(expr)) return String(Number(expr.text));
+  if (expr.kind === ts.SyntaxKind.TrueKeyword) return "true";
+  if (expr.kind === ts.SyntaxKind.FalseKeyword) return "false";
+  if (ts.isIdentifier(expr)) return known.get(expr.text) ?? null;
+  if (ts.isPropertyAccessExpression(expr) && ts.isIdentifier(expr.expression)) {
+    return known.get(`${expr.expression.text}.${expr.name.text}`) ?? null;
+  }
+
+  if (ts.isPrefixUnaryExpression(expr)) {
+    const operand = evaluateConstant(expr.operand, known);
+    const n = operand === null ? null : numericValue(operand);
+    if (n === null) return null;
+    switch (expr.operator) {
+      case ts.SyntaxKind.MinusToken:
+        return String(-n);
+      case ts.SyntaxKind.PlusToken:
+        return String(n);
+      case ts.SyntaxKind.TildeToken:
+        return String(~n);
+      default:
+        return null;
+    }
+  }
+
+  if (ts.isBinaryExpression(expr)) {
+    const left = evaluateConstant(expr.left, known);
+    const right = evaluateConstant(expr.right, known);
+    if (left === null || right === null) return null;
+    const a = numericValue(left);
+    const b = numericValue(right);
+    if (a !== null && b !== null) {
+      const apply = NUMERIC_OPERATORS[expr.operatorToken.kind];
+      return apply ? String(apply(a, b)) : null;
+    }
+    if (
+      expr.operatorToken.kind === ts.SyntaxKind.PlusToken &&
+      (left.startsWith('"') || right.startsWith('"'))
+    ) {
+      const text = (value: string) =>
+        value.startsWith('"') ? (JSON.parse(value) as string) : value;
+      return JSON.stringify(text(left) + text(right));
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Enum members with their evaluated values. Members without an initializer
+ * continue from the previous numeric member (the first one starts at 0);
+ * members may refer to earlier ones as `A` or `Enum.A`.
+ */
+function buildEnumMembers(
+  node: ts.EnumDeclaration,
+  sourceFile: ts.SourceFile,
+): ShapeEnumMember[] {
+  const known = new Map<string, string>();
+  let next: number | null = 0;
+
+  return node.members.map((member) => {
+    const name = memberNameText(member.name, sourceFile);
+    const value = member.initializer
+      ? evaluateConstant(member.initializer, known)
+      : next === null
+        ? null
+        : String(next);
+    if (value !== null) {
+      known.set(name, value);
+      known.set(`${node.name.text}.${name}`, value);
+    }
+    const n = value === null ? null : numericValue(value);
+    next = n === null ? null : n + 1;
+
+    return {
+      name,
+      initializer: member.initializer
+        ? normalizeWhitespace(member.initializer.getText(sourceFile))
+        : null,
+      value,
+    };
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Declarations
+// ---------------------------------------------------------------------------
+
+/**
+ * Build the canonical shape model for a declaration. Interfaces and classes
+ * with `extends` clauses become intersections so that `interface X extends
+ * Y {}` and `type X = Y & {}` produce the same shape. Classes contribute
+ * their public instance members only, so a DTO class matches the interface
+ * it mirrors.
+ */
+export function buildDeclarationShape(
+  node:
+    | ts.InterfaceDeclaration
+    | ts.TypeAliasDeclaration
+    | ts.EnumDeclaration
+    | ts.ClassDeclaration,
+  sourceFile: ts.SourceFile,
+): ShapeNode {
+  if (ts.isEnumDeclaration(node)) {
+    return { kind: "enum", members: buildEnumMembers(node, sourceFile) };
+  }
+
+  // Type parameters are renamed by position, constraints and defaults included.
+  const ctx = withTypeParameters(
+    { sourceFile, selfName: node.name?.text ?? "", typeParameterScopes: [] },
+    typeParameterNames(node.typeParameters),
+  );
+
+  let body: ShapeNode;
+  if (ts.isInterfaceDeclaration(node) || ts.isClassDeclaration(node)) {
+    // `implements` doesn't add members, only `extends` does.
+    const heritage = (node.heritageClauses ?? [])
+      .filter((clause) => clause.token === ts.SyntaxKind.ExtendsKeyword)
+      .flatMap((clause) => clause.types.map((t) => buildTypeShape(t, ctx)));
+    const literal: ShapeNode = {
+      kind: "object",
+      members: ts.isClassDeclaration(node)
+        ? buildClassMembers(node, ctx)
+        : buildMembers(node.members, ctx),
+    };
+    body =
+      heritage.length > 0 ? makeIntersection([...heritage, literal]) : literal;
+  } else {
+    body = buildTypeShape(node.type, ctx);
+  }
+
+  const typeParameters = buildTypeParameters(node.typeParameters, ctx);
+  return typeParameters.length > 0
+    ? { kind: "generic", parameters: typeParameters, type: body }
+    : body;
+}
+
+// ---------------------------------------------------------------------------
+// Shape model → canonical key
+// ---------------------------------------------------------------------------
+
+/**
+ * Optional hook applied to every type reference name during serialisation;
+ * returning a string substitutes the name (used for transitive grouping).
+ */
+export type RefRenamer = (name: string) => string | undefined;
+
+/** Wrap composite types in parentheses where precedence would be ambiguous. */
+function wrap(node: ShapeNode, rename?: RefRenamer): string {
+  const text = serializeShape(node, rename);
+  return node.kind === "union" ||
+    node.kind === "intersection" ||
+    node.kind === "function" ||
+    node.kind === "conditional"
+    ? `(${text})`
+    : text;
+}
+
+function serializeTypeParameters(
+  parameters: ShapeTypeParameter[],
+  rename?: RefRenamer,
+): string {
+  if (parameters.length === 0) return "";
+  const items = parameters.map((p) => {
+    let text = p.name;
+    if (p.constraint)
+      text += ` extends ${serializeShape(p.constraint, rename)}`;
+    if (p.default) text += `=${serializeShape(p.default, rename)}`;
+    return text;
+  });
+  return `<${items.join(",")}>`;
+}
+
+function serializeSignature(
+  node: Extract<ShapeNode, { kind: "function" }>,
+  rename?: RefRenamer,
+) {
+  const params = node.parameters
+    .map(
+      (p) =>
+        `${p.rest ? "..." : ""}${serializeShape(p.type, rename)}${p.optional ? "?" : ""}`,
+    )
+    .join(",");
+  return `${serializeTypeParameters(node.typeParameters, rename)}(${params})`;
+}
+
+export function serializeMember(
+  member: ShapeMember,
+  rename?: RefRenamer,
+): string {
+  const readonly = member.readonly ? "readonly " : "";
+  const optional = member.optional ? "?" : "";
+  const fn = member.type.kind === "function" ? member.type : null;
+  const type = serializeShape(member.type, rename);
+
+  switch (member.kind) {
+    case "property":
+      return `${readonly}${member.name}${optional}:${type}`;
+    case "method":
+    case "call":
+    case "construct": {
+      const prefix = member.kind === "construct" ? "new" : member.name;
+      return fn
+        ? `${prefix}${optional}${serializeSignature(fn, rename)}:${serializeShape(fn.returns, rename)}`
+        : `${prefix}${optional}:${type}`;
+    }
+    case "index":
+      return `${readonly}${member.name}:${type}`;
+    case "getter":
+      return `get ${member.name}():${type}`;
+    case "setter":
+      return `set ${member.name}(${type})`;
+  }
+}
+
+function compareMembers(a: [ShapeMember, string], b: [ShapeMember, string]) {
+  return a[0].name.localeCompare(b[0].name) || a[1].localeCompare(b[1]);
+}
+
+/**
+ * Serialise a shape into a canonical key. Object members, union and
+ * intersection constituents are sorted so that declaration order and
+ * separators never influence the result.
+ */
+export function serializeShape(node: ShapeNode, rename?: RefRenamer): string {
+  const inner = (child: ShapeNode) => serializeShape(child, rename);
+  const wrapped = (child: ShapeNode) => wrap(child, rename);
+
+  switch (node.kind) {
+    case "keyword":
+    case "literal":
+    case "opaque":
+      return node.text;
+    case "ref": {
+      const name = rename?.(node.name) ?? node.name;
+      return node.args.length > 0
+        ? `${name}<${node.args.map(inner).join(",")}>`
+        : name;
+    }
+    case "object": {
+      const members = node.members
+        .map((m): [ShapeMember, string] => [m, serializeMember(m, rename)])
+        .sort(compareMembers)
+        .map(([, text]) => text);
+      return `{${members.join(";")}}`;
+    }
+    case "union":
+      return [...new Set(node.types.map(wrapped))].sort().join("|");
+    case "intersection":
+      return [...new Set(node.types.map(wrapped))].sort().join("&");
+    case "array":
+      return `${wrapped(node.element)}[]`;
+    case "tuple":
+      return `[${node.elements
+        .map(
+          (e) =>
+            `${e.rest ? "..." : ""}${inner(e.type)}${e.optional ? "?" : ""}`,
+        )
+        .join(",")}]`;
+    case "function":
+      return `${node.construct ? "new " : ""}${serializeSignature(node, rename)}=>${inner(node.returns)}`;
+    case "operator":
+      return `${node.operator} ${wrapped(node.type)}`;
+    case "indexed":
+      return `${wrapped(node.object)}[${inner(node.index)}]`;
+    case "conditional":
+      return `${wrapped(node.check)} extends ${wrapped(node.extends)}?${inner(node.trueType)}:${inner(node.falseType)}`;
+    case "mapped": {
+      const as = node.nameType ? ` as ${inner(node.nameType)}` : "";
+      const value = node.type ? inner(node.type) : "any";
+      const readonly = node.readonly ? `${node.readonly} ` : "";
+      return `{${readonly}[${node.parameter} in ${inner(node.constraint)}${as}]${node.optional}:${value}}`;
+    }
+    case "enum": {
+      const members = node.members.map((m) =>
+        m.initializer === null ? m.name : `${m.name}=${m.initializer}`,
+      );
+      // Implicit values depend on position, so only sort fully-initialised enums.
+      if (node.members.every((m) => m.initializer !== null)) members.sort();
+      return `enum{${members.join(";")}}`;
+    }
+    case "generic":
+      return `${serializeTypeParameters(node.parameters, rename)}${inner(node.type)}`;
+  }
+}
+
+/** Collect every type reference name that appears anywhere in a shape. */
+export function collectReferences(
+  node: ShapeNode,
+  into: Set<string> = new Set(),
+): Set<string> {
+  const visit = (child: ShapeNode | null) => {
+    if (child) collectReferences(child, into);
+  };
+
+  switch (node.kind) {
+    case "ref":
+      into.add(node.name);
+      node.args.forEach(visit);
+      break;
+    case "object":
+      for (const m of node.members) visit(m.type);
+      break;
+    case "union":
+    case "intersection":
+      node.types.forEach(visit);
+      break;
+    case "array":
+      visit(node.element);
+      break;
+    case "tuple":
+      for (const e of node.elements) visit(e.type);
+      break;
+    case "function":
+      for (const tp of node.typeParameters) {
+        visit(tp.constraint);
+        visit(tp.default);
+      }
+      for (const p of node.parameters) visit(p.type);
+      visit(node.returns);
+      break;
+    case "operator":
+      visit(node.type);
+      break;
+    case "indexed":
+      visit(node.object);
+      visit(node.index);
+      break;
+    case "conditional":
+      visit(node.check);
+      visit(node.extends);
+      visit(node.trueType);
+      visit(node.falseType);
+      break;
+    case "mapped":
+      visit(node.constraint);
+      visit(node.nameType);
+      visit(node.type);
+      break;
+    case "generic":
+      for (const tp of node.parameters) {
+        visit(tp.constraint);
+        visit(tp.default);
+      }
+      visit(node.type);
+      break;
+    case "keyword":
+    case "literal":
+    case "opaque":
+    case "enum":
+      break;
+  }
+
+  return into;
+}
+
+/**
+ * Rebuild a shape with `fn` applied to each direct child type. Intersections
+ * are rebuilt with `makeIntersection`, so objects a child turns into merge.
+ */
+export function mapShape(
+  node: ShapeNode,
+  fn: (child: ShapeNode) => ShapeNode,
+): ShapeNode {
+  const mapParameter = (tp: ShapeTypeParameter): ShapeTypeParameter => ({
+    ...tp,
+    constraint: tp.constraint && fn(tp.constraint),
+    default: tp.default && fn(tp.default),
+  });
+
+  switch (node.kind) {
+    case "ref":
+      return { ...node, args: node.args.map(fn) };
+    case "object":
+      return {
+        ...node,
+        members: node.members.map((m) => ({ ...m, type: fn(m.type) })),
+      };
+    case "union":
+      return { ...node, types: node.types.map(fn) };
+    case "intersection":
+      return makeIntersection(node.types.map(fn));
+    case "array":
+      return { ...node, element: fn(node.element) };
+    case "tuple":
+      return {
+        ...node,
+        elements: node.elements.map((e) => ({ ...e, type: fn(e.type) })),
+      };
+    case "function":
+      return {
+        ...node,
+        typeParameters: node.typeParameters.map(mapParameter),
+        parameters: node.parameters.map((p) => ({ ...p, type: fn(p.type) })),
+        returns: fn(node.returns),
+      };
+    case "operator":
+      return { ...node, type: fn(node.type) };
+    case "indexed":
+      return { ...node, object: fn(node.object), index: fn(node.index) };
+    case "conditional":
+      return {
+        ...node,
+        check: fn(node.check),
+        extends: fn(node.extends),
+        trueType: fn(node.trueType),
+        falseType: fn(node.falseType),
+      };
+    case "mapped":
+      return {
+        ...node,
+        constraint: fn(node.constraint),
+        nameType: node.nameType && fn(node.nameType),
+        type: node.type && fn(node.type),
+      };
+    case "generic":
+      return {
+        ...node,
+        parameters: node.parameters.map(mapParameter),
+        type: fn(node.type),
+      };
+    case "keyword":
+    case "literal":
+    case "opaque":
+    case "enum":
+      return node;
+  }
+}
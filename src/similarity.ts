@@ -0,0 +1,166 @@
+import { MIN_SIMILARITY_MEMBERS } from "./constants.js";
+import type { DeclarationRecord, SimilarGroup } from "./types.js";
+
+// ---------------------------------------------------------------------------
+// Set similarity helpers
+// ---------------------------------------------------------------------------
+
+/** Jaccard similarity of two sets: |a ∩ b| / |a ∪ b|. */
+export function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  for (const item of a) {
+    if (b.has(item)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Number of leading tokens (in global order) that two sets of size `size`
+ * must share at least one of to reach the threshold. Guards against
+ * floating-point drift such as `0.7 * 10 = 7.000000000000001`.
+ */
+function prefixLength(size: number, threshold: number): number {
+  return size - Math.ceil(threshold * size - 1e-9) + 1;
+}
+
+function find(parent: number[], i: number): number {
+  let root = i;
+  while (parent[root] !== root) root = parent[root] ?? root;
+  while (parent[i] !== root) {
+    const next = parent[i] ?? root;
+    parent[i] = root;
+    i = next;
+  }
+  return root;
+}
+
+// ---------------------------------------------------------------------------
+// Near-duplicate clustering
+// ---------------------------------------------------------------------------
+
+/**
+ * Cluster declarations whose member names overlap by at least `threshold`
+ * (Jaccard similarity), linking clusters transitively.
+ *
+ * Uses prefix filtering instead of all-pairs comparison: member names are
+ * ordered by ascending global frequency, and two declarations can only reach
+ * the threshold if they share a name within their (short) prefixes. Only
+ * those candidate pairs are verified, which keeps large codebases tractable.
+ */
+export function findSimilarGroups(
+  declarations: DeclarationRecord[],
+  threshold: number,
+  minCount: number,
+): SimilarGroup[] {
+  const items = declarations
+    .map((declaration) => ({
+      declaration,
+      members: new Set(declaration.propertyNames),
+    }))
+    .filter((item) => item.members.size >= MIN_SIMILARITY_MEMBERS);
+
+  const frequency = new Map<string, number>();
+  for (const item of items) {
+    for (const member of item.members) {
+      frequency.set(member, (frequency.get(member) ?? 0) + 1);
+    }
+  }
+
+  const ordered = items
+    .map((item) => ({
+      ...item,
+      tokens: [...item.members].sort(
+        (a, b) =>
+          (frequency.get(a) ?? 0) - (frequency.get(b) ?? 0) ||
+          a.localeCompare(b),
+      ),
+    }))
+    .sort((a, b) => a.members.size - b.members.size);
+
+  const parent = ordered.map((_, i) => i);
+  const index = new Map<string, number[]>();
+
+  for (let i = 0; i < ordered.length; i++) {
+    const current = ordered[i];
+    if (!current) continue;
+
+    const size = current.members.size;
+    const prefix = current.tokens.slice(0, prefixLength(size, threshold));
+    const candidates = new Set<number>();
+
+    for (const token of prefix) {
+      for (const j of index.get(token) ?? []) {
+        const other = ordered[j];
+        // Sizes are ascending, so only the lower bound needs checking.
+        if (other && other.members.size >= threshold * size - 1e-9) {
+          candidates.add(j);
+        }
+      }
+    }
+
+    for (const j of candidates) {
+      const other = ordered[j];
+      if (other && jaccard(current.members, other.members) >= threshold) {
+        parent[find(parent, i)] = find(parent, j);
+      }
+    }
+
+    for (const token of prefix) {
+      const postings = index.get(token);
+      if (postings) {
+        postings.push(i);
+      } else {
+        index.set(token, [i]);
+      }
+    }
+  }
+
+  const clusters = new Map<number, typeof ordered>();
+  for (let i = 0; i < ordered.length; i++) {
+    const item = ordered[i];
+    if (!item) continue;
+    const root = find(parent, i);
+    const cluster = clusters.get(root);
+    if (cluster) {
+      cluster.push(item);
+    } else {
+      clusters.set(root, [item]);
+    }
+  }
+
+  const groups: SimilarGroup[] = [];
+  for (const cluster of clusters.values()) {
+    if (cluster.length < minCount) continue;
+
+    const union = new Set(cluster.flatMap((item) => [...item.members]));
+    const shared = [...union].filter((member) =>
+      cluster.every((item) => item.members.has(member)),
+    );
+    const sharedSet = new Set(shared);
+
+    groups.push({
+      score: union.size === 0 ? 1 : shared.length / union.size,
+      sharedMembers: shared.sort(),
+      entries: cluster
+        .map((item) => ({
+          declaration: item.declaration,
+          extraMembers: [...item.members]
+            .filter((member) => !sharedSet.has(member))
+            .sort(),
+          missingMembers: [...union]
+            .filter((member) => !item.members.has(member))
+            .sort(),
+        }))
+        .sort(
+          (a, b) =>
+            a.declaration.file.localeCompare(b.declaration.file) ||
+            a.declaration.line - b.declaration.line,
+        ),
+    });
+  }
+
+  return groups.sort(
+    (a, b) => b.entries.length - a.entries.length || b.score - a.score,
+  );
+}
@@ -0,0 +1,459 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import ts from "typescript";
+
+import type {
+  DeclarationRecord,
+  ModuleExports,
+  ModuleResolution,
+} from "./types.js";
+import { scriptKindFor } from "./scanner.js";
+import { toPosix } from "./utils.js";
+
+/** Source extensions tried, in order, when resolving a module specifier. */
+const RESOLVE_EXTENSIONS = [
+  ".ts",
+  ".tsx",
+  ".d.ts",
+  ".mts",
+  ".cts",
+  ".d.mts",
+  ".d.cts",
+];
+
+/** Build output folders that usually mirror `src/`. */
+const OUTPUT_DIRS = new Set(["dist", "build", "lib", "out"]);
+
+// ---------------------------------------------------------------------------
+// Module exports
+// ---------------------------------------------------------------------------
+
+/**
+ * List the names a module uses from other modules: named and default import
+ * bindings, `ns.Name` for namespace imports, and `import("./x").Name` types.
+ */
+function collectImportedNames(
+  sourceFile: ts.SourceFile,
+  imports: ReadonlyMap<string, { specifier: string; name: string }>,
+  out: Array<{ specifier: string; name: string }>,
+): void {
+  const seen = new Set<string>();
+  const add = (specifier: string, name: string) => {
+    const key = `${specifier}::${name}`;
+    if (!seen.has(key)) {
+      seen.add(key);
+      out.push({ specifier, name });
+    }
+  };
+
+  const namespaces = new Map<string, string>();
+  for (const [local, imported] of imports) {
+    if (imported.name === "*") {
+      namespaces.set(local, imported.specifier);
+    } else {
+      add(imported.specifier, imported.name);
+    }
+  }
+
+  function visit(node: ts.Node): void {
+    if (ts.isImportTypeNode(node) && node.qualifier) {
+      const argument = node.argument;
+      let head: ts.EntityName = node.qualifier;
+      while (ts.isQualifiedName(head)) head = head.left;
+      if (
+        ts.isLiteralTypeNode(argument) &&
+        ts.isStringLiteral(argument.literal)
+      ) {
+        add(argument.literal.text, head.text);
+      }
+    } else if (
+      namespaces.size > 0 &&
+      (ts.isQualifiedName(node) || ts.isPropertyAccessExpression(node))
+    ) {
+      const left = ts.isQualifiedName(node) ? node.left : node.expression;
+      const right = ts.isQualifiedName(node) ? node.right : node.name;
+      const specifier = ts.isIdentifier(left) && namespaces.get(left.text);
+      if (specifier && ts.isIdentifier(right)) add(specifier, right.text);
+    }
+    ts.forEachChild(node, visit);
+  }
+  visit(sourceFile);
+}
+
+/**
+ * Collect what a module exports: exported declarations, `export { ... }`
+ * lists (local or re-exported imports), `export ... from` and `export *`.
+ */
+export function collectModuleExports(
+  file: string,
+  sourceText: string,
+): ModuleExports {
+  const sourceFile = ts.createSourceFile(
+    file,
+    sourceText,
+    ts.ScriptTarget.Latest,
+    false,
+    scriptKindFor(file),
+  );
+  const exports: ModuleExports = {
+    file: toPosix(path.relative(process.cwd(), file)),
+    local: new Map(),
+    named: new Map(),
+    star: [],
+    imports: [],
+  };
+
+  // Imported bindings, so `import { A } from "./a"; export { A }` is followed.
+  const imports = new Map<string, { specifier: string; name: string }>();
+  for (const statement of sourceFile.statements) {
+    if (
+      !ts.isImportDeclaration(statement) ||
+      !ts.isStringLiteral(statement.moduleSpecifier) ||
+      !statement.importClause
+    ) {
+      continue;
+    }
+    const specifier = statement.moduleSpecifier.text;
+    const { name, namedBindings } = statement.importClause;
+    if (name) imports.set(name.text, { specifier, name: "default" });
+    if (namedBindings && ts.isNamespaceImport(namedBindings)) {
+      imports.set(namedBindings.name.text, { specifier, name: "*" });
+    } else if (namedBindings) {
+      for (const el of namedBindings.elements) {
+        imports.set(el.name.text, {
+          specifier,
+          name: (el.propertyName ?? el.name).text,
+        });
+      }
+    }
+  }
+  collectImportedNames(sourceFile, imports, exports.imports);
+
+  const exportLocal = (exportedName: string, localName: string) => {
+    const imported = imports.get(localName);
+    if (imported) {
+      exports.named.set(exportedName, imported);
+    } else {
+      exports.local.set(exportedName, localName);
+    }
+  };
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isExportDeclaration(statement)) {
+      const specifier =
+        statement.moduleSpecifier &&
+        ts.isStringLiteral(statement.moduleSpecifier)
+          ? statement.moduleSpecifier.text
+          : null;
+      const clause = statement.exportClause;
+
+      if (!clause) {
+        if (specifier) exports.star.push(specifier);
+      } else if (ts.isNamespaceExport(clause)) {
+        if (specifier) {
+          exports.named.set(clause.name.text, { specifier, name: "*" });
+        }
+      } else {
+        for (const el of clause.elements) {
+          const localName = (el.propertyName ?? el.name).text;
+          if (specifier) {
+            exports.named.set(el.name.text, { specifier, name: localName });
+          } else {
+            exportLocal(el.name.text, localName);
+          }
+        }
+      }
+      continue;
+    }
+
+    if (ts.isExportAssignment(statement)) {
+      if (ts.isIdentifier(statement.expression)) {
+        exportLocal("default", statement.expression.text);
+      }
+      continue;
+    }
+
+    const modifiers = ts.canHaveModifiers(statement)
+      ? (ts.getModifiers(statement) ?? [])
+      : [];
+    if (!modifiers.some((m) => m.kind === ts.SyntaxKind.ExportKeyword)) {
+      continue;
+    }
+    const isDefault = modifiers.some(
+      (m) => m.kind === ts.SyntaxKind.DefaultKeyword,
+    );
+
+    if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (ts.isIdentifier(declaration.name)) {
+          exports.local.set(declaration.name.text, declaration.name.text);
+        }
+      }
+      continue;
+    }
+
+    if (
+      (ts.isInterfaceDeclaration(statement) ||
+        ts.isTypeAliasDeclaration(statement) ||
+        ts.isEnumDeclaration(statement) ||
+        ts.isClassDeclaration(statement) ||
+        ts.isFunctionDeclaration(statement) ||
+        ts.isModuleDeclaration(statement)) &&
+      statement.name &&
+      ts.isIdentifier(statement.name)
+    ) {
+      const { text } = statement.name;
+      exports.local.set(isDefault ? "default" : text, text);
+    }
+  }
+
+  return exports;
+}
+
+/**
+ * Find the scanned file a module path points at, trying TypeScript
+ * extensions for extension-less and `.js` paths and `index` files for
+ * folders.
+ */
+function resolveModulePath(
+  base: string,
+  modules: ReadonlyMap<string, ModuleExports>,
+): string | null {
+  const stem = base.replace(/\.[cm]?jsx?$/, "");
+  const candidates = [
+    base,
+    ...RESOLVE_EXTENSIONS.map((ext) => `${stem}${ext}`),
+    ...RESOLVE_EXTENSIONS.map((ext) => `${stem}/index${ext}`),
+  ];
+  return candidates.find((candidate) => modules.has(candidate)) ?? null;
+}
+
+/**
+ * Resolve a module specifier to a scanned file. Relative specifiers resolve
+ * against the importing file; bare ones through tsconfig `paths` patterns,
+ * then `baseUrl`. Anything else (packages, missing files) is `null`.
+ */
+export function resolveModuleSpecifier(
+  fromFile: string,
+  specifier: string,
+  modules: ReadonlyMap<string, ModuleExports>,
+  resolution: ModuleResolution | null = null,
+): string | null {
+  if (specifier.startsWith(".")) {
+    return resolveModulePath(
+      path.posix.join(path.posix.dirname(fromFile), specifier),
+      modules,
+    );
+  }
+  if (!resolution) return null;
+
+  for (const [pattern, targets] of Object.entries(resolution.paths)) {
+    const star = pattern.indexOf("*");
+    let captured: string | null = null;
+    if (star < 0) {
+      if (specifier === pattern) captured = "";
+    } else {
+      const prefix = pattern.slice(0, star);
+      const suffix = pattern.slice(star + 1);
+      if (
+        specifier.length >= prefix.length + suffix.length &&
+        specifier.startsWith(prefix) &&
+        specifier.endsWith(suffix)
+      ) {
+        captured = specifier.slice(
+          prefix.length,
+          specifier.length - suffix.length,
+        );
+      }
+    }
+    if (captured === null) continue;
+
+    for (const target of targets) {
+      const resolved = resolveModulePath(
+        path.posix.join(resolution.pathsBase, target.replace("*", captured)),
+        modules,
+      );
+      if (resolved) return resolved;
+    }
+  }
+
+  return resolution.baseUrl === null
+    ? null
+    : resolveModulePath(
+        path.posix.join(resolution.baseUrl, specifier),
+        modules,
+      );
+}
+
+// ---------------------------------------------------------------------------
+// Entry points
+// ---------------------------------------------------------------------------
+
+/** Collect the string leaves of a package.json `exports` value. */
+function exportTargets(value: unknown): string[] {
+  if (typeof value === "string") return [value];
+  if (Array.isArray(value)) return value.flatMap(exportTargets);
+  if (value && typeof value === "object") {
+    return Object.values(value).flatMap(exportTargets);
+  }
+  return [];
+}
+
+/** The nearest package.json at or above `dir`: its folder and its text. */
+async function findPackageManifest(
+  dir: string,
+): Promise<{ packageDir: string; text: string } | null> {
+  let packageDir = path.resolve(process.cwd(), dir);
+  for (;;) {
+    const text = await fs
+      .readFile(path.join(packageDir, "package.json"), "utf8")
+      .catch(() => null);
+    if (text !== null) return { packageDir, text };
+    const parent = path.dirname(packageDir);
+    if (parent === packageDir) return null;
+    packageDir = parent;
+  }
+}
+
+/**
+ * Read the entry points a package publishes: `types` / `typings` and every
+ * target of `exports` (subpath patterns with `*` are skipped). The manifest
+ * is the nearest package.json at or above `dir`, so the default `src` root
+ * finds the one next to it; entries are relative to its folder. Returns
+ * `[]` without a package.json.
+ */
+export async function readPackageEntries(dir: string): Promise<string[]> {
+  const manifestFile = await findPackageManifest(dir);
+  if (!manifestFile) return [];
+  const { packageDir, text } = manifestFile;
+
+  let manifest: Record<string, unknown>;
+  try {
+    manifest = JSON.parse(text);
+  } catch {
+    throw new Error(`Cannot parse ${path.join(packageDir, "package.json")}`);
+  }
+
+  const entries = [
+    manifest["types"],
+    manifest["typings"],
+    ...exportTargets(manifest["exports"]),
+  ].filter(
+    (entry): entry is string =>
+      typeof entry === "string" && !entry.includes("*"),
+  );
+  return [
+    ...new Set(
+      entries.map((entry) =>
+        toPosix(path.relative(process.cwd(), path.resolve(packageDir, entry))),
+      ),
+    ),
+  ];
+}
+
+/**
+ * Map an entry point to a scanned source file. Built paths are mapped back
+ * to their sources: `dist/index.d.ts` and `dist/index.js` both try
+ * `dist/index.ts` and `src/index.ts`.
+ */
+export function resolveEntryFile(
+  entry: string,
+  modules: ReadonlyMap<string, ModuleExports>,
+): string | null {
+  const stem = entry.replace(/(\.d)?\.[cm]?[jt]sx?$/, "");
+  const stems = [stem];
+
+  const segments = stem.split("/");
+  const outputIndex = segments.findIndex((s) => OUTPUT_DIRS.has(s));
+  if (outputIndex >= 0) {
+    segments[outputIndex] = "src";
+    stems.push(segments.join("/"));
+  }
+
+  const candidates = [
+    entry,
+    ...stems.flatMap((s) => RESOLVE_EXTENSIONS.map((ext) => `${s}${ext}`)),
+  ];
+  return candidates.find((candidate) => modules.has(candidate)) ?? null;
+}
+
+// ---------------------------------------------------------------------------
+// Public surface
+// ---------------------------------------------------------------------------
+
+/**
+ * Follow exports from the entry files through `export ... from`,
+ * re-exported imports and `export *`, and return the `file::name` keys of
+ * everything reachable. Names are the ones used in each file, so a
+ * re-export record matches its exported name and a declaration its own.
+ */
+export function findPublicNames(
+  entryFiles: string[],
+  modules: ReadonlyMap<string, ModuleExports>,
+  resolution: ModuleResolution | null = null,
+): Set<string> {
+  const reachable = new Set<string>();
+  const seen = new Set<string>();
+
+  function visit(file: string, name: string): void {
+    const key = `${file}::${name}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+
+    const mod = modules.get(file);
+    if (!mod) return;
+    const follow = (specifier: string, target: string) => {
+      const resolved = resolveModuleSpecifier(
+        file,
+        specifier,
+        modules,
+        resolution,
+      );
+      if (resolved) visit(resolved, target);
+    };
+
+    if (name === "*") {
+      for (const exported of [...mod.local.keys(), ...mod.named.keys()]) {
+        if (exported !== "default") visit(file, exported);
+      }
+      for (const specifier of mod.star) follow(specifier, "*");
+      return;
+    }
+
+    const local = mod.local.get(name);
+    const named = mod.named.get(name);
+    if (local) {
+      reachable.add(`${file}::${local}`);
+    } else if (named) {
+      reachable.add(key);
+      follow(named.specifier, named.name);
+    } else if (name !== "default") {
+      for (const specifier of mod.star) follow(specifier, name);
+    }
+  }
+
+  for (const entry of entryFiles) {
+    visit(entry, "*");
+    visit(entry, "default");
+  }
+  return reachable;
+}
+
+/**
+ * Tag each declaration as `public` when an entry point exports it (directly
+ * or through re-exports), and `internal` otherwise. Namespace members are
+ * public when they and their top-level namespace are exported.
+ */
+export function markVisibility(
+  declarations: DeclarationRecord[],
+  publicNames: ReadonlySet<string>,
+): DeclarationRecord[] {
+  return declarations.map((d) => {
+    const topLevelName = d.container.namespaces[0] ?? d.name;
+    const isPublic =
+      d.exported &&
+      d.container.kind === "file" &&
+      publicNames.has(`${d.file}::${topLevelName}`);
+    return { ...d, visibility: isPublic ? "public" : "internal" };
+  });
+}
@@ -0,0 +1,162 @@
+import { collectReferences, serializeShape } from "./shape.js";
+import type { DeclarationRecord, NestedShapeMatch } from "./types.js";
+import { groupBy } from "./utils.js";
+
+export interface TransitiveShapeGrouping {
+  /** Shape groups keyed by shape (all groups, including singletons). */
+  groups: Map<string, DeclarationRecord[]>;
+  /** For groups formed through nested duplicates: the groups that caused it. */
+  nested: Map<string, NestedShapeMatch[]>;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Give every group a readable, unique label (`#Address`, `#Address~2`, …)
+ * derived from the alphabetically first declaration name in it.
+ */
+function labelGroups(
+  partition: Map<string, DeclarationRecord[]>,
+): Map<string, string> {
+  const labels = new Map<string, string>();
+  const used = new Set<string>();
+
+  for (const key of [...partition.keys()].sort()) {
+    const names = (partition.get(key) ?? []).map((d) => d.name).sort();
+    const base = `#${names[0] ?? ""}`;
+    let label = base;
+    for (let n = 2; used.has(label); n++) label = `${base}~${n}`;
+    used.add(label);
+    labels.set(key, label);
+  }
+
+  return labels;
+}
+
+/**
+ * Map each declared name to its group label. Names declared in more than
+ * one group are ambiguous and left unresolved.
+ */
+function labelReferences(
+  declarations: DeclarationRecord[],
+  keys: Map<DeclarationRecord, string>,
+  labels: Map<string, string>,
+): Map<string, string> {
+  const byName = new Map<string, string | null>();
+  for (const d of declarations) {
+    if (!d.shape) continue;
+    const label = labels.get(keys.get(d) ?? "") ?? null;
+    const existing = byName.get(d.name);
+    byName.set(
+      d.name,
+      existing === undefined || existing === label ? label : null,
+    );
+  }
+
+  const resolved = new Map<string, string>();
+  for (const [name, label] of byName) {
+    if (label) resolved.set(name, label);
+  }
+  return resolved;
+}
+
+// ---------------------------------------------------------------------------
+// Transitive grouping
+// ---------------------------------------------------------------------------
+
+/**
+ * Group declarations by shape, treating references to declarations in the
+ * same shape group as equal.
+ *
+ * Starts from the plain shape keys, then repeatedly re-serialises each shape
+ * with every (unambiguous) referenced type name replaced by its group label
+ * and regroups. Groups only ever merge, so this stops once a pass produces
+ * no merges. `{ home: Address }` and `{ home: Addr }` end up together when
+ * `Address` and `Addr` share a shape, and so on up the type tree.
+ */
+export function groupShapesTransitively(
+  declarations: DeclarationRecord[],
+): TransitiveShapeGrouping {
+  let keys = new Map(declarations.map((d) => [d, d.normalizedShape]));
+
+  let partition: Map<string, DeclarationRecord[]>;
+  let labels: Map<string, string>;
+  let references: Map<string, string>;
+  let nextKeys: Map<DeclarationRecord, string>;
+
+  for (;;) {
+    const current = keys;
+    partition = groupBy(declarations, (d) => current.get(d) ?? "");
+    labels = labelGroups(partition);
+    references = labelReferences(declarations, current, labels);
+
+    const resolve = (name: string) => references.get(name);
+    nextKeys = new Map(
+      declarations.map((d) => [
+        d,
+        d.shape ? serializeShape(d.shape, resolve) : d.normalizedShape,
+      ]),
+    );
+
+    if (new Set(nextKeys.values()).size === partition.size) break;
+    keys = nextKeys;
+  }
+
+  // Groups made of a single syntactic shape keep their plain key; merged
+  // groups are keyed by their label-substituted shape.
+  const displayKeys = new Map<string, string>();
+  const merged = new Set<string>();
+  for (const [key, items] of partition) {
+    const [first] = items;
+    if (!first) continue;
+    if (items.every((d) => d.normalizedShape === first.normalizedShape)) {
+      displayKeys.set(key, first.normalizedShape);
+    } else {
+      displayKeys.set(key, nextKeys.get(first) ?? key);
+      merged.add(key);
+    }
+  }
+
+  const labelKeys = new Map<string, string>();
+  for (const [key, label] of labels) labelKeys.set(label, key);
+
+  const groups = new Map<string, DeclarationRecord[]>();
+  const nested = new Map<string, NestedShapeMatch[]>();
+
+  for (const [key, items] of partition) {
+    const displayKey = displayKeys.get(key) ?? key;
+    groups.set(displayKey, items);
+
+    if (!merged.has(key)) continue;
+
+    const namesByLabel = new Map<string, Set<string>>();
+    for (const d of items) {
+      if (!d.shape) continue;
+      for (const name of collectReferences(d.shape)) {
+        const label = references.get(name);
+        if (!label) continue;
+        const names = namesByLabel.get(label) ?? new Set<string>();
+        names.add(name);
+        namesByLabel.set(label, names);
+      }
+    }
+
+    const matches: NestedShapeMatch[] = [];
+    for (const [label, names] of namesByLabel) {
+      if (names.size < 2) continue;
+      const innerKey = labelKeys.get(label) ?? "";
+      matches.push({
+        shape: displayKeys.get(innerKey) ?? innerKey,
+        names: [...names].sort(),
+      });
+    }
+    nested.set(
+      displayKey,
+      matches.sort((a, b) => a.shape.localeCompare(b.shape)),
+    );
+  }
+
+  return { groups, nested };
+}
@@ -2,43 +2,340 @@
 // Shared type definitions
 // ---------------------------------------------------------------------------
 
-export const MODES = ["name", "shape", "both"] as const;
+export const MODES = ["name", "shape", "both", "similar"] as const;
 export type Mode = (typeof MODES)[number];
 
 export const OUTPUT_FORMATS = ["text", "json", "markdown"] as const;
 export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
 
+export const SHAPE_STRATEGIES = ["ast", "legacy"] as const;
+export type ShapeStrategy = (typeof SHAPE_STRATEGIES)[number];
+
+/** Group order: by occurrences, or by how many files use the group. */
+export const SORT_ORDERS = ["size", "impact"] as const;
+export type SortOrder = (typeof SORT_ORDERS)[number];
+
+/** Runtime schema builders recognised as declarations (see schema.ts). */
+export const SCHEMA_KINDS = ["zod", "valibot", "yup"] as const;
+export type SchemaKind = (typeof SCHEMA_KINDS)[number];
+
 export const DECLARATION_KINDS = [
   "interface",
   "type",
   "enum",
+  "class",
+  "typedef",
+  "callback",
+  ...SCHEMA_KINDS,
+  "const",
   "reexport",
 ] as const;
 export type DeclarationKind = (typeof DECLARATION_KINDS)[number];
 
+/**
+ * Ways of spelling out a fixed set of values (see values.ts): an enum, a
+ * union of literal types, or an `as const` object.
+ */
+export const VALUE_FORMS = ["enum", "union", "const"] as const;
+export type ValueForm = (typeof VALUE_FORMS)[number];
+
+export const MEMBER_KINDS = [
+  "property",
+  "method",
+  "call",
+  "construct",
+  "index",
+  "getter",
+  "setter",
+] as const;
+export type MemberKind = (typeof MEMBER_KINDS)[number];
+
+/** A member a declaration declares itself, as listed in JSON output. */
+export interface DeclarationMember {
+  kind: MemberKind;
+  /** `()` for call, `new()` for construct and `[string]` for index signatures. */
+  name: string;
+  optional: boolean;
+  readonly: boolean;
+}
+
+/**
+ * Where a declaration lives, which decides what it can merge with:
+ * - `file`: top level (or a namespace) of an ES module file
+ * - `global`: `declare global { ... }` or a script file without imports/exports
+ * - `module`: an ambient module / augmentation, `declare module "x" { ... }`
+ * - `local`: inside a function or block body
+ */
+export const CONTAINER_KINDS = ["file", "global", "module", "local"] as const;
+export type ContainerKind = (typeof CONTAINER_KINDS)[number];
+
+export interface DeclarationContainer {
+  kind: ContainerKind;
+  /** Module name for `declare module "x"` containers, otherwise null. */
+  module: string | null;
+  /** Enclosing namespaces, outermost first. */
+  namespaces: string[];
+}
+
+/**
+ * Scope classification of a declaration:
+ * - `module`: top level of a file
+ * - `namespace`: inside a (non-ambient) `namespace`
+ * - `local`: inside a function or block body
+ * - `ambient`: `declare` contexts and `.d.ts` files
+ */
+export const SCOPES = ["module", "namespace", "local", "ambient"] as const;
+export type DeclarationScope = (typeof SCOPES)[number];
+
+/**
+ * Whether a declaration is reachable from a package entry point. Only set
+ * when entry points are known (package.json `exports` / `types`, `--entry`).
+ */
+export const VISIBILITIES = ["public", "internal"] as const;
+export type Visibility = (typeof VISIBILITIES)[number];
+
+/**
+ * Whether a duplicate group's declarations come from several workspace
+ * packages or all from one. Only set with `--workspaces`.
+ */
+export const PACKAGE_SCOPES = ["cross-package", "within-package"] as const;
+export type PackageScope = (typeof PACKAGE_SCOPES)[number];
+
 export interface DeclarationRecord {
   name: string;
+  /** Name qualified by its container, e.g. `Api.User`, `<local in fooFn>.Props`. */
+  qualifiedName: string;
+  scope: DeclarationScope;
+  /**
+   * Exported from its module (`export`, `export { X }`, `export default X`).
+   * Ambient and global declarations count as exported; locals never do.
+   */
+  exported: boolean;
+  visibility?: Visibility | undefined;
+  /** Workspace package of the file (`--workspaces`). */
+  package?: string | undefined;
+  /** tsconfig project that listed the file, following `references`. */
+  project?: string | undefined;
+  /** Barrels that re-export this declaration, collapsed into it. */
+  reExports?: ReExportSite[] | undefined;
+  /**
+   * Number of other files that import or reference this declaration, through
+   * any chain of re-exports. Unset for declarations that can't be imported.
+   */
+  usageCount?: number | undefined;
   kind: DeclarationKind;
   file: string;
   line: number;
+  container: DeclarationContainer;
   snippet: string;
   normalizedShape: string;
+  shape: ShapeNode | null;
   isReExport: boolean;
+  /**
+   * Utility types expanded into the shape before matching, e.g.
+   * `Pick<User,"id"|"name">`. Unset when nothing was expanded.
+   */
+  expansions?: string[] | undefined;
+  /** Own members of every kind, in source order. */
+  members: DeclarationMember[];
+  /** Distinct member names, sorted. */
   propertyCount: number;
   propertyNames: string[];
 }
 
+export interface CollectOptions {
+  includeEnums: boolean;
+  includeClasses: boolean;
+  shapeStrategy?: ShapeStrategy;
+  /** Collect top-level `as const` objects for value-set comparison. */
+  includeConstObjects?: boolean;
+}
+
+/**
+ * tsconfig `baseUrl` / `paths` used to resolve bare module specifiers. Paths
+ * are relative to the working directory.
+ */
+export interface ModuleResolution {
+  baseUrl: string | null;
+  /** Directory `paths` targets are relative to (`baseUrl` or the tsconfig's). */
+  pathsBase: string;
+  paths: Record<string, string[]>;
+}
+
+/**
+ * A tsconfig project (relative to the working directory) and the absolute
+ * paths of the scanned files it lists that no project before it did.
+ */
+export interface TsConfigProject {
+  tsconfig: string;
+  files: string[];
+}
+
+/** An `export { X } from "..."` that was traced back to its declaration. */
+export interface ReExportSite {
+  file: string;
+  line: number;
+  /** Name the barrel exports, which differs from the origin when renamed. */
+  name: string;
+}
+
+/**
+ * A name that two `export *` statements of one barrel expose from different
+ * declarations. TypeScript drops such names from the barrel.
+ */
+export interface BarrelConflict {
+  file: string;
+  name: string;
+  sources: BarrelConflictSource[];
+}
+
+export interface BarrelConflictSource {
+  /** Specifier of the `export *` statement. */
+  specifier: string;
+  /** Module that declares the name, and its name there. */
+  file: string;
+  name: string;
+}
+
+/**
+ * What a module exports and imports, as needed to follow re-exports from
+ * entry points and count usages.
+ */
+export interface ModuleExports {
+  file: string;
+  /** Exported name → name of the declaration in this file. */
+  local: Map<string, string>;
+  /**
+   * Exported name → name exported by another module, from
+   * `export { a as b } from "./x"` or a re-exported import. The name `*`
+   * stands for a whole module (`export * as ns from "./x"`).
+   */
+  named: Map<string, { specifier: string; name: string }>;
+  /** Specifiers of `export * from "./x"`. */
+  star: string[];
+  /**
+   * Names this module imports or references from other modules: import
+   * bindings, `ns.Name` through namespace imports and `import("./x").Name`.
+   */
+  imports: Array<{ specifier: string; name: string }>;
+}
+
+// ---------------------------------------------------------------------------
+// Canonical shape model (see shape.ts)
+// ---------------------------------------------------------------------------
+
+export type ShapeNode =
+  | { kind: "keyword"; text: string }
+  | { kind: "literal"; text: string }
+  | { kind: "ref"; name: string; args: ShapeNode[] }
+  | { kind: "object"; members: ShapeMember[] }
+  | { kind: "union"; types: ShapeNode[] }
+  | { kind: "intersection"; types: ShapeNode[] }
+  | { kind: "array"; element: ShapeNode }
+  | { kind: "tuple"; elements: ShapeTupleElement[] }
+  | {
+      kind: "function";
+      construct: boolean;
+      typeParameters: ShapeTypeParameter[];
+      parameters: ShapeParameter[];
+      returns: ShapeNode;
+    }
+  | { kind: "operator"; operator: string; type: ShapeNode }
+  | { kind: "indexed"; object: ShapeNode; index: ShapeNode }
+  | {
+      kind: "conditional";
+      check: ShapeNode;
+      extends: ShapeNode;
+      trueType: ShapeNode;
+      falseType: ShapeNode;
+    }
+  | {
+      kind: "mapped";
+      parameter: string;
+      constraint: ShapeNode;
+      nameType: ShapeNode | null;
+      optional: string;
+      readonly: string;
+      type: ShapeNode | null;
+    }
+  | { kind: "enum"; members: ShapeEnumMember[] }
+  | { kind: "generic"; parameters: ShapeTypeParameter[]; type: ShapeNode }
+  | { kind: "opaque"; text: string };
+
+export interface ShapeMember {
+  kind: MemberKind;
+  name: string;
+  optional: boolean;
+  readonly: boolean;
+  type: ShapeNode;
+}
+
+export interface ShapeParameter {
+  type: ShapeNode;
+  optional: boolean;
+  rest: boolean;
+}
+
+export interface ShapeTupleElement {
+  type: ShapeNode;
+  optional: boolean;
+  rest: boolean;
+}
+
+export interface ShapeTypeParameter {
+  name: string;
+  constraint: ShapeNode | null;
+  default: ShapeNode | null;
+}
+
+export interface ShapeEnumMember {
+  name: string;
+  initializer: string | null;
+  /** Evaluated value as a literal type (`"a"`, `1`), null when computed. */
+  value: string | null;
+}
+
 export interface CliOptions {
-  root: string;
+  /**
+   * Directories to walk (`--root`, repeatable): `src` when neither a root
+   * nor a tsconfig is given, the working directory with `--workspaces`.
+   */
+  roots: string[];
   mode: Mode;
   minCount: number;
   format: OutputFormat;
   outputFile: string | null;
   failOnDuplicates: boolean;
-  tsconfig: string | null;
+  /** tsconfigs whose files are scanned (`--tsconfig`, repeatable). */
+  tsconfigs: string[];
+  /** Scan each package of a monorepo workspace (see workspaces.ts). */
+  workspaces: boolean;
+  /** `--exclude` globs; `substring:<text>` matches anywhere in a path. */
   exclude: string[];
+  /** `--include` globs; when set, only matching files are scanned. */
+  include: string[];
+  /** Scan `.js` / `.jsx` / `.mjs` / `.cjs` files for JSDoc typedefs. */
+  includeJs: boolean;
   includeEnums: boolean;
+  includeClasses: boolean;
+  includeLocals: boolean;
+  qualifiedNames: boolean;
+  /** Name normalisation rules for grouping (see naming.ts); empty = exact. */
+  nameRules: string[];
+  listNameRules: boolean;
+  entries: string[];
+  publicOnly: boolean;
+  sort: SortOrder;
   skipReExports: boolean;
+  shapeStrategy: ShapeStrategy;
+  similarity: number;
+  subsets: boolean;
+  /** Report enums, literal unions and `as const` objects with equal values. */
+  valueSets: boolean;
+  semantic: boolean;
+  reportMerges: boolean;
+  /** Report names two `export *` of one barrel take from different origins. */
+  barrelConflicts: boolean;
   help: boolean;
 }
 
@@ -50,17 +347,37 @@ export interface FileError {
 export interface ReportPayload {
   root: string;
   mode: Mode;
-  fileSource: string;
+  fileSources: FileSource[];
   filesScanned: number;
   declarationsScanned: number;
   duplicateNameGroups: DuplicateGroup[];
   duplicateShapeGroups: DuplicateGroup[];
+  similarGroups: SimilarDuplicateGroup[];
+  duplicateSemanticGroups?: DuplicateGroup[] | undefined;
+  subsetRelations?: SubsetRelationPayload[] | undefined;
+  schemaFindings?: SchemaFindingPayload[] | undefined;
+  declarationMerges?: DeclarationMergePayload[] | undefined;
+  barrelConflicts?: BarrelConflict[] | undefined;
+  valueSetGroups?: ValueSetGroupPayload[] | undefined;
+  enumConflicts?: EnumConflictPayload[] | undefined;
+  divergences?: ShapeDivergencePayload[] | undefined;
+  packageMatrix?: PackageMatrix | undefined;
   errors?: FileError[] | undefined;
 }
 
 export interface DuplicateGroup {
   name?: string;
+  /** Original spellings of a name group built from normalised names. */
+  spellings?: string[] | undefined;
   shape?: string;
+  members?: string;
+  nested?: NestedShapeMatch[] | undefined;
+  visibility?: Visibility | undefined;
+  packageScope?: PackageScope | undefined;
+  /** Workspace packages the declarations come from, sorted. */
+  packages?: string[] | undefined;
+  /** Sum of the declarations' usage counts. */
+  usageCount?: number | undefined;
   count: number;
   declarations: DuplicateDeclaration[];
 }
@@ -70,14 +387,283 @@ export interface DuplicateDeclaration {
   line: number;
   kind: DeclarationKind;
   name: string;
+  qualifiedName: string;
+  scope: DeclarationScope;
+  exported: boolean;
+  visibility?: Visibility | undefined;
+  package?: string | undefined;
+  project?: string | undefined;
+  reExports?: ReExportSite[] | undefined;
+  usageCount?: number | undefined;
   snippet: string;
   isReExport: boolean;
+  container: DeclarationContainer;
+  expansions?: string[] | undefined;
+  members: DeclarationMember[];
+}
+
+/** A nested shape group that made an outer shape group match. */
+export interface NestedShapeMatch {
+  /** Key of the shape group the referenced names belong to. */
+  shape: string;
+  /** Differently named references that resolved to that group. */
+  names: string[];
+}
+
+export interface SimilarDuplicateGroup {
+  score: number;
+  count: number;
+  sharedMembers: string[];
+  declarations: SimilarDuplicateDeclaration[];
+}
+
+export interface SimilarDuplicateDeclaration extends DuplicateDeclaration {
+  extraMembers: string[];
+  missingMembers: string[];
+}
+
+/** A cluster of near-duplicate declarations found by `--mode similar`. */
+export interface SimilarGroup {
+  /** Shared members divided by all members seen in the cluster (0–1). */
+  score: number;
+  sharedMembers: string[];
+  entries: SimilarGroupEntry[];
+}
+
+export interface SimilarGroupEntry {
+  declaration: DeclarationRecord;
+  /** Members of this declaration that not every cluster member has. */
+  extraMembers: string[];
+  /** Members seen elsewhere in the cluster that this declaration lacks. */
+  missingMembers: string[];
+}
+
+export const REFACTOR_KINDS = [
+  "extends",
+  "implements",
+  "pick",
+  "omit",
+] as const;
+export type RefactorKind = (typeof REFACTOR_KINDS)[number];
+
+export interface RefactorSuggestion {
+  kind: RefactorKind;
+  text: string;
+}
+
+/** A declaration whose members are a strict subset of another's. */
+export interface SubsetRelation {
+  subset: DeclarationRecord;
+  superset: DeclarationRecord;
+  sharedMembers: string[];
+  /** Members only the superset declares. */
+  extraMembers: string[];
+  /** `null` when no refactor fits, e.g. for a class subset. */
+  suggestion: RefactorSuggestion | null;
+}
+
+export interface SubsetRelationPayload {
+  subset: DuplicateDeclaration;
+  superset: DuplicateDeclaration;
+  sharedMembers: string[];
+  extraMembers: string[];
+  suggestion: RefactorSuggestion | null;
+}
+
+export const SCHEMA_FINDING_KINDS = ["duplicate", "drift"] as const;
+export type SchemaFindingKind = (typeof SCHEMA_FINDING_KINDS)[number];
+
+/** A runtime schema paired with a static declaration it duplicates. */
+export interface SchemaFinding {
+  kind: SchemaFindingKind;
+  schema: DeclarationRecord;
+  declaration: DeclarationRecord;
+  onlyInSchema: string[];
+  onlyInType: string[];
+  changedMembers: string[];
+}
+
+export interface SchemaFindingPayload {
+  kind: SchemaFindingKind;
+  schema: DuplicateDeclaration;
+  declaration: DuplicateDeclaration;
+  onlyInSchema: string[];
+  onlyInType: string[];
+  changedMembers: string[];
+}
+
+/** Declarations that TypeScript merges into one (see merging.ts). */
+export interface DeclarationMerge {
+  name: string;
+  container: DeclarationContainer;
+  declarations: DeclarationRecord[];
+}
+
+export interface DeclarationMergePayload {
+  name: string;
+  container: DeclarationContainer;
+  count: number;
+  declarations: DuplicateDeclaration[];
+}
+
+/**
+ * Declarations of different forms (enum, literal union, `as const` object)
+ * that stand for the same set of values.
+ */
+export interface ValueSetGroup {
+  /** Sorted literal values, e.g. `["\"active\"", "\"inactive\""]`. */
+  values: string[];
+  forms: ValueForm[];
+  declarations: DeclarationRecord[];
+}
+
+export interface ValueSetGroupPayload {
+  values: string[];
+  forms: ValueForm[];
+  /** The forms involved, e.g. `enum vs literal union`. */
+  label: string;
+  count: number;
+  declarations: DuplicateDeclaration[];
+}
+
+/** Same-named enums whose members or member values disagree. */
+export interface EnumConflict {
+  name: string;
+  /** The enum the others are compared with (the first of the group). */
+  reference: DeclarationRecord;
+  /** Enums that differ from the reference. */
+  entries: EnumConflictEntry[];
+}
+
+export interface EnumConflictEntry {
+  declaration: DeclarationRecord;
+  /** Reference members this enum lacks. */
+  missingMembers: string[];
+  /** Members the reference lacks. */
+  addedMembers: string[];
+  changedValues: EnumValueChange[];
+}
+
+/** A member whose value differs from the reference, e.g. `"ADMIN"` vs `"admin"`. */
+export interface EnumValueChange {
+  member: string;
+  value: string;
+  expected: string;
+}
+
+export interface EnumConflictPayload {
+  name: string;
+  reference: DuplicateDeclaration;
+  entries: Array<
+    DuplicateDeclaration & {
+      missingMembers: string[];
+      addedMembers: string[];
+      changedValues: EnumValueChange[];
+    }
+  >;
+}
+
+export const MEMBER_CHANGE_KINDS = [
+  "added",
+  "removed",
+  "optional",
+  "readonly",
+  "type",
+] as const;
+export type MemberChangeKind = (typeof MEMBER_CHANGE_KINDS)[number];
+
+/**
+ * A member that differs between two shape variants. `before` / `after` hold
+ * the member type for added, removed and type changes, and the modifier
+ * (`optional` / `required`, `readonly` / `mutable`) otherwise.
+ */
+export interface MemberChange {
+  kind: MemberChangeKind;
+  member: string;
+  before: string | null;
+  after: string | null;
+}
+
+/** Same-named declarations that have drifted into different shapes. */
+export interface ShapeDivergence {
+  name: string;
+  /** Shape variants, the most common (the baseline) first. */
+  variants: ShapeVariant[];
+}
+
+export interface ShapeVariant {
+  shape: string;
+  declarations: DeclarationRecord[];
+  /**
+   * Changes from the baseline variant: empty for the baseline itself, null
+   * when either shape has no member list to compare.
+   */
+  changes: MemberChange[] | null;
+}
+
+export interface ShapeDivergencePayload {
+  name: string;
+  variants: Array<{
+    shape: string;
+    baseline: boolean;
+    count: number;
+    declarations: DuplicateDeclaration[];
+    changes: MemberChange[] | null;
+  }>;
+}
+
+/** A package of a monorepo workspace, found by `--workspaces`. */
+export interface WorkspacePackage {
+  /** `name` from its package.json, or its folder when it has none. */
+  name: string;
+  /** Folder relative to the working directory (POSIX). */
+  dir: string;
+  /** The package's own tsconfig.json, when it has one. */
+  tsconfig: string | null;
+}
+
+/** Reported duplicate groups per pair of workspace packages. */
+export interface PackageMatrix {
+  packages: WorkspacePackage[];
+  /**
+   * `counts[i][j]`: groups with declarations in both package i and package
+   * j; `counts[i][i]`: groups within package i only.
+   */
+  counts: number[][];
+}
+
+/** Additional analysis sections rendered alongside name/shape groups. */
+export interface ReportSections {
+  similarGroups?: SimilarGroup[];
+  subsetRelations?: SubsetRelation[];
+  schemaFindings?: SchemaFinding[];
+  declarationMerges?: DeclarationMerge[];
+  barrelConflicts?: BarrelConflict[];
+  valueSetGroups?: ValueSetGroup[];
+  enumConflicts?: EnumConflict[];
+  divergences?: ShapeDivergence[];
+  /** Duplicate groups per pair of packages, with `--workspaces`. */
+  packageMatrix?: PackageMatrix;
+  /** Nested matches behind transitively grouped shapes, by shape key. */
+  nestedShapeMatches?: Map<string, NestedShapeMatch[]>;
+  /** Type-checker equivalence groups, keyed by their property list. */
+  semanticGroups?: Array<[string, DeclarationRecord[]]>;
+}
+
+/**
+ * An input the scanned files came from, e.g. `directory walk (src)` or
+ * `tsconfig (tsconfig.json)`.
+ */
+export interface FileSource {
+  label: string;
+  /** Files it added that no input before it listed. */
+  files: number;
 }
 
 export interface ReportMeta {
   filesScanned: number;
   declarationsScanned: number;
   mode: Mode;
-  fileSource: string;
+  fileSources: FileSource[];
   duplicateCount: number;
 }
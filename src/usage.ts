@@ -0,0 +1,69 @@
+import { resolveExportOrigin } from "./reexports.js";
+import { resolveModuleSpecifier } from "./surface.js";
+import type {
+  DeclarationRecord,
+  ModuleExports,
+  ModuleResolution,
+} from "./types.js";
+
+// ---------------------------------------------------------------------------
+// Usage counts
+// ---------------------------------------------------------------------------
+
+/**
+ * Count, for each declaration, the other files that import or reference it.
+ * Imports are followed through barrels to the declaring module, so a type
+ * imported from `./models` counts for `./models/user.ts`. Namespace members
+ * count the usages of their top-level namespace; global and ambient
+ * declarations are used without imports and get no count.
+ */
+export function countUsages(
+  declarations: DeclarationRecord[],
+  modules: ReadonlyMap<string, ModuleExports>,
+  resolution: ModuleResolution | null = null,
+): DeclarationRecord[] {
+  const usedBy = new Map<string, Set<string>>();
+
+  for (const mod of modules.values()) {
+    for (const { specifier, name } of mod.imports) {
+      const target = resolveModuleSpecifier(
+        mod.file,
+        specifier,
+        modules,
+        resolution,
+      );
+      const origin =
+        target && resolveExportOrigin(target, name, modules, resolution);
+      if (!origin || origin.file === mod.file) continue;
+
+      const key = `${origin.file}::${origin.name}`;
+      const files = usedBy.get(key) ?? new Set();
+      files.add(mod.file);
+      usedBy.set(key, files);
+    }
+  }
+
+  return declarations.map((d) => {
+    if (d.container.kind !== "file" || d.isReExport) return d;
+    const topLevelName = d.container.namespaces[0] ?? d.name;
+    const usageCount = usedBy.get(`${d.file}::${topLevelName}`)?.size ?? 0;
+    return { ...d, usageCount };
+  });
+}
+
+/** Total usages of a group's declarations. */
+export function groupUsageCount(items: DeclarationRecord[]): number {
+  return items.reduce((sum, d) => sum + (d.usageCount ?? 0), 0);
+}
+
+/**
+ * Order groups by total usages, most used first. Ties keep their current
+ * (occurrence-based) order.
+ */
+export function sortGroupsByImpact<T extends [string, DeclarationRecord[]]>(
+  groups: T[],
+): T[] {
+  return [...groups].sort(
+    (a, b) => groupUsageCount(b[1]) - groupUsageCount(a[1]),
+  );
+}
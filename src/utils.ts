@@ -11,27 +11,153 @@ export function toPosix(filePath: string): string {
   return filePath.split(path.sep).join("/");
 }
 
+/** Prefix of patterns matched as a plain substring of the path. */
+export const SUBSTRING_PREFIX = "substring:";
+
+/**
+ * An include / exclude / ignore-file pattern, compiled by
+ * `compilePathPattern`.
+ */
+export interface PathPattern {
+  /** `!pattern`: re-includes what earlier patterns matched. */
+  negated: boolean;
+  /** `pattern/`: only matches folders. */
+  directoryOnly: boolean;
+  test: (relPath: string) => boolean;
+}
+
+/** Whether every `{` of a glob is closed by a later `}`. */
+function hasBalancedBraces(glob: string): boolean {
+  let depth = 0;
+  for (const c of glob) {
+    if (c === "{") depth++;
+    if (c === "}" && --depth < 0) return false;
+  }
+  return depth === 0;
+}
+
+/**
+ * Translate a glob into an anchored RegExp: `**` spans folders (`**\/`
+ * also matches none), `*` and `?` stay within one path segment, and
+ * `{a,b}` matches either alternative. Unbalanced braces are literal.
+ */
+export function globToRegExp(glob: string): RegExp {
+  const braces = hasBalancedBraces(glob);
+  let source = "";
+  let depth = 0;
+
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob.charAt(i);
+    if (c === "*" && glob.charAt(i + 1) === "*") {
+      const segmentStart = i === 0 || glob.charAt(i - 1) === "/";
+      if (segmentStart && glob.charAt(i + 2) === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i += 1;
+      }
+    } else if (c === "*") {
+      source += "[^/]*";
+    } else if (c === "?") {
+      source += "[^/]";
+    } else if (braces && c === "{") {
+      source += "(?:";
+      depth++;
+    } else if (braces && c === "}") {
+      source += ")";
+      depth--;
+    } else if (braces && c === "," && depth > 0) {
+      source += "|";
+    } else {
+      source += escapeRegExp(c);
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Compile a pattern with `.gitignore` semantics: a pattern containing a `/`
+ * is relative to the base folder, anything else matches a file or folder
+ * name at any depth; a trailing `/` only matches folders and a leading `!`
+ * negates. `substring:<text>` matches paths containing the text anywhere.
+ * Returns null for blank patterns.
+ */
+export function compilePathPattern(raw: string): PathPattern | null {
+  let pattern = raw.trim();
+  const negated = pattern.startsWith("!");
+  if (negated) pattern = pattern.slice(1);
+
+  if (pattern.startsWith(SUBSTRING_PREFIX)) {
+    const text = pattern.slice(SUBSTRING_PREFIX.length).replace(/^\.\/+/, "");
+    return text
+      ? { negated, directoryOnly: false, test: (rel) => rel.includes(text) }
+      : null;
+  }
+
+  pattern = pattern.replace(/^\.\/+/, "");
+  const directoryOnly = pattern.endsWith("/");
+  pattern = pattern.replace(/\/+$/, "");
+  const anchored = pattern.includes("/");
+  pattern = pattern.replace(/^\/+/, "");
+  if (!pattern) return null;
+
+  const regex = globToRegExp(anchored ? pattern : `**/${pattern}`);
+  return { negated, directoryOnly, test: (rel) => regex.test(rel) };
+}
+
+export function compilePathPatterns(patterns: string[]): PathPattern[] {
+  return patterns.flatMap((p) => compilePathPattern(p) ?? []);
+}
+
 /**
- * Check whether a relative POSIX path matches any of the exclude patterns.
- *
- * Match rules (documented in --help):
- * - Exact match against the token
- * - Token is a prefix followed by `/`
- * - Token appears anywhere as a substring
+ * The last pattern matching a relative POSIX path or one of its parent
+ * folders, which decides whether the path matches, or null.
+ */
+export function lastMatchingPattern(
+  relPathPosix: string,
+  patterns: readonly PathPattern[],
+  isDirectory = false,
+): PathPattern | null {
+  const segments = relPathPosix.replace(/^\.\/+/, "").split("/");
+  let last: PathPattern | null = null;
+
+  for (const pattern of patterns) {
+    for (let i = 1; i <= segments.length; i++) {
+      const folder = i < segments.length || isDirectory;
+      if (pattern.directoryOnly && !folder) continue;
+      if (pattern.test(segments.slice(0, i).join("/"))) {
+        last = pattern;
+        break;
+      }
+    }
+  }
+
+  return last;
+}
+
+/** Whether the last pattern matching a path (or a parent) isn't negated. */
+export function matchesPathPatterns(
+  relPathPosix: string,
+  patterns: readonly PathPattern[],
+  isDirectory = false,
+): boolean {
+  const last = lastMatchingPattern(relPathPosix, patterns, isDirectory);
+  return !!last && !last.negated;
+}
+
+/**
+ * Check whether a relative POSIX path matches the `--exclude` patterns
+ * (globs, see `compilePathPattern`). `src/generated` excludes that folder,
+ * `generated` any folder or file of that name, `**\/*.gen.ts` generated
+ * files anywhere, and `substring:gen` any path containing `gen`.
  */
 export function matchesExclude(
   relPathPosix: string,
   patterns: string[],
 ): boolean {
-  if (patterns.length === 0) return false;
-
-  const rel = relPathPosix.replace(/^\.\/+/, "");
-
-  return patterns.some((raw) => {
-    const p = raw.trim().replace(/^\.\/+/, "");
-    if (!p) return false;
-    return rel === p || rel.startsWith(`${p}/`) || rel.includes(p);
-  });
+  return matchesPathPatterns(relPathPosix, compilePathPatterns(patterns));
 }
 
 // ---------------------------------------------------------------------------
@@ -0,0 +1,178 @@
+import ts from "typescript";
+
+import { evaluateConstant, memberNameText } from "./shape.js";
+import type {
+  DeclarationRecord,
+  ShapeMember,
+  ShapeNode,
+  ValueForm,
+  ValueSetGroup,
+} from "./types.js";
+import { VALUE_FORMS } from "./types.js";
+import { groupBy, normalizeWhitespace } from "./utils.js";
+
+/** Value sets smaller than this are too common to report. */
+const MIN_VALUE_SET_SIZE = 2;
+
+const VALUE_FORM_LABELS: Record<ValueForm, string> = {
+  enum: "enum",
+  union: "literal union",
+  const: "as const object",
+};
+
+// ---------------------------------------------------------------------------
+// `as const` objects
+// ---------------------------------------------------------------------------
+
+/** The object literal of `{ ... } as const`, looking through `satisfies`. */
+function constObjectLiteral(
+  expr: ts.Expression,
+): ts.ObjectLiteralExpression | null {
+  if (ts.isParenthesizedExpression(expr) || ts.isSatisfiesExpression(expr)) {
+    return constObjectLiteral(expr.expression);
+  }
+  if (
+    !ts.isAsExpression(expr) ||
+    !ts.isTypeReferenceNode(expr.type) ||
+    !ts.isIdentifier(expr.type.typeName) ||
+    expr.type.typeName.text !== "const"
+  ) {
+    return null;
+  }
+
+  let inner = expr.expression;
+  while (ts.isParenthesizedExpression(inner)) inner = inner.expression;
+  return ts.isObjectLiteralExpression(inner) ? inner : null;
+}
+
+/**
+ * Shape of `const X = { ... } as const`: readonly properties typed by their
+ * literal values. Values that aren't constants stay opaque. Returns null for
+ * other variables and for objects with spreads, methods or accessors.
+ */
+export function buildConstObjectShape(
+  node: ts.VariableDeclaration,
+  sourceFile: ts.SourceFile,
+): ShapeNode | null {
+  const list = node.parent;
+  if (
+    !node.initializer ||
+    !ts.isVariableDeclarationList(list) ||
+    !(list.flags & ts.NodeFlags.Const)
+  ) {
+    return null;
+  }
+  const object = constObjectLiteral(node.initializer);
+  if (!object) return null;
+
+  const members: ShapeMember[] = [];
+  for (const property of object.properties) {
+    if (!ts.isPropertyAssignment(property)) return null;
+    const value = evaluateConstant(property.initializer);
+    members.push({
+      kind: "property",
+      name: memberNameText(property.name, sourceFile),
+      optional: false,
+      readonly: true,
+      type:
+        value === null
+          ? {
+              kind: "opaque",
+              text: normalizeWhitespace(
+                property.initializer.getText(sourceFile),
+              ),
+            }
+          : { kind: "literal", text: value },
+    });
+  }
+  return { kind: "object", members };
+}
+
+// ---------------------------------------------------------------------------
+// Value sets
+// ---------------------------------------------------------------------------
+
+/** How a declaration spells out a set of values, if it can. */
+export function valueForm(declaration: DeclarationRecord): ValueForm | null {
+  switch (declaration.kind) {
+    case "enum":
+      return "enum";
+    case "type":
+    case "typedef":
+      return "union";
+    case "const":
+      return "const";
+    default:
+      return null;
+  }
+}
+
+/**
+ * The values a declaration stands for, as sorted literal types: the member
+ * values of an enum, the members of a literal union or the property values
+ * of an `as const` object. Null when any of them isn't a constant.
+ */
+export function valueSet(declaration: DeclarationRecord): string[] | null {
+  const { shape } = declaration;
+  if (!shape) return null;
+
+  let values: Array<string | null>;
+  const form = valueForm(declaration);
+  if (form === "enum" && shape.kind === "enum") {
+    values = shape.members.map((m) => m.value);
+  } else if (form === "const" && shape.kind === "object") {
+    values = shape.members.map((m) =>
+      m.type.kind === "literal" ? m.type.text : null,
+    );
+  } else if (form === "union") {
+    const types = shape.kind === "union" ? shape.types : [shape];
+    values = types.map((t) => (t.kind === "literal" ? t.text : null));
+  } else {
+    return null;
+  }
+
+  const known = values.filter((v): v is string => v !== null);
+  if (known.length === 0 || known.length < values.length) return null;
+  return [...new Set(known)].sort();
+}
+
+/** Name the forms a group mixes, e.g. `enum vs literal union`. */
+export function describeValueForms(forms: ValueForm[]): string {
+  return forms.map((form) => VALUE_FORM_LABELS[form]).join(" vs ");
+}
+
+/**
+ * Group declarations that stand for the same set of values in different
+ * forms: `enum Status { Active = "active" }`, `type Status = "active"` and
+ * `const Status = { Active: "active" } as const`. Groups of a single form are
+ * left to the shape report.
+ */
+export function findValueSetGroups(
+  declarations: DeclarationRecord[],
+  minCount = 2,
+): ValueSetGroup[] {
+  const sets = new Map<DeclarationRecord, string[]>();
+  for (const d of declarations) {
+    const values = valueSet(d);
+    if (values && values.length >= MIN_VALUE_SET_SIZE) sets.set(d, values);
+  }
+
+  const groups: ValueSetGroup[] = [];
+  const byValues = groupBy([...sets.keys()], (d) =>
+    JSON.stringify(sets.get(d)),
+  );
+  for (const items of byValues.values()) {
+    const forms = VALUE_FORMS.filter((form) =>
+      items.some((d) => valueForm(d) === form),
+    );
+    const first = items[0];
+    if (!first || forms.length < 2 || items.length < minCount) continue;
+    groups.push({ values: sets.get(first) ?? [], forms, declarations: items });
+  }
+
+  return groups.sort(
+    (a, b) =>
+      b.declarations.length - a.declarations.length ||
+      a.values.join().localeCompare(b.values.join()),
+  );
+}
@@ -0,0 +1,297 @@
+import { existsSync, type Dirent, promises as fs } from "node:fs";
+import path from "node:path";
+
+import { DEFAULT_IGNORED_DIRS } from "./constants.js";
+import {
+  applyPathFilters,
+  getTsConfigProjects,
+  getTypeFilesFromDirectory,
+} from "./scanner.js";
+import type {
+  CliOptions,
+  DeclarationRecord,
+  PackageMatrix,
+  PackageScope,
+  TsConfigProject,
+  WorkspacePackage,
+} from "./types.js";
+import { globToRegExp, toPosix } from "./utils.js";
+
+/** A `workspaces` glob, matched against folders relative to the root. */
+interface WorkspacePattern {
+  negated: boolean;
+  regex: RegExp;
+}
+
+// ---------------------------------------------------------------------------
+// Workspace manifests
+// ---------------------------------------------------------------------------
+
+async function readManifest(
+  dir: string,
+): Promise<Record<string, unknown> | null> {
+  const file = path.join(dir, "package.json");
+  const text = await fs.readFile(file, "utf8").catch(() => null);
+  if (text === null) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error(`Cannot parse ${file}`);
+  }
+}
+
+/** `workspaces` of a package.json: a list, or yarn's `{ packages: [...] }`. */
+function manifestWorkspaces(
+  manifest: Record<string, unknown> | null,
+): string[] {
+  const workspaces = manifest?.["workspaces"];
+  const list = Array.isArray(workspaces)
+    ? workspaces
+    : (workspaces as { packages?: unknown } | undefined)?.packages;
+  return Array.isArray(list)
+    ? list.filter((p): p is string => typeof p === "string")
+    : [];
+}
+
+function unquote(value: string): string {
+  return /^(["']).*\1$/.test(value) ? value.slice(1, -1) : value;
+}
+
+/**
+ * The `packages` list of a pnpm-workspace.yaml, as a block list
+ * (`- "packages/*"`) or a flow list (`[apps/*, packages/*]`). Other keys
+ * are skipped, so no YAML parser is needed.
+ */
+export function parsePnpmWorkspace(text: string): string[] {
+  const patterns: string[] = [];
+  let inPackages = false;
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.replace(/(^|\s)#.*$/, "").trimEnd();
+    if (!line) continue;
+
+    if (/^\S/.test(line)) {
+      const key = /^packages\s*:\s*(.*)$/.exec(line);
+      const flow = key?.[1] && /^\[(.*)\]$/.exec(key[1]);
+      if (flow) {
+        patterns.push(
+          ...(flow[1] ?? "")
+            .split(",")
+            .map((p) => unquote(p.trim()))
+            .filter(Boolean),
+        );
+      }
+      inPackages = !!key && !flow;
+      continue;
+    }
+
+    const item = inPackages ? /^\s*-\s*(.+)$/.exec(line) : null;
+    if (item?.[1]) patterns.push(unquote(item[1].trim()));
+  }
+
+  return patterns;
+}
+
+function compileWorkspacePattern(raw: string): WorkspacePattern {
+  const negated = raw.startsWith("!");
+  const glob = (negated ? raw.slice(1) : raw)
+    .replace(/^\.\/+/, "")
+    .replace(/\/+$/, "");
+  return { negated, regex: globToRegExp(glob) };
+}
+
+// ---------------------------------------------------------------------------
+// Package discovery
+// ---------------------------------------------------------------------------
+
+/**
+ * Find the packages of the workspace rooted at `rootDir`: folders with a
+ * package.json matching the globs of pnpm-workspace.yaml, or else of
+ * `workspaces` in the root package.json. `!` globs exclude folders again.
+ * Throws when the root declares no workspace or no folder matches.
+ */
+export async function discoverWorkspacePackages(
+  rootDir: string,
+): Promise<WorkspacePackage[]> {
+  const relativeRoot = toPosix(path.relative(process.cwd(), rootDir)) || ".";
+  const pnpm = await fs
+    .readFile(path.join(rootDir, "pnpm-workspace.yaml"), "utf8")
+    .catch(() => null);
+  const globs =
+    pnpm !== null
+      ? parsePnpmWorkspace(pnpm)
+      : manifestWorkspaces(await readManifest(rootDir));
+  if (globs.length === 0) {
+    throw new Error(
+      `No workspace packages declared in ${relativeRoot}: add "workspaces" to package.json or a pnpm-workspace.yaml`,
+    );
+  }
+
+  const patterns = globs.map(compileWorkspacePattern);
+  const isWorkspace = (rel: string) => {
+    let matched = false;
+    for (const { negated, regex } of patterns) {
+      if (regex.test(rel)) matched = !negated;
+    }
+    return matched;
+  };
+
+  const packages: WorkspacePackage[] = [];
+  async function walk(dir: string, rel: string): Promise<void> {
+    let entries: Dirent[];
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      if (!entry.isDirectory() || DEFAULT_IGNORED_DIRS.has(entry.name)) {
+        continue;
+      }
+      const fullPath = path.join(dir, entry.name);
+      const childRel = rel ? `${rel}/${entry.name}` : entry.name;
+
+      if (
+        isWorkspace(childRel) &&
+        existsSync(path.join(fullPath, "package.json"))
+      ) {
+        const manifest = await readManifest(fullPath);
+        const tsconfig = path.join(fullPath, "tsconfig.json");
+        packages.push({
+          name:
+            typeof manifest?.["name"] === "string"
+              ? manifest["name"]
+              : childRel,
+          dir: toPosix(path.relative(process.cwd(), fullPath)),
+          tsconfig: existsSync(tsconfig)
+            ? toPosix(path.relative(process.cwd(), tsconfig))
+            : null,
+        });
+      }
+      await walk(fullPath, childRel);
+    }
+  }
+  await walk(rootDir, "");
+
+  if (packages.length === 0) {
+    throw new Error(
+      `No workspace packages found in ${relativeRoot} for: ${globs.join(", ")}`,
+    );
+  }
+  return packages.sort((a, b) => a.dir.localeCompare(b.dir));
+}
+
+/**
+ * Scan every package: the files of its own tsconfig (and the projects it
+ * references) when it has one, a walk of its folder otherwise, both narrowed
+ * by `--exclude` / `--include`. Maps each file to the package it's scanned
+ * for; nested packages are scanned first, so they keep their files from the
+ * packages around them. Also returns the tsconfig projects read, each
+ * listing the files its package kept.
+ */
+export async function getWorkspaceFiles(
+  packages: WorkspacePackage[],
+  options: Pick<CliOptions, "exclude" | "include" | "includeJs">,
+): Promise<{
+  owners: Map<string, WorkspacePackage>;
+  projects: TsConfigProject[];
+}> {
+  const owners = new Map<string, WorkspacePackage>();
+  const projects: TsConfigProject[] = [];
+  const depth = (p: WorkspacePackage) => p.dir.split("/").length;
+
+  for (const pkg of [...packages].sort((a, b) => depth(b) - depth(a))) {
+    const packageProjects = pkg.tsconfig
+      ? getTsConfigProjects(pkg.tsconfig, options.includeJs).map((p) => ({
+          ...p,
+          files: applyPathFilters(p.files, options.exclude, options.include),
+        }))
+      : [];
+
+    const files = pkg.tsconfig
+      ? packageProjects.flatMap((p) => p.files)
+      : await getTypeFilesFromDirectory(
+          path.resolve(process.cwd(), pkg.dir),
+          options.exclude,
+          options.includeJs,
+          options.include,
+        );
+    for (const file of files) {
+      const absolute = path.resolve(process.cwd(), file);
+      if (!owners.has(absolute)) owners.set(absolute, pkg);
+    }
+    projects.push(
+      ...packageProjects.map((p) => ({
+        ...p,
+        files: p.files.filter((f) => owners.get(f) === pkg),
+      })),
+    );
+  }
+
+  return { owners, projects };
+}
+
+// ---------------------------------------------------------------------------
+// Cross-package findings
+// ---------------------------------------------------------------------------
+
+/** Packages a group's declarations come from, sorted. */
+export function groupPackages(items: DeclarationRecord[]): string[] {
+  return [
+    ...new Set(
+      items.flatMap((d) => (d.package === undefined ? [] : d.package)),
+    ),
+  ].sort();
+}
+
+/**
+ * `cross-package` when a group spans packages, `within-package` when all of
+ * it is in one. `undefined` outside workspace mode.
+ */
+export function packageScope(
+  items: DeclarationRecord[],
+): PackageScope | undefined {
+  const packages = groupPackages(items);
+  if (packages.length === 0) return undefined;
+  return packages.length > 1 ? "cross-package" : "within-package";
+}
+
+/** Cross-package groups first, each part keeping its order. */
+export function orderByPackageScope<T extends [string, DeclarationRecord[]]>(
+  groups: T[],
+): T[] {
+  const cross = groups.filter(
+    ([, items]) => packageScope(items) === "cross-package",
+  );
+  return [
+    ...cross,
+    ...groups.filter(([, items]) => packageScope(items) !== "cross-package"),
+  ];
+}
+
+/**
+ * Count reported groups per pair of packages: a group spanning several
+ * packages counts for every pair of them, one within a package on the
+ * diagonal.
+ */
+export function buildPackageMatrix(
+  groups: DeclarationRecord[][],
+  packages: WorkspacePackage[],
+): PackageMatrix {
+  const index = new Map(packages.map((p, i) => [p.name, i]));
+  const counts = packages.map(() => packages.map(() => 0));
+
+  for (const items of groups) {
+    const ids = groupPackages(items).flatMap((name) => index.get(name) ?? []);
+    for (const i of ids) {
+      const row = counts[i];
+      if (!row) continue;
+      for (const j of ids) {
+        if (i !== j || ids.length === 1) row[j] = (row[j] ?? 0) + 1;
+      }
+    }
+  }
+
+  return { packages, counts };
+}